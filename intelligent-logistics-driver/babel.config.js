@@ -9,6 +9,8 @@ module.exports = function (api) {
                     root: ['./'],
                     alias: {
                         '@': './src',
+                        // Modules shared with the gate UI
+                        '@shared': '../shared',
                     },
                     extensions: ['.ios.js', '.android.js', '.js', '.ts', '.tsx', '.json'],
                 },
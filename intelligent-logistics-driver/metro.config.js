@@ -0,0 +1,9 @@
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Let Metro bundle the modules shared with the gate UI (see babel.config.js)
+config.watchFolders = [path.resolve(__dirname, '../shared')];
+
+module.exports = config;
@@ -24,7 +24,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import Animated, { FadeIn, FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../stores/authStore';
-import { getMyActiveArrival, claimArrival } from '../services/drivers';
+import { getMyActiveArrival, claimArrival, completeAppointment } from '../services/drivers';
+import { canTransition } from '@shared/appointmentStatus';
 import { colors, spacing, borderRadius, fontSize, fontWeight } from '../theme/colors';
 import { haptics, SkeletonCard } from '../components/AnimatedComponents';
 import RouteMap from '../components/RouteMap';
@@ -213,12 +214,20 @@ export default function ActiveArrivalScreen() {
     };
 
     // TRIGGER: Driver finishes unloading
-    const handleFinishDelivery = () => {
-        haptics.success();
-        if (activeArrival) {
+    const handleFinishDelivery = async () => {
+        if (!activeArrival) return;
+        try {
+            if (!DEV_MOCK_MODE) {
+                await completeAppointment(activeArrival.id, activeArrival.status);
+            }
+            haptics.success();
             setActiveArrival({ ...activeArrival, status: 'completed' });
+            setSuccessMessage('Delivery completed!');
+        } catch (err) {
+            console.error('Failed to complete delivery:', err);
+            Alert.alert('Complete Delivery', err instanceof Error ? err.message : 'Could not complete delivery.');
+            haptics.error();
         }
-        setSuccessMessage('Delivery completed!');
     };
 
     const formatTime = (dateStr: string | null | undefined) => {
@@ -226,6 +235,8 @@ export default function ActiveArrivalScreen() {
         return new Date(dateStr).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
     };
 
+    // Delivery actions are only offered while the driver may complete the appointment
+    const canComplete = activeArrival ? canTransition(activeArrival.status, 'completed', 'driver') : false;
     const currentPhase = activeArrival ? getDeliveryPhase(activeArrival.status, isUnloading) : 0;
     const statusColors = activeArrival ? getStatusColors(activeArrival.status) : getStatusColors('');
 
@@ -373,19 +384,21 @@ export default function ActiveArrivalScreen() {
             </Animated.View>
 
             {/* Action Button */}
-            <Animated.View entering={FadeInUp.delay(300).duration(400)}>
-                {!isUnloading ? (
-                    <TouchableOpacity style={styles.primaryButton} onPress={handleStartUnloading}>
-                        <Ionicons name="cube-outline" size={20} color={colors.white} />
-                        <Text style={styles.primaryButtonText}>START UNLOADING</Text>
-                    </TouchableOpacity>
-                ) : (
-                    <TouchableOpacity style={[styles.primaryButton, styles.successButton]} onPress={handleFinishDelivery}>
-                        <Ionicons name="checkmark-circle" size={20} color={colors.white} />
-                        <Text style={styles.primaryButtonText}>COMPLETE DELIVERY</Text>
-                    </TouchableOpacity>
-                )}
-            </Animated.View>
+            {canComplete && (
+                <Animated.View entering={FadeInUp.delay(300).duration(400)}>
+                    {!isUnloading ? (
+                        <TouchableOpacity style={styles.primaryButton} onPress={handleStartUnloading}>
+                            <Ionicons name="cube-outline" size={20} color={colors.white} />
+                            <Text style={styles.primaryButtonText}>START UNLOADING</Text>
+                        </TouchableOpacity>
+                    ) : (
+                        <TouchableOpacity style={[styles.primaryButton, styles.successButton]} onPress={handleFinishDelivery}>
+                            <Ionicons name="checkmark-circle" size={20} color={colors.white} />
+                            <Text style={styles.primaryButtonText}>COMPLETE DELIVERY</Text>
+                        </TouchableOpacity>
+                    )}
+                </Animated.View>
+            )}
 
             {/* Success message */}
             {successMessage && (
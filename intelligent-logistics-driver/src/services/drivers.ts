@@ -4,6 +4,7 @@
  * Adapted from web version
  */
 import api from './api';
+import { checkTransition } from '@shared/appointmentStatus';
 import type {
     Driver,
     DriverLoginRequest,
@@ -11,6 +12,7 @@ import type {
     ClaimAppointmentRequest,
     ClaimAppointmentResponse,
     Appointment,
+    AppointmentStatusEnum,
 } from '../types/types';
 
 const BASE_PATH = '/drivers';
@@ -82,8 +84,17 @@ export async function getDriverArrivals(
 
 /**
  * Complete an appointment (confirm delivery)
+ * Only an appointment in process can be completed; anything else is refused
+ * before reaching the API.
  */
-export async function completeAppointment(appointmentId: number): Promise<void> {
+export async function completeAppointment(
+    appointmentId: number,
+    currentStatus: AppointmentStatusEnum
+): Promise<void> {
+    const check = checkTransition(currentStatus, 'completed', 'driver');
+    if (!check.ok) {
+        throw new Error(check.reason);
+    }
     await api.patch(`/arrivals/${appointmentId}/status`, {
         status: 'completed',
     });
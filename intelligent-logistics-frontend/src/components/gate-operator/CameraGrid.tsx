@@ -0,0 +1,151 @@
+import { useEffect, useMemo, useState } from "react";
+import { Grid2x2, Grid3x3, Loader2, Square } from "lucide-react";
+import HLSPlayer from "./HLSPlayer";
+import type { CameraInfo, StreamRenditions } from "@/services/streams";
+import { getGateCameras, getGateKey, resolveRenditions } from "@/lib/streamRegistry";
+import { useStreamRegistry } from "@/hooks/useStreamRegistry";
+import {
+  LAYOUT_TILES,
+  getCameraLayout,
+  pickTileCameras,
+  saveCameraLayout,
+  type CameraLayout,
+  type CameraLayoutMode,
+} from "@/lib/cameraLayout";
+import type { OverlayItem } from "@/lib/detectionOverlay";
+
+type CameraGridProps = {
+  gateId: number;
+  /** Drawn on the primary camera, the one the agents' bounding boxes refer to */
+  overlayItems?: OverlayItem[];
+};
+
+const LAYOUT_OPTIONS: { mode: CameraLayoutMode; title: string; icon: typeof Square }[] = [
+  { mode: "single", title: "Single camera", icon: Square },
+  { mode: "grid2", title: "2x2 grid", icon: Grid2x2 },
+  { mode: "grid3", title: "3x3 grid", icon: Grid3x3 },
+];
+
+// Gates missing from the registry still get their stream through the per-gate endpoints
+const FALLBACK_CAMERA: CameraInfo = { id: "main", label: "Main", primary: true, variants: {} };
+
+// Camera tiles for one gate. Only the focused tile plays the high variant and
+// owns the gate's capture/replay key, so several feeds stay cheap to decode.
+export default function CameraGrid({ gateId, overlayItems }: CameraGridProps) {
+  const registry = useStreamRegistry();
+  const [layout, setLayout] = useState<CameraLayout>(() => getCameraLayout(gateId));
+  const [renditions, setRenditions] = useState<Record<string, StreamRenditions | null>>({});
+
+  const cameras = useMemo(() => {
+    const list = getGateCameras(gateId, registry);
+    return list.length > 0 ? list : [FALLBACK_CAMERA];
+  }, [gateId, registry]);
+  const primaryId = (cameras.find((camera) => camera.primary) || cameras[0]).id;
+  const focusedId = cameras.some((camera) => camera.id === layout.focusedCameraId) ? layout.focusedCameraId! : primaryId;
+  const tiles = pickTileCameras(cameras, layout.mode, focusedId);
+  const tileIds = tiles.map((camera) => camera.id).join(",");
+
+  useEffect(() => {
+    saveCameraLayout(gateId, layout);
+  }, [gateId, layout]);
+
+  // Resolve variants for the cameras on screen; earlier results are kept while switching layouts
+  useEffect(() => {
+    let cancelled = false;
+    tileIds.split(",").forEach((cameraId) => {
+      resolveRenditions(gateId, cameraId)
+        .then((result) => {
+          if (!cancelled) setRenditions((prev) => ({ ...prev, [cameraId]: result }));
+        })
+        .catch((err) => {
+          console.error(`[CameraGrid] Failed to resolve stream for ${cameraId}:`, err);
+          if (!cancelled) setRenditions((prev) => ({ ...prev, [cameraId]: null }));
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [gateId, tileIds]);
+
+  const setMode = (mode: CameraLayoutMode) => setLayout((prev) => ({ ...prev, mode }));
+  const focus = (cameraId: string) => {
+    if (cameraId !== focusedId) setLayout((prev) => ({ ...prev, focusedCameraId: cameraId }));
+  };
+
+  const renderPlayer = (camera: CameraInfo) => {
+    const variants = renditions[camera.id];
+    const focused = camera.id === focusedId;
+    const url = focused ? variants?.high || variants?.low : variants?.low || variants?.high;
+    if (!url) {
+      return (
+        <div className="video-loading">
+          <Loader2 size={focused ? 32 : 20} className="spin" />
+          <span>Loading stream...</span>
+        </div>
+      );
+    }
+
+    // Remount on focus change so the tile swaps variant, DVR buffer and capture key cleanly
+    return focused ? (
+      <HLSPlayer
+        key={`${camera.id}-focused`}
+        streamUrl={url}
+        quality="high"
+        autoPlay={true}
+        captureKey={getGateKey(gateId)}
+        dvr
+        renditions={variants ?? undefined}
+        overlayItems={camera.id === primaryId ? overlayItems : undefined}
+      />
+    ) : (
+      <HLSPlayer
+        key={`${camera.id}-tile`}
+        streamUrl={url}
+        quality="low"
+        autoPlay={true}
+        overlayItems={camera.id === primaryId ? overlayItems : undefined}
+      />
+    );
+  };
+
+  const emptySlots = layout.mode === "single" ? 0 : Math.max(0, LAYOUT_TILES[layout.mode] - tiles.length);
+
+  return (
+    <div className="camera-grid-wrapper">
+      {layout.mode === "single" ? (
+        renderPlayer(tiles.find((camera) => camera.id === focusedId) || tiles[0])
+      ) : (
+        <div className={`camera-grid ${layout.mode}`}>
+          {tiles.map((camera) => (
+            <div
+              key={camera.id}
+              className={`camera-tile ${camera.id === focusedId ? "focused" : ""}`}
+              onClick={() => focus(camera.id)}
+            >
+              {renderPlayer(camera)}
+              <span className="camera-tile-label">{camera.label}</span>
+            </div>
+          ))}
+          {Array.from({ length: emptySlots }, (_, i) => (
+            <div key={`empty-${i}`} className="camera-tile empty">
+              <span>No camera</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="camera-layout-switch">
+        {LAYOUT_OPTIONS.map(({ mode, title, icon: Icon }) => (
+          <button
+            key={mode}
+            className={layout.mode === mode ? "active" : ""}
+            title={title}
+            onClick={() => setMode(mode)}
+          >
+            <Icon size={14} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,41 @@
 import { Link, useNavigate } from "react-router-dom";
 import { useState, useEffect, useCallback, useRef } from "react";
-import HLSPlayer from "./HLSPlayer";
-import ManualReviewModal, { type ManualReviewData } from "./ManualReviewModal";
+import CameraGrid from "./CameraGrid";
+import ManualReviewModal, { type DecisionOutcome, type ManualReviewData } from "./ManualReviewModal";
 import DetectionDetailsModal from "./DetectionDetailsModal";
 import ImagePreviewModal from "./ImagePreviewModal";
-import { AlertTriangle, ShieldAlert, RefreshCw, Loader2, Wifi, WifiOff, Bug, ChevronDown, ChevronUp } from "lucide-react";
-import { getStreamUrl as fetchStreamUrl } from "@/services/streams";
-import { getGateWebSocket, type DecisionUpdatePayload } from "@/lib/websocket";
+import QueueForecast from "./QueueForecast";
+import HazmatWarningModal from "./HazmatWarningModal";
+import { AlertTriangle, ShieldAlert, RefreshCw, Loader2, Wifi, WifiOff, Bug, ChevronDown, ChevronUp, Clock, Lock, History } from "lucide-react";
+import config from "@/config/appConfig";
+import { getGateKey } from "@/lib/streamRegistry";
+import type { ConnectionState, DecisionUpdatePayload } from "@/lib/websocket";
+import { getGateWebSocket } from "@/lib/sharedWebSocket";
+import { jumpToDetection } from "@/lib/replay";
+import { MAX_OVERLAY_ITEMS, buildOverlayItem, type OverlayItem } from "@/lib/detectionOverlay";
+import { clearDetections, getRecordDecision, queryDetections, subscribeDetections, type DetectionRecord } from "@/lib/eventStore";
+import { getShiftStart } from "@/lib/shifts";
+import { runHazmatCheck, type HazmatCheckResult } from "@/lib/hazmatCheck";
+import { formatHazmatCode, validateDecisionPayload, type NormalizedDecision } from "@/lib/payloadSchema";
+import { clearQuarantine, subscribeQuarantine, type QuarantineEntry } from "@/lib/quarantine";
+import {
+  buildReviewEntry,
+  claimEntry,
+  formatWaitTime,
+  getSlaLevel,
+  getWaitMs,
+  hasActiveClaim,
+  isClaimedByMe,
+  releaseEntry,
+  resolveEntry,
+  reviewIdFor,
+  startReviewQueueSync,
+  subscribeReviewQueue,
+} from "@/lib/reviewQueue";
+import type { ReviewQueueEntry } from "@/services/reviewQueue";
 import { ToastNotifications, useToasts } from "@/components/common/ToastNotifications";
+import { useDelayDetection } from "@/hooks/useDelayDetection";
+import type { DelayCandidate, DelayRunResult } from "@/services/delayDetection";
 import type { Appointment } from "@/types/types";
 
 // Map API status to English display
@@ -22,6 +50,14 @@ function mapStatusToLabel(status: string): string {
   return statusMap[status] || status;
 }
 
+// LIVE indicator label per connection state
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connecting: "Connecting",
+  open: "Live",
+  stale: "Stale",
+  offline: "Offline",
+};
+
 // Detection/Alert UI type - matches the new card design
 interface UIDetection {
   id: string;
@@ -41,8 +77,19 @@ interface UIDetection {
   truckId?: string;
   /** Full original WS payload — forwarded as-is on manual review submission */
   originalPayload?: DecisionUpdatePayload;
+  /** Validated decision the card was built from */
+  normalized?: NormalizedDecision;
+  /** Replayed from event history after a reconnect rather than received live */
+  recovered?: boolean;
+  /** Epoch ms of the detection, used to jump the camera replay to it */
+  timestampMs?: number;
 }
 
+// Detection cards kept in memory (enough to scroll back through a shift)
+const MAX_DETECTIONS = 200;
+// Records shown in the WebSocket debug panel
+const MAX_DEBUG_MESSAGES = 50;
+
 // Crop image type
 interface CropImage {
   id: string;
@@ -60,6 +107,25 @@ function generateUniqueId(prefix: string): string {
 
 
 
+// Modal data for a queued manual review
+function entryToReviewData(entry: ReviewQueueEntry): ManualReviewData | null {
+  const result = validateDecisionPayload(entry.payload);
+  if (!result.ok) return null;
+  const normalized = result.value;
+  return {
+    id: entry.id,
+    licensePlate: normalized.licensePlate,
+    lpCropUrl: normalized.licenseCropUrl,
+    hzCropUrl: normalized.hazardCropUrl,
+    UN: formatHazmatCode(normalized.un),
+    kemler: formatHazmatCode(normalized.kemler),
+    timestamp: normalized.timestamp,
+    truckId: normalized.truckId,
+    gateId: entry.gate_id,
+    originalPayload: normalized.raw,
+  };
+}
+
 // Map API arrival to UI format  
 function mapArrivalToUI(arrival: Appointment) {
   return {
@@ -81,6 +147,7 @@ export default function Dashboard() {
   const [expandedArrivalId, setExpandedArrivalId] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date().toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }));
   const [arrivalFilter, setArrivalFilter] = useState<"in_transit" | "delayed">("in_transit");
+  const [showForecast, setShowForecast] = useState(false);
 
   // API data states
   const [arrivals, setArrivals] = useState<ReturnType<typeof mapArrivalToUI>[]>([]);
@@ -89,19 +156,13 @@ export default function Dashboard() {
   const [arrivalsError, setArrivalsError] = useState<string | null>(null);
 
   // WebSocket states
-  const [isWsConnected, setIsWsConnected] = useState(false);
+  const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
   const [crops, setCrops] = useState<CropImage[]>([]);
-  const [streamUrl, setStreamUrl] = useState<string | null>(null);
-  // Load saved payloads from localStorage on mount
-  const [debugMessages, setDebugMessages] = useState<Array<{ id: string, timestamp: string, data: any }>>(() => {
-    try {
-      const saved = localStorage.getItem('ws_payloads');
-      return saved ? JSON.parse(saved) : [];
-    } catch {
-      return [];
-    }
-  });
+  const [overlayItems, setOverlayItems] = useState<OverlayItem[]>([]);
+  const [debugMessages, setDebugMessages] = useState<DetectionRecord[]>([]);
   const [showDebug, setShowDebug] = useState(false);
+  const [debugTab, setDebugTab] = useState<"messages" | "quarantine">("messages");
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>([]);
   const wsRef = useRef<ReturnType<typeof getGateWebSocket> | null>(null);
 
   // Manual Review Modal state
@@ -112,9 +173,15 @@ export default function Dashboard() {
 
   // Image Preview Modal state
   const [previewImage, setPreviewImage] = useState<{ url: string; title: string } | null>(null);
+  // Failed hazmat checks wait their turn so an unacknowledged warning is never replaced
+  const [hazmatWarnings, setHazmatWarnings] = useState<{ id: string; licensePlate: string; result: HazmatCheckResult }[]>([]);
+  const hazmatWarning = hazmatWarnings[0] ?? null;
 
-  // Held Manual Reviews (displayed as cards in detections list)
-  const [heldReviews, setHeldReviews] = useState<ManualReviewData[]>([]);
+  // Open manual reviews for this gate (persisted, shared with other operators)
+  const [reviewQueue, setReviewQueue] = useState<ReviewQueueEntry[]>([]);
+  const [now, setNow] = useState(Date.now());
+  // Set by Hold so closing the modal keeps the claim while the operator checks the feed
+  const keepClaimRef = useRef(false);
 
   // Toast notifications
   const { toasts, addToast, dismissToast } = useToasts();
@@ -123,6 +190,17 @@ export default function Dashboard() {
   const userInfo = JSON.parse(localStorage.getItem("user_info") || "{}");
   const gateId = userInfo.gate_id || 1;
 
+  // Claim a queued review before opening it, so no one else decides the same truck
+  const openReview = useCallback(async (entry: ReviewQueueEntry) => {
+    const result = await claimEntry(entry);
+    if (!result.ok) {
+      addToast({ type: "warning", title: "Manual Review", message: result.reason });
+      return;
+    }
+    const data = entryToReviewData(result.entry);
+    if (data) setManualReviewData(data);
+  }, [addToast]);
+
   // Fetch data function - only fetches arrivals (alerts come from WebSocket only)
   const fetchData = useCallback(async () => {
     setArrivalsError(null);
@@ -144,45 +222,23 @@ export default function Dashboard() {
     }
   }, [gateId, arrivalFilter]);
 
-  // Process a single payload and update UI (detections, crops, toasts)
-  // showToast = true for real-time updates, false for initial load from storage
-  const processPayload = useCallback((data: DecisionUpdatePayload, showToast: boolean = true) => {
-    console.log('[Dashboard] processPayload called', { message_type: data?.message_type, showToast, data });
-    if (!data || !data.message_type) {
-      console.warn('[Dashboard] processPayload returning early - missing message_type', { data });
-      return;
-    }
-
-    const lp_crop = data.license_crop_url;
-    const hz_crop = data.hazard_crop_url;
-    const lp_result = data.license_plate;
-    const decision = data.decision?.toUpperCase();
-    const decision_source = data.decision_source;
-
-
+  // Read through a ref so changing the arrivals filter doesn't rebuild processPayload
+  // (and with it reload the detection history)
+  const fetchDataRef = useRef(fetchData);
+  useEffect(() => {
+    fetchDataRef.current = fetchData;
+  }, [fetchData]);
 
-    // Parse timestamp - could be Unix seconds, Unix milliseconds, or ISO string
-    let now: string;
-    try {
-      if (data.timestamp) {
-        const ts = data.timestamp;
-        if (typeof ts === 'string') {
-          // ISO string or other date string
-          now = new Date(ts).toISOString();
-        } else if (typeof ts === 'number') {
-          // Check if it's seconds or milliseconds (timestamps before year 2001 in ms would be < 1e12)
-          const date = ts > 1e12 ? new Date(ts) : new Date(ts * 1000);
-          now = date.toISOString();
-        } else {
-          now = new Date().toISOString();
-        }
-      } else {
-        now = new Date().toISOString();
-      }
-    } catch (e) {
-      console.warn('[Dashboard] Failed to parse timestamp, using current time', data.timestamp, e);
-      now = new Date().toISOString();
-    }
+  // Process a single validated decision and update UI (detections, crops, toasts)
+  // showToast = true for real-time updates, false for initial load from storage
+  // recovered = true for payloads replayed after a reconnect (no toasts, crops or modal)
+  const processPayload = useCallback((normalized: NormalizedDecision, showToast: boolean = true, recovered: boolean = false) => {
+    const lp_crop = normalized.licenseCropUrl;
+    const hz_crop = normalized.hazardCropUrl;
+    const lp_result = normalized.licensePlate;
+    const decision = normalized.decision;
+    const now = normalized.timestamp;
+    const hasHazmat = !!(normalized.un || normalized.kemler);
 
     // Add new crops to the beginning of the list
     const newCrops: CropImage[] = [];
@@ -210,22 +266,15 @@ export default function Dashboard() {
       setCrops(newCrops);
     }
 
-    // Parse UN and Kemler from payload (format: "1203: Description" or just "1203")
-    const parseCodeWithDescription = (value?: string | null): { code?: string; description?: string } => {
-      if (!value) return {};
-      const parts = value.split(':');
-      return {
-        code: parts[0]?.trim(),
-        description: parts[1]?.trim()
-      };
-    };
-
-    const unParsed = parseCodeWithDescription(data.un);
-    const kemlerParsed = parseCodeWithDescription(data.kemler);
+    // Flash live detections over the camera feed (kept for DVR replays)
+    if (showToast) {
+      const item = buildOverlayItem(normalized);
+      setOverlayItems(prev => [item, ...prev.filter(existing => existing.id !== item.id)].slice(0, MAX_OVERLAY_ITEMS));
+    }
 
     // Determine severity based on decision and hazmat
     let severity: "warning" | "danger" | "info" = "info";
-    if (data.un || data.kemler) {
+    if (hasHazmat) {
       severity = "danger";
     } else if (decision === "REJECTED") {
       severity = "danger";
@@ -236,198 +285,256 @@ export default function Dashboard() {
     // Create unified detection card
     const newDetection: UIDetection = {
       id: generateUniqueId('ws-det'),
-      type: (data.un || data.kemler) ? "adr" : "plate",
+      type: hasHazmat ? "adr" : "plate",
       time: new Date(now).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }),
       severity,
-      decision: decision as UIDetection['decision'],
-      decisionSource: decision_source as UIDetection['decisionSource'],
-      decisionReason: data.decision_reason,
+      decision,
+      decisionSource: normalized.decisionSource,
+      decisionReason: normalized.decisionReason,
       licensePlate: lp_result,
-      kemler: kemlerParsed.code,
-      kemlerDescription: kemlerParsed.description,
-      UN: unParsed.code,
-      unDescription: unParsed.description,
+      kemler: normalized.kemler?.code,
+      kemlerDescription: normalized.kemler?.description,
+      UN: normalized.un?.code,
+      unDescription: normalized.un?.description,
       imageUrl: lp_crop || hz_crop,
-      truckId: data.truck_id as string | undefined,
-      originalPayload: data as DecisionUpdatePayload,
+      truckId: normalized.truckId,
+      originalPayload: normalized.raw,
+      normalized,
+      recovered,
+      timestampMs: normalized.timestampMs,
     };
-    setDetections(prev => [newDetection, ...prev].slice(0, 10));
+    setDetections(prev => [newDetection, ...prev].slice(0, MAX_DETECTIONS));
+
+    // Cross-check live hazmat detections with the appointment; any mismatch blocks with a warning
+    if (showToast && !recovered && hasHazmat) {
+      runHazmatCheck(lp_result, normalized.un?.code, normalized.kemler?.code)
+        .then((result) => {
+          if (result.issues.length > 0) {
+            setHazmatWarnings(prev => [...prev, { id: generateUniqueId('hazmat'), licensePlate: lp_result, result }]);
+          }
+        })
+        .catch((err) => console.error("[Hazmat] Compatibility check failed:", err));
+    }
 
-    // Trigger Manual Review Modal when MANUAL_REVIEW decision arrives
+    // Claim and open the Manual Review Modal when a MANUAL_REVIEW decision arrives
     if (showToast && decision === "MANUAL_REVIEW") {
-      setManualReviewData({
-        id: generateUniqueId('mr'),
-        licensePlate: lp_result,
-        lpCropUrl: lp_crop,
-        hzCropUrl: hz_crop,
-        UN: data.un,
-        kemler: data.kemler,
-        timestamp: now,
-        truckId: data.truck_id as string | undefined,
-        originalPayload: data as DecisionUpdatePayload,
-      });
+      openReview(buildReviewEntry(Number(gateId), normalized));
     }
 
     // Toast notifications for real-time updates only
     // Strictly follow backend alerts: One toast per alert in the payload
-    if (showToast && data.alerts && Array.isArray(data.alerts)) {
-      data.alerts.forEach((alertMsg) => {
-        if (typeof alertMsg === 'string' && alertMsg.trim()) {
-          // Determine type based on alert content for better UX
-          let toastType: "danger" | "warning" | "success" | "info" = "danger";
-          if (alertMsg.toLowerCase().includes('approved') || alertMsg.toLowerCase().includes('accepted')) {
-            toastType = "success";
-          } else if (alertMsg.toLowerCase().includes('review') || alertMsg.toLowerCase().includes('pending')) {
-            toastType = "warning";
-          }
-
-          addToast({
-            type: toastType,
-            title: "Alert",
-            message: alertMsg,
-          });
+    if (showToast) {
+      normalized.alerts.forEach((alertMsg) => {
+        // Determine type based on alert content for better UX
+        let toastType: "danger" | "warning" | "success" | "info" = "danger";
+        if (alertMsg.toLowerCase().includes('approved') || alertMsg.toLowerCase().includes('accepted')) {
+          toastType = "success";
+        } else if (alertMsg.toLowerCase().includes('review') || alertMsg.toLowerCase().includes('pending')) {
+          toastType = "warning";
         }
+
+        addToast({
+          type: toastType,
+          title: "Alert",
+          message: alertMsg,
+        });
       });
     }
 
     // Refresh arrivals list when ACCEPTED, REJECTED, or INFRACTION info arrives
     // This ensures the "Upcoming Arrivals" list reflects the exact status or infraction change automatically
-    if (showToast && (decision === "ACCEPTED" || decision === "REJECTED" || data.message_type === 'decision_results')) {
-      fetchData();
+    if (showToast && (decision === "ACCEPTED" || decision === "REJECTED" || normalized.messageType === 'decision_results')) {
+      fetchDataRef.current();
     }
-  }, [addToast, fetchData]);
+  }, [addToast, openReview, gateId]);
+
+  // Decisions already shown, so the history load and live messages never double-process
+  const seenDecisionsRef = useRef<Set<string>>(new Set());
+  const markSeen = useCallback((decision: NormalizedDecision) => {
+    const key = `${decision.timestampMs}|${decision.licensePlate.toUpperCase()}|${decision.decision}`;
+    if (seenDecisionsRef.current.has(key)) return false;
+    seenDecisionsRef.current.add(key);
+    return true;
+  }, []);
+
+  // Load the current shift's history from the event store; live decisions come from the socket
+  useEffect(() => {
+    let cancelled = false;
+    const seenDecisions = seenDecisionsRef.current;
+    const debugIds = new Set<string>();
+
+    const addDebugMessage = (record: DetectionRecord) => {
+      if (debugIds.has(record.id)) return;
+      debugIds.add(record.id);
+      setDebugMessages(prev => [record, ...prev].slice(0, MAX_DEBUG_MESSAGES));
+    };
+
+    const handleRecord = (record: DetectionRecord) => {
+      addDebugMessage(record);
+      const normalized = getRecordDecision(record);
+      if (!normalized) {
+        // Only reachable for records stored before validation existed
+        console.warn('[Dashboard] Skipping invalid stored payload', record.id);
+        return;
+      }
+      if (markSeen(normalized)) processPayload(normalized, false, record.recovered);
+    };
 
-  // Track the last processed payload ID to avoid duplicates
-  const lastProcessedIdRef = useRef<string | null>(null);
-  // Track if this is the initial load (to process all payloads)
-  const isInitialLoadRef = useRef(true);
+    const unsubscribe = subscribeDetections((change) => {
+      if (change.type === 'added') {
+        if (change.record.gateId === Number(gateId)) addDebugMessage(change.record);
+      } else if (change.type === 'deleted') {
+        setDebugMessages(prev => prev.filter(msg => msg.id !== change.id));
+      } else if (change.gateId === undefined || change.gateId === Number(gateId)) {
+        setDebugMessages([]);
+        setDetections([]);
+        setCrops([]);
+      }
+    });
 
-  // Listen for localStorage changes and process new payloads
-  useEffect(() => {
-    const handleStorageChange = () => {
+    const loadHistory = async () => {
       try {
-        const saved = localStorage.getItem('ws_payloads');
-        console.log('[Dashboard] handleStorageChange called', { hasSaved: !!saved });
-        if (!saved) return;
-
-        const messages = JSON.parse(saved) as Array<{ id: string, timestamp: string, data: DecisionUpdatePayload }>;
-        console.log('[Dashboard] Parsed messages', { count: messages.length, isInitialLoad: isInitialLoadRef.current, lastProcessedId: lastProcessedIdRef.current });
-        if (messages.length === 0) return;
-
-        // Update debug messages state
-        setDebugMessages(messages);
-
-        if (isInitialLoadRef.current) {
-          // On initial load:
-          // - Process only the NEWEST payload for crops (with showToast=true to trigger crop loading)
-          // - Process ALL payloads for detection cards (showToast=false, no toasts)
-          console.log('[Dashboard] Initial load - processing all messages');
-          isInitialLoadRef.current = false;
-
-          // First, process all messages for detections only (oldest first, no crops/toasts)
-          const reversedMessages = [...messages].reverse();
-          reversedMessages.forEach(msg => {
-            processPayload(msg.data, false);
-          });
-
-          // Then load crops from the newest message only
-          const newest = messages[0];
-          if (newest) {
-            // Extract crops from newest flat payload
-            const newestData = newest.data as DecisionUpdatePayload;
-            const newCrops: CropImage[] = [];
-            const now = newestData?.timestamp ? new Date(newestData.timestamp * 1000).toISOString() : new Date().toISOString();
-
-            if (newestData?.license_crop_url) {
-              newCrops.push({ id: generateUniqueId('init-lp'), url: newestData.license_crop_url, type: "lp", timestamp: now });
-            }
-            if (newestData?.hazard_crop_url) {
-              newCrops.push({ id: generateUniqueId('init-hz'), url: newestData.hazard_crop_url, type: "hz", timestamp: now });
-            }
-            if (newCrops.length > 0) {
-              setCrops(newCrops);
-            }
+        const records = await queryDetections({
+          gateId: Number(gateId),
+          from: getShiftStart().getTime(),
+          limit: MAX_DETECTIONS,
+        });
+        if (cancelled) return;
+
+        // Process oldest first for detection cards only (no crops/toasts)
+        [...records].reverse().forEach(handleRecord);
+
+        // Then load crops from the newest record only
+        const newest = records[0] ? getRecordDecision(records[0]) : null;
+        if (newest) {
+          const newCrops: CropImage[] = [];
+          if (newest.licenseCropUrl) {
+            newCrops.push({ id: generateUniqueId('init-lp'), url: newest.licenseCropUrl, type: "lp", timestamp: newest.timestamp });
           }
-
-          lastProcessedIdRef.current = messages[0]?.id || null;
-        } else {
-          // For subsequent updates, only process the newest payload (with toasts + crops)
-          const newest = messages[0];
-          const shouldProcess = newest && newest.id !== lastProcessedIdRef.current;
-          console.log('[Dashboard] Subsequent update', { newestId: newest?.id, lastProcessedId: lastProcessedIdRef.current, shouldProcess });
-          if (shouldProcess) {
-            lastProcessedIdRef.current = newest.id;
-            processPayload(newest.data, true);
+          if (newest.hazardCropUrl) {
+            newCrops.push({ id: generateUniqueId('init-hz'), url: newest.hazardCropUrl, type: "hz", timestamp: newest.timestamp });
+          }
+          if (newCrops.length > 0) {
+            setCrops(newCrops);
           }
         }
       } catch (e) {
-        console.warn('Failed to process localStorage payloads:', e);
+        console.warn('Failed to load detection history:', e);
       }
     };
+    loadHistory();
 
-    // Listen for storage events (from other tabs)
-    window.addEventListener('storage', handleStorageChange);
-
-    // Also listen for custom event (from same tab)
-    window.addEventListener('ws_payload_updated', handleStorageChange);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      seenDecisions.clear();
+      setDetections([]);
+      setDebugMessages([]);
+    };
+  }, [gateId, processPayload, markSeen]);
 
-    // Process any existing payloads on mount
-    handleStorageChange();
+  // Payloads that failed schema validation, shown in the debug panel
+  useEffect(() => subscribeQuarantine(setQuarantine), []);
 
+  // Manual review queue: synced with the server, escalated past the SLA
+  const escalatedIdsRef = useRef<Set<string> | null>(null);
+  useEffect(() => {
+    const stopSync = startReviewQueueSync([Number(gateId)]);
+    const unsubscribe = subscribeReviewQueue((entries) => {
+      const open = entries.filter(entry => entry.gate_id === Number(gateId) && entry.status !== "resolved");
+      setReviewQueue(open);
+
+      // Toast once per newly escalated entry (not for ones already escalated on load)
+      const escalated = open.filter(entry => entry.escalated_at);
+      if (escalatedIdsRef.current) {
+        const seen = escalatedIdsRef.current;
+        escalated
+          .filter(entry => !seen.has(entry.id))
+          .forEach(entry => addToast({
+            type: "danger",
+            title: "Review Escalated",
+            message: `${entry.license_plate || "Truck"} has waited ${formatWaitTime(getWaitMs(entry))} for a decision`,
+          }));
+      }
+      escalatedIdsRef.current = new Set(escalated.map(entry => entry.id));
+    });
     return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('ws_payload_updated', handleStorageChange);
+      stopSync();
+      unsubscribe();
+      escalatedIdsRef.current = null;
     };
-  }, [processPayload]);
+  }, [gateId, addToast]);
+
+  // Tick waiting times while trucks are queued
+  useEffect(() => {
+    if (reviewQueue.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [reviewQueue.length]);
+
+  // Recovered payloads arrive in a burst after a reconnect; summarise them in one toast
+  const recoveredCountRef = useRef(0);
+  const recoveredToastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleRecoveredToast = useCallback(() => {
+    recoveredCountRef.current += 1;
+    if (recoveredToastTimerRef.current) return;
+    recoveredToastTimerRef.current = setTimeout(() => {
+      const count = recoveredCountRef.current;
+      recoveredCountRef.current = 0;
+      recoveredToastTimerRef.current = null;
+      addToast({
+        type: "info",
+        title: "Connection Restored",
+        message: `Recovered ${count} decision${count === 1 ? '' : 's'} missed while offline`,
+      });
+      fetchData();
+    }, 500);
+  }, [addToast, fetchData]);
 
-  // WebSocket setup - ONLY saves to localStorage, UI updates via storage listener
+  // WebSocket setup - shared across tabs, UI updates via store subscription
   useEffect(() => {
     const ws = getGateWebSocket(gateId);
     wsRef.current = ws;
 
-    const unsubMessage = ws.onMessage((data: DecisionUpdatePayload) => {
-      // Save to localStorage - UI will update via storage listener
-      try {
-        const saved = localStorage.getItem('ws_payloads');
-        const existing = saved ? JSON.parse(saved) : [];
-        const newMessages = [{
-          id: generateUniqueId('debug'),
-          timestamp: new Date().toISOString(),
-          data: data
-        }, ...existing].slice(0, 10);
-
-        localStorage.setItem('ws_payloads', JSON.stringify(newMessages));
-
-        // Dispatch custom event for same-tab updates
-        window.dispatchEvent(new Event('ws_payload_updated'));
-      } catch (e) {
-        console.warn('Failed to save payload to localStorage:', e);
+    // Every tab gets live decisions from the socket, whether or not the leader
+    // managed to save them to the event store (which only backs the history)
+    const unsubMessage = ws.onMessage((decision, meta) => {
+      if (markSeen(decision)) {
+        processPayload(decision, !meta.recovered, meta.recovered);
+      }
+      if (meta.recovered) {
+        scheduleRecoveredToast();
       }
     });
 
-    const unsubConnect = ws.onConnect(() => {
-      setIsWsConnected(true);
-      // Note: Not showing toast here to avoid duplicate notifications
-      // WebSocket status is shown via the LIVE indicator
+    // Recovery can only read back so far; tell the operator which stretch may be missing
+    const unsubRecovery = ws.onRecovery((report) => {
+      if (report.complete) return;
+      const format = (ms: number) => new Date(ms).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+      addToast({
+        type: "warning",
+        title: "Partial Recovery",
+        message: `Decisions between ${format(report.window.since)} and ${format(report.coveredSince)} could not be recovered — check the decision history`,
+      });
     });
 
-    const unsubDisconnect = ws.onDisconnect(() => {
-      setIsWsConnected(false);
-    });
+    // Note: Not showing toasts on state changes to avoid duplicate notifications
+    // WebSocket status is shown via the LIVE indicator
+    const unsubState = ws.onStateChange(setConnectionState);
 
     // Connect
     ws.connect();
 
     return () => {
-      // Only unsubscribe handlers - don't disconnect the singleton WebSocket
+      // Only unsubscribe handlers - don't disconnect the pooled WebSocket
       // The WebSocket persists across React Strict Mode remounts
       unsubMessage();
-      unsubConnect();
-      unsubDisconnect();
+      unsubRecovery();
+      unsubState();
       // NOTE: Do NOT call ws.disconnect() here - it causes race conditions
       // with React Strict Mode's mount/unmount/mount cycle
     };
-  }, [gateId, addToast]);
+  }, [gateId, addToast, scheduleRecoveredToast, processPayload, markSeen]);
 
   // Initial fetch and auto-refresh timer
   useEffect(() => {
@@ -445,22 +552,32 @@ export default function Dashboard() {
     };
   }, [fetchData]);
 
-  // Fetch stream URL from API Gateway on mount
-  useEffect(() => {
-    const loadStreamUrl = async () => {
-      try {
-        // Use gate1 format (not gate01) as expected by stream server
-        const gateKey = `gate${gateId}`;
-        const url = await fetchStreamUrl(gateKey, 'high');
-        setStreamUrl(url);
-      } catch (err) {
-        console.error('Failed to fetch stream URL:', err);
-        // Fallback to a default placeholder if API fails
-        setStreamUrl(null);
-      }
-    };
-    loadStreamUrl();
-  }, [gateId]);
+  // Overdue in-transit appointments: auto-applied delays are toasted, the rest wait for the operator
+  const handleDelayRun = useCallback((result: DelayRunResult) => {
+    if (result.applied.length > 0) {
+      addToast({
+        type: "warning",
+        title: "Delayed Arrivals",
+        message: `${result.applied.map((a) => a.truck_license_plate).join(", ")} marked delayed${config.recipientNotificationsApi ? "; driver and company notified" : ""}.`,
+      });
+      fetchData();
+    }
+  }, [addToast, fetchData]);
+  const { proposals: delayProposals, confirm: confirmDelay, dismiss: dismissDelay } = useDelayDetection(gateId, handleDelayRun);
+
+  const handleConfirmDelay = async (candidate: DelayCandidate) => {
+    const result = await confirmDelay(candidate);
+    if (result.ok) {
+      addToast({
+        type: "info",
+        title: "Marked Delayed",
+        message: `${candidate.appointment.truck_license_plate} marked delayed; ${result.notified} notification(s) sent.`,
+      });
+      fetchData();
+    } else {
+      addToast({ type: "warning", title: "Delay Not Applied", message: result.reason });
+    }
+  };
 
   const toggleAccordion = (id: string) => {
     setExpandedArrivalId(expandedArrivalId === id ? null : id);
@@ -471,13 +588,31 @@ export default function Dashboard() {
     fetchData();
   };
 
+  // Jump the camera back to the moment a detection fired
+  const handleReplay = (detection: UIDetection) => {
+    if (detection.timestampMs === undefined) return;
+    const result = jumpToDetection(getGateKey(gateId), {
+      timestamp: detection.timestampMs,
+      label: detection.licensePlate || detection.decision || "Detection",
+    });
+    if (!result.ok) {
+      addToast({ type: "warning", title: "Replay", message: result.reason });
+    }
+  };
+
   // Handle manual review completion
-  const handleManualReviewComplete = (licensePlate: string, decision: 'accepted' | 'rejected') => {
+  const handleManualReviewComplete = (licensePlate: string, decision: 'accepted' | 'rejected', outcome?: DecisionOutcome) => {
+    if (manualReviewData) {
+      resolveEntry(manualReviewData.id, decision);
+    }
     addToast({
       type: decision === 'accepted' ? 'success' : 'warning',
       title: 'Manual Review',
-      message: `${licensePlate} ${decision}`,
+      message: `${licensePlate} ${decision}${outcome ? ` (${outcome.reasonCode})` : ''}`,
     });
+    if (outcome?.alertError) {
+      addToast({ type: 'danger', title: 'Linked Alert', message: `${outcome.alertError} for ${licensePlate}` });
+    }
     // Refresh arrivals list
     fetchData();
   };
@@ -488,19 +623,19 @@ export default function Dashboard() {
       <ManualReviewModal
         isOpen={manualReviewData !== null}
         reviewData={manualReviewData}
-        onClose={() => setManualReviewData(null)}
-        onHold={(data) => {
-          // Add to held reviews if not already there
-          setHeldReviews(prev => {
-            if (prev.some(r => r.id === data.id)) return prev;
-            return [...prev, data];
-          });
+        onClose={() => {
+          // Closing without a decision hands the truck back to the queue (unless held)
+          if (manualReviewData && !keepClaimRef.current) {
+            releaseEntry(manualReviewData.id);
+          }
+          keepClaimRef.current = false;
+          setManualReviewData(null);
         }}
-        onDecisionComplete={(licensePlate, decision) => {
-          // Remove from held reviews when decision is made
-          setHeldReviews(prev => prev.filter(r => r.id !== manualReviewData?.id));
-          handleManualReviewComplete(licensePlate, decision);
+        onHold={() => {
+          // Keep the claim while checking the camera feed; the card stays in the queue
+          keepClaimRef.current = true;
         }}
+        onDecisionComplete={handleManualReviewComplete}
       />
 
       {/* Detection Details Modal */}
@@ -510,6 +645,16 @@ export default function Dashboard() {
         onClose={() => setSelectedDetection(null)}
       />
 
+      {/* Hazmat Compatibility Warning */}
+      <HazmatWarningModal
+        key={hazmatWarning?.id}
+        licensePlate={hazmatWarning?.licensePlate || ""}
+        result={hazmatWarning?.result || null}
+        pendingCount={Math.max(0, hazmatWarnings.length - 1)}
+        onClose={() => setHazmatWarnings(prev => prev.slice(1))}
+        onAlertRaised={(plate) => addToast({ type: "danger", title: "Hazmat Alert", message: `Hazmat alert raised for ${plate}.` })}
+      />
+
       {/* Image Preview Modal (for crop zoom) */}
       <ImagePreviewModal
         isOpen={previewImage !== null}
@@ -525,18 +670,7 @@ export default function Dashboard() {
       <div className="left-panel">
         <div className="camera-section">
           <div className="video-area">
-            {streamUrl ? (
-              <HLSPlayer
-                streamUrl={streamUrl}
-                quality="high"
-                autoPlay={true}
-              />
-            ) : (
-              <div className="video-loading">
-                <Loader2 size={32} className="spin" />
-                <span>Loading stream...</span>
-              </div>
-            )}
+            <CameraGrid gateId={gateId} overlayItems={overlayItems} />
           </div>
 
           {/* Crops column - real-time images from WebSocket/MinIO */}
@@ -579,9 +713,9 @@ export default function Dashboard() {
               <ShieldAlert size={20} className="inline-icon" /> Detections & Decisions
             </h3>
             <div className="header-badges">
-              <span className={`ws-badge ${isWsConnected ? 'connected' : 'disconnected'}`}>
-                {isWsConnected ? <Wifi size={14} /> : <WifiOff size={14} />}
-                {isWsConnected ? 'Live' : 'Offline'}
+              <span className={`ws-badge ws-${connectionState}`}>
+                {connectionState === 'open' ? <Wifi size={14} /> : <WifiOff size={14} />}
+                {CONNECTION_LABELS[connectionState]}
               </span>
               <button
                 className="refresh-btn"
@@ -597,48 +731,60 @@ export default function Dashboard() {
 
 
           <div className="detections-list custom-scrollbar">
-            {/* Held Reviews - displayed prominently at top */}
-            {heldReviews.map((held) => (
-              <div
-                key={`held-${held.id}`}
-                className="detection-card severity-warning held-review"
-                onClick={() => setManualReviewData(held)}
-                style={{ cursor: 'pointer' }}
-              >
-                <div className="detection-header">
-                  <span className="decision-badge decision-held">
-                    HELD
-                  </span>
-                  <span className="detection-time">{held.timestamp}</span>
-                </div>
-                <div className="detection-fields">
-                  <div className="detection-field">
-                    <span className="field-label">LICENSE</span>
-                    <span className="field-value">{held.licensePlate || 'N/A'}</span>
+            {/* Review queue - displayed prominently at top, oldest first */}
+            {reviewQueue.map((entry) => {
+              const claimedByOther = hasActiveClaim(entry, now) && !isClaimedByMe(entry, now);
+              return (
+                <div
+                  key={`review-${entry.id}`}
+                  className={`detection-card severity-warning held-review sla-${getSlaLevel(entry, now)}`}
+                  onClick={() => openReview(entry)}
+                  style={{ cursor: 'pointer' }}
+                >
+                  <div className="detection-header">
+                    <span className="decision-badge decision-held">
+                      {isClaimedByMe(entry, now) ? 'HELD' : 'PENDING'}
+                    </span>
+                    {claimedByOther && (
+                      <span className="source-badge source-operator" title="Claimed by another operator">
+                        <Lock size={12} /> {entry.claimed_by_name}
+                      </span>
+                    )}
+                    <span className="detection-time">
+                      <Clock size={12} /> {formatWaitTime(getWaitMs(entry, now))}
+                    </span>
                   </div>
-                  {held.kemler && (
-                    <div className="detection-field">
-                      <span className="field-label">KEMLER</span>
-                      <span className="field-value">{held.kemler}</span>
-                    </div>
-                  )}
-                  {held.UN && (
+                  <div className="detection-fields">
                     <div className="detection-field">
-                      <span className="field-label">UN</span>
-                      <span className="field-value">{held.UN}</span>
+                      <span className="field-label">LICENSE</span>
+                      <span className="field-value">{entry.license_plate || 'N/A'}</span>
                     </div>
-                  )}
+                    {entry.payload.kemler && (
+                      <div className="detection-field">
+                        <span className="field-label">KEMLER</span>
+                        <span className="field-value">{entry.payload.kemler}</span>
+                      </div>
+                    )}
+                    {entry.payload.un && (
+                      <div className="detection-field">
+                        <span className="field-label">UN</span>
+                        <span className="field-value">{entry.payload.un}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="held-hint">
+                    {claimedByOther ? `Being reviewed by ${entry.claimed_by_name}` : 'Click to review'}
+                  </div>
                 </div>
-                <div className="held-hint">Click to resume review</div>
-              </div>
-            ))}
+              );
+            })}
 
-            {isLoading && detections.length === 0 && heldReviews.length === 0 ? (
+            {isLoading && detections.length === 0 && reviewQueue.length === 0 ? (
               <div className="loading-state">
                 <Loader2 size={24} className="spin" />
                 <span>Loading alerts...</span>
               </div>
-            ) : detections.length === 0 && heldReviews.length === 0 ? (
+            ) : detections.length === 0 && reviewQueue.length === 0 ? (
               <div className="empty-state">
                 <span>No recent alerts.</span>
               </div>
@@ -648,21 +794,13 @@ export default function Dashboard() {
                   key={detection.id}
                   className={`detection-card severity-${detection.severity} decision-${detection.decision?.toLowerCase().replace('_', '-') || 'unknown'}`}
                   onClick={() => {
-                    // For MANUAL_REVIEW, open the action modal; for others, show details
-                    if (detection.decision === 'MANUAL_REVIEW') {
-                      setManualReviewData({
-                        id: detection.id,
-                        licensePlate: detection.licensePlate,
-                        UN: detection.UN && detection.unDescription
-                          ? `${detection.UN}: ${detection.unDescription}`
-                          : detection.UN,
-                        kemler: detection.kemler && detection.kemlerDescription
-                          ? `${detection.kemler}: ${detection.kemlerDescription}`
-                          : detection.kemler,
-                        timestamp: detection.time,
-                        truckId: detection.truckId,
-                        originalPayload: detection.originalPayload,
-                      });
+                    // For an open MANUAL_REVIEW, claim it and open the action modal; for others, show details
+                    const normalized = detection.decision === 'MANUAL_REVIEW' ? detection.normalized : undefined;
+                    const queued = normalized
+                      ? reviewQueue.find(entry => entry.id === reviewIdFor(Number(gateId), normalized))
+                      : undefined;
+                    if (queued) {
+                      openReview(queued);
                     } else {
                       setSelectedDetection(detection);
                     }
@@ -683,8 +821,25 @@ export default function Dashboard() {
                         {detection.decisionSource === 'automated' ? 'Automated' : 'Operator'}
                       </span>
                     )}
+                    {detection.recovered && (
+                      <span className="source-badge source-recovered" title="Missed while offline, recovered from history">
+                        Recovered
+                      </span>
+                    )}
                     {detection.decisionReason && <span className="decision-reason">{detection.decisionReason}</span>}
                     <span className="detection-time">{detection.time}</span>
+                    {detection.timestampMs !== undefined && (
+                      <button
+                        className="replay-btn"
+                        title="Replay this detection"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleReplay(detection);
+                        }}
+                      >
+                        <History size={12} />
+                      </button>
+                    )}
                   </div>
 
                   {/* Content: LICENSE, KEMLER, UN */}
@@ -737,29 +892,85 @@ export default function Dashboard() {
           Arrivals List
         </button>
 
+        <button
+          className="view-toggle-btn"
+          onClick={() => navigate("/gate/supervision")}
+        >
+          Supervise All Gates
+        </button>
+
+        <button
+          className="view-toggle-btn"
+          onClick={() => navigate("/gate/audit")}
+        >
+          Decision Audit
+        </button>
+
+        <button
+          className="view-toggle-btn"
+          onClick={() => navigate("/gate/hazmat")}
+        >
+          ADR Reference
+        </button>
+
+        {delayProposals.length > 0 && (
+          <div className="delay-proposals">
+            <div className="delay-proposals-title">
+              <Clock size={14} />
+              <span>{delayProposals.length} overdue {delayProposals.length === 1 ? "arrival" : "arrivals"}</span>
+            </div>
+            {delayProposals.map((candidate) => (
+              <div key={candidate.appointment.id} className="delay-proposal">
+                <div className="delay-proposal-info">
+                  <span className="plate-id">{candidate.appointment.truck_license_plate}</span>
+                  <span className="delay-proposal-late">
+                    {candidate.overdueMinutes + candidate.graceMinutes} min late
+                  </span>
+                </div>
+                <div className="delay-proposal-actions">
+                  <button className="delay-confirm-btn" onClick={() => handleConfirmDelay(candidate)}>
+                    Mark delayed
+                  </button>
+                  <button className="delay-dismiss-btn" onClick={() => dismissDelay(candidate.appointment.id)}>
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="arrival-filter-toggle">
           <button
-            className={`arrival-filter-btn ${arrivalFilter === "in_transit" ? "active" : ""}`}
-            onClick={() => setArrivalFilter("in_transit")}
+            className={`arrival-filter-btn ${!showForecast && arrivalFilter === "in_transit" ? "active" : ""}`}
+            onClick={() => { setArrivalFilter("in_transit"); setShowForecast(false); }}
           >
             In Transit
           </button>
           <button
-            className={`arrival-filter-btn ${arrivalFilter === "delayed" ? "active" : ""}`}
-            onClick={() => setArrivalFilter("delayed")}
+            className={`arrival-filter-btn ${!showForecast && arrivalFilter === "delayed" ? "active" : ""}`}
+            onClick={() => { setArrivalFilter("delayed"); setShowForecast(false); }}
           >
             Delayed
           </button>
+          <button
+            className={`arrival-filter-btn ${showForecast ? "active" : ""}`}
+            onClick={() => setShowForecast(true)}
+          >
+            Forecast
+          </button>
         </div>
 
-        {arrivalsError && (
+        {showForecast && <QueueForecast gateId={gateId} />}
+
+        {!showForecast && arrivalsError && (
           <div className="error-message">
             <AlertTriangle size={16} />
             <span>{arrivalsError}</span>
           </div>
         )}
 
-        <div className="arrivals-list custom-scrollbar">
+        {!showForecast && <div className="arrivals-list custom-scrollbar">
           {isLoading && arrivals.length === 0 ? (
             <div className="loading-state">
               <Loader2 size={24} className="spin" />
@@ -841,7 +1052,7 @@ export default function Dashboard() {
               );
             })
           )}
-        </div>
+        </div>}
       </div>
 
       {/* WebSocket Debug Panel */}
@@ -879,6 +1090,11 @@ export default function Dashboard() {
         >
           <Bug size={16} />
           WebSocket Debug ({debugMessages.length})
+          {quarantine.length > 0 && (
+            <span style={{ background: '#ef4444', color: '#fff', borderRadius: '999px', padding: '0 6px' }}>
+              {quarantine.length} invalid
+            </span>
+          )}
           {showDebug ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
         </button>
 
@@ -897,15 +1113,37 @@ export default function Dashboard() {
             color: '#9ca3af',
           }}>
             <span>
-              <Wifi size={14} style={{ marginRight: '6px', color: isWsConnected ? '#4ade80' : '#ef4444' }} />
-              Gate {gateId} | {isWsConnected ? 'Connected' : 'Disconnected'}
+              <Wifi size={14} style={{ marginRight: '6px', color: connectionState === 'open' ? '#4ade80' : '#ef4444' }} />
+              Gate {gateId} | {CONNECTION_LABELS[connectionState]}
+            </span>
+            <span style={{ display: 'flex', gap: '6px' }}>
+              {(["messages", "quarantine"] as const).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setDebugTab(tab)}
+                  style={{
+                    background: debugTab === tab ? '#4ade80' : '#374151',
+                    color: debugTab === tab ? '#000' : '#fff',
+                    border: 'none',
+                    borderRadius: '4px',
+                    padding: '4px 8px',
+                    cursor: 'pointer',
+                    fontSize: '10px',
+                  }}
+                >
+                  {tab === "messages" ? `Messages (${debugMessages.length})` : `Quarantine (${quarantine.length})`}
+                </button>
+              ))}
             </span>
             <button
               onClick={() => {
-                localStorage.removeItem('ws_payloads');
-                setDebugMessages([]);
-                lastProcessedIdRef.current = null;
-                isInitialLoadRef.current = true;
+                if (debugTab === "quarantine") {
+                  clearQuarantine();
+                  return;
+                }
+                clearDetections(Number(gateId)).catch((e) => {
+                  console.warn('Failed to clear event store:', e);
+                });
               }}
               style={{
                 background: '#374151',
@@ -921,7 +1159,43 @@ export default function Dashboard() {
             </button>
           </div>
 
-          {debugMessages.length === 0 ? (
+          {debugTab === "quarantine" ? (
+            quarantine.length === 0 ? (
+              <div style={{ color: '#6b7280', textAlign: 'center', padding: '20px' }}>
+                No invalid messages received.
+              </div>
+            ) : (
+              quarantine.map((entry) => (
+                <div key={entry.id} style={{
+                  background: 'rgba(55, 65, 81, 0.5)',
+                  borderRadius: '6px',
+                  padding: '8px 12px',
+                  marginBottom: '8px',
+                  borderLeft: '3px solid #ef4444',
+                }}>
+                  <div style={{ color: '#9ca3af', marginBottom: '4px' }}>
+                    {new Date(entry.receivedAt).toLocaleTimeString()} — Gate {String(entry.gateId)}
+                  </div>
+                  <ul style={{ color: '#fca5a5', margin: '0 0 6px 16px', padding: 0 }}>
+                    {entry.errors.map((error, index) => (
+                      <li key={`e-${index}`}>{error.path || '(payload)'}: {error.message}</li>
+                    ))}
+                    {entry.warnings.map((warning, index) => (
+                      <li key={`w-${index}`} style={{ color: '#fcd34d' }}>{warning.path}: {warning.message}</li>
+                    ))}
+                  </ul>
+                  <pre style={{
+                    color: '#e5e7eb',
+                    margin: 0,
+                    whiteSpace: 'pre-wrap',
+                    wordBreak: 'break-all',
+                  }}>
+                    {typeof entry.raw === 'string' ? entry.raw : JSON.stringify(entry.raw, null, 2)}
+                  </pre>
+                </div>
+              ))
+            )
+          ) : debugMessages.length === 0 ? (
             <div style={{ color: '#6b7280', textAlign: 'center', padding: '20px' }}>
               No WebSocket messages received yet...
             </div>
@@ -935,7 +1209,7 @@ export default function Dashboard() {
                 borderLeft: '3px solid #4ade80',
               }}>
                 <div style={{ color: '#9ca3af', marginBottom: '4px' }}>
-                  {new Date(msg.timestamp).toLocaleTimeString()} — {msg.data?.type || 'unknown'}
+                  {new Date(msg.receivedAt).toLocaleTimeString()} — {msg.payload?.message_type || 'unknown'}{msg.recovered ? ' (recovered)' : ''}
                 </div>
                 <pre style={{
                   color: '#e5e7eb',
@@ -943,7 +1217,7 @@ export default function Dashboard() {
                   whiteSpace: 'pre-wrap',
                   wordBreak: 'break-all',
                 }}>
-                  {JSON.stringify(msg.data?.payload || msg.data, null, 2)}
+                  {JSON.stringify(msg.payload, null, 2)}
                 </pre>
               </div>
             ))
@@ -1,5 +1,6 @@
 import { createPortal } from 'react-dom';
-import { X, AlertTriangle, Truck, Clock } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { X, AlertTriangle, Truck, Clock, BookOpen } from 'lucide-react';
 
 interface DetectionDetailsProps {
     isOpen: boolean;
@@ -115,6 +116,13 @@ export default function DetectionDetailsModal({
                                 <div className="detail-row">
                                     <span className="detail-label">UN Number</span>
                                     <span className="detail-value">{detection.UN}</span>
+                                    <Link
+                                        to={`/gate/hazmat?un=${encodeURIComponent(detection.UN)}${detection.kemler ? `&kemler=${encodeURIComponent(detection.kemler)}` : ''}`}
+                                        className="hazmat-ref-link"
+                                        onClick={onClose}
+                                    >
+                                        <BookOpen size={14} /> Emergency guidance
+                                    </Link>
                                     {detection.unDescription && (
                                         <span className="detail-description" style={{ display: 'block', color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
                                             {detection.unDescription}
@@ -127,6 +135,13 @@ export default function DetectionDetailsModal({
                                 <div className="detail-row" style={{ marginTop: '0.75rem' }}>
                                     <span className="detail-label">Kemler Code</span>
                                     <span className="detail-value">{detection.kemler}</span>
+                                    <Link
+                                        to={`/gate/hazmat?kemler=${encodeURIComponent(detection.kemler)}`}
+                                        className="hazmat-ref-link"
+                                        onClick={onClose}
+                                    >
+                                        <BookOpen size={14} /> Decode
+                                    </Link>
                                     {detection.kemlerDescription && (
                                         <span className="detail-description" style={{ display: 'block', color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: '0.25rem' }}>
                                             {detection.kemlerDescription}
@@ -0,0 +1,154 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { OVERLAY_DURATION_MS, getDecisionColor, type OverlayBox, type OverlayItem } from "@/lib/detectionOverlay";
+
+type DetectionOverlayProps = {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  items: OverlayItem[];
+  /** Wall-clock epoch ms at media time 0, or null when unknown (see HLSPlayer) */
+  getClockOffset: () => number | null;
+};
+
+// Items are shown slightly before their timestamp to absorb clock jitter
+const LEAD_MS = 200;
+// Share of the display time spent fading out
+const FADE_SHARE = 0.25;
+
+type ContentRect = { x: number; y: number; width: number; height: number };
+
+// Area the video actually occupies inside the element (object-fit: contain)
+function getContentRect(video: HTMLVideoElement, width: number, height: number): ContentRect {
+  if (!video.videoWidth || !video.videoHeight) return { x: 0, y: 0, width, height };
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+}
+
+function drawBox(ctx: CanvasRenderingContext2D, box: OverlayBox, item: OverlayItem, rect: ContentRect, video: HTMLVideoElement) {
+  const frameWidth = box.normalized ? 1 : item.frameWidth || video.videoWidth || 1;
+  const frameHeight = box.normalized ? 1 : item.frameHeight || video.videoHeight || 1;
+  const x = rect.x + (box.x1 / frameWidth) * rect.width;
+  const y = rect.y + (box.y1 / frameHeight) * rect.height;
+  const w = ((box.x2 - box.x1) / frameWidth) * rect.width;
+  const h = ((box.y2 - box.y1) / frameHeight) * rect.height;
+  const color = getDecisionColor(item.decision);
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 3;
+  ctx.strokeRect(x, y, w, h);
+
+  const label = box.label || item.plate;
+  ctx.font = "600 12px sans-serif";
+  const labelWidth = ctx.measureText(label).width + 8;
+  ctx.fillStyle = color;
+  ctx.fillRect(x, Math.max(rect.y, y - 18), labelWidth, 18);
+  ctx.fillStyle = "#fff";
+  ctx.fillText(label, x + 4, Math.max(rect.y, y - 18) + 13);
+}
+
+function drawBanner(ctx: CanvasRenderingContext2D, item: OverlayItem, x: number, y: number): number {
+  const color = getDecisionColor(item.decision);
+  const hazmat = [item.un && `UN ${item.un}`, item.kemler && `Kemler ${item.kemler}`].filter(Boolean).join(" · ");
+  const height = hazmat ? 66 : 48;
+
+  ctx.font = "700 20px monospace";
+  const width = Math.max(ctx.measureText(item.plate).width, 140) + 28;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.65)";
+  ctx.fillRect(x, y, width, height);
+  ctx.fillStyle = color;
+  ctx.fillRect(x, y, 5, height);
+
+  ctx.fillStyle = "#fff";
+  ctx.fillText(item.plate, x + 14, y + 24);
+  ctx.font = "600 12px sans-serif";
+  ctx.fillStyle = color;
+  ctx.fillText(item.decision.replace("_", " "), x + 14, y + 40);
+  if (hazmat) {
+    ctx.fillStyle = "#fbbf24";
+    ctx.fillText(hazmat, x + 14, y + 58);
+  }
+  return height;
+}
+
+export default function DetectionOverlay({ videoRef, items, getClockOffset }: DetectionOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    if (items.length === 0) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    // The loop only runs while something is on screen; playback events wake it
+    // up again so replayed detections still appear when their moment comes
+    let frame = 0;
+    let running = false;
+    const draw = () => {
+      const video = videoRef.current;
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+
+      let visible = 0;
+      if (video) {
+        // Sync to what the video shows, so replays show their detections too
+        const offset = getClockOffset();
+        const now = Date.now();
+        const playhead = offset !== null ? offset + video.currentTime * 1000 : now;
+        const rect = getContentRect(video, width, height);
+        let bannerY = rect.y + 12;
+
+        items.forEach((item) => {
+          let progress: number;
+          let aligned = true;
+          if (playhead >= item.timestamp - LEAD_MS && playhead <= item.timestamp + OVERLAY_DURATION_MS) {
+            progress = (playhead - item.timestamp) / OVERLAY_DURATION_MS;
+          } else if (playhead > item.timestamp && now - item.receivedAt <= OVERLAY_DURATION_MS) {
+            // Payload arrived after its moment played: show it anyway, but boxes would not line up
+            progress = (now - item.receivedAt) / OVERLAY_DURATION_MS;
+            aligned = false;
+          } else {
+            return;
+          }
+
+          visible += 1;
+          ctx.globalAlpha = progress > 1 - FADE_SHARE ? Math.max(0, (1 - progress) / FADE_SHARE) : 1;
+          if (aligned) item.boxes.forEach((box) => drawBox(ctx, box, item, rect, video));
+          bannerY += drawBanner(ctx, item, rect.x + 12, bannerY) + 8;
+          ctx.globalAlpha = 1;
+        });
+      }
+
+      running = visible > 0;
+      if (running) frame = requestAnimationFrame(draw);
+    };
+
+    const wake = () => {
+      if (running) return;
+      running = true;
+      frame = requestAnimationFrame(draw);
+    };
+
+    const video = videoRef.current;
+    const wakeEvents = ["timeupdate", "seeking", "seeked", "play"] as const;
+    wakeEvents.forEach((event) => video?.addEventListener(event, wake));
+    // New items (e.g. a live detection) start the loop straight away
+    wake();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      wakeEvents.forEach((event) => video?.removeEventListener(event, wake));
+    };
+  }, [items, getClockOffset, videoRef]);
+
+  return <canvas ref={canvasRef} className="detection-overlay" />;
+}
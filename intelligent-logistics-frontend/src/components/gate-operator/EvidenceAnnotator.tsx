@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react';
+import { Check, Trash2, Undo2 } from 'lucide-react';
+import type { CapturedFrame } from '@/lib/frameCapture';
+
+// An annotated frame attached to a manual review
+export interface EvidenceCapture {
+    id: string;
+    /** PNG data URL with annotations burned in */
+    dataUrl: string;
+    caption: string;
+    capturedAt: number;
+}
+
+interface EvidenceAnnotatorProps {
+    frame: CapturedFrame;
+    onAttach: (evidence: EvidenceCapture) => void;
+    onDiscard: () => void;
+}
+
+type Point = { x: number; y: number };
+
+const STROKE_COLOR = '#ef4444';
+
+export default function EvidenceAnnotator({ frame, onAttach, onDiscard }: EvidenceAnnotatorProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const imageRef = useRef<HTMLImageElement | null>(null);
+    const drawingRef = useRef(false);
+    const [strokes, setStrokes] = useState<Point[][]>([]);
+    const [caption, setCaption] = useState('');
+
+    // Redraw the frame and every stroke whenever strokes change
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const draw = (image: HTMLImageElement) => {
+            ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+            ctx.strokeStyle = STROKE_COLOR;
+            ctx.lineWidth = Math.max(3, canvas.width / 200);
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            strokes.forEach(stroke => {
+                if (stroke.length === 0) return;
+                ctx.beginPath();
+                ctx.moveTo(stroke[0].x, stroke[0].y);
+                stroke.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+                ctx.stroke();
+            });
+        };
+
+        if (imageRef.current) {
+            draw(imageRef.current);
+            return;
+        }
+        const image = new Image();
+        image.onload = () => {
+            imageRef.current = image;
+            draw(image);
+        };
+        image.src = frame.dataUrl;
+    }, [frame.dataUrl, strokes]);
+
+    // Map pointer position to canvas pixels (the canvas is scaled down by CSS)
+    const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>): Point => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+            y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+        };
+    };
+
+    const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+        drawingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setStrokes(prev => [...prev, [toCanvasPoint(e)]]);
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+        if (!drawingRef.current) return;
+        const point = toCanvasPoint(e);
+        setStrokes(prev => {
+            const last = prev[prev.length - 1] || [];
+            return [...prev.slice(0, -1), [...last, point]];
+        });
+    };
+
+    const handlePointerUp = () => {
+        drawingRef.current = false;
+    };
+
+    const handleAttach = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        onAttach({
+            id: `ev-${frame.capturedAt}-${Math.random().toString(36).slice(2, 6)}`,
+            dataUrl: canvas.toDataURL('image/png'),
+            caption: caption.trim(),
+            capturedAt: frame.capturedAt,
+        });
+    };
+
+    return (
+        <div className="evidence-annotator">
+            <canvas
+                ref={canvasRef}
+                width={frame.width}
+                height={frame.height}
+                className="evidence-canvas"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            />
+            <input
+                type="text"
+                className="search-input"
+                placeholder="Caption (optional)"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+            />
+            <div className="evidence-actions">
+                <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => setStrokes(prev => prev.slice(0, -1))}
+                    disabled={strokes.length === 0}
+                >
+                    <Undo2 size={14} /> Undo
+                </button>
+                <button type="button" className="btn-secondary" onClick={onDiscard}>
+                    <Trash2 size={14} /> Discard
+                </button>
+                <button type="button" className="btn-primary" onClick={handleAttach}>
+                    <Check size={14} /> Attach
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,25 +1,266 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import Hls from "hls.js";
-import { Loader2, AlertCircle, RefreshCw } from "lucide-react";
+import { Loader2, AlertCircle, RefreshCw, Camera, Eye, EyeOff, Film, Pause, Play, Radio, RotateCcw } from "lucide-react";
+import config from "@/config/appConfig";
+import { captureFrame, registerVideoSource } from "@/lib/frameCapture";
+import {
+  CLIP_PRE_ROLL_SECONDS,
+  canRecordClips,
+  recordClip,
+  registerReplayController,
+  replayFileName,
+  type ReplayAnchor,
+  type ReplayWindow,
+} from "@/lib/replay";
+import { downloadBlob } from "@/services/exportService";
+import type { StreamRenditions } from "@/services/streams";
+import type { OverlayItem } from "@/lib/detectionOverlay";
+import DetectionOverlay from "./DetectionOverlay";
+import {
+  buildMasterPlaylist,
+  getQualityMode,
+  renditionForBitrate,
+  setQualityMode as saveQualityMode,
+  type QualityMode,
+  type Rendition,
+} from "@/lib/adaptiveStream";
+import {
+  clearStreamHealth,
+  getStreamClientId,
+  getStreamHealthLevel,
+  recordStreamHealth,
+  type StreamHealthLevel,
+} from "@/lib/streamHealth";
 
 type HLSPlayerProps = {
   streamUrl: string;
   quality?: "low" | "high";
   autoPlay?: boolean;
+  /** Registers the video for frame capture (and replay, in DVR mode) under this key (e.g. "gate1") */
+  captureKey?: string;
+  /** Keep a rolling buffer of appConfig.dvrBufferSeconds for instant replay */
+  dvr?: boolean;
+  /** Both quality variants; when given, quality adapts to bandwidth and tab visibility */
+  renditions?: StreamRenditions;
+  /** Detections to draw over the feed at their timestamps (toggleable) */
+  overlayItems?: OverlayItem[];
 };
 
+const OVERLAY_STORAGE_KEY = "detection_overlay";
+
+// Closer than this to the buffered edge counts as watching live
+const LIVE_THRESHOLD_MS = 6000;
+// Seconds skipped by the rewind button
+const REWIND_SECONDS = 10;
+
+type ReplayPosition = ReplayWindow & { current: number };
+
+// How often a health snapshot is recorded
+const HEALTH_SAMPLE_MS = 5000;
+// Rebuffers within this window that force the low rendition in auto mode
+const REBUFFER_WINDOW_MS = 60000;
+const REBUFFER_LIMIT = 3;
+// How long auto mode stays on the low rendition after repeated rebuffering
+const DEGRADE_HOLD_MS = 2 * 60 * 1000;
+
+// Apply the quality override; in auto mode optionally cap to the low rendition
+function applyQualityMode(hls: Hls, mode: QualityMode, capToLow: boolean) {
+  if (hls.levels.length < 2) return;
+  const indexOf = (name: Rendition) => hls.levels.findIndex((level) => renditionForBitrate(level.bitrate) === name);
+
+  if (mode === "auto") {
+    hls.autoLevelCapping = capToLow ? indexOf("low") : -1;
+    hls.nextLevel = -1;
+  } else {
+    hls.autoLevelCapping = -1;
+    hls.nextLevel = indexOf(mode);
+  }
+}
+
+// Buffered media range (seconds), capped to the DVR buffer length
+function getBufferedRange(video: HTMLVideoElement): { start: number; end: number } | null {
+  const buffered = video.buffered;
+  if (buffered.length === 0) return null;
+  const end = buffered.end(buffered.length - 1);
+  return { start: Math.max(buffered.start(0), end - config.dvrBufferSeconds), end };
+}
+
+function formatOffset(ms: number): string {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `-${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
 export default function HLSPlayer({
   streamUrl,
   quality = "high",
   autoPlay = true,
+  captureKey,
+  dvr = false,
+  renditions,
+  overlayItems,
 }: HLSPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
   const [status, setStatus] = useState<"loading" | "ready" | "error" | "playing">(() => "loading");
   const [errorMessage, setErrorMessage] = useState<string>("");
+  const [position, setPosition] = useState<ReplayPosition | null>(null);
+  const [anchor, setAnchor] = useState<ReplayAnchor | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [exporting, setExporting] = useState<"still" | "clip" | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [qualityMode, setQualityMode] = useState<QualityMode>(getQualityMode);
+  const [multiRendition, setMultiRendition] = useState(false);
+  const [activeRendition, setActiveRendition] = useState<Rendition>(quality);
+  const [healthLevel, setHealthLevel] = useState<StreamHealthLevel | null>(null);
+  const [overlayEnabled, setOverlayEnabled] = useState(() => localStorage.getItem(OVERLAY_STORAGE_KEY) !== "off");
+  const qualityModeRef = useRef(qualityMode);
+  const activeRenditionRef = useRef<Rendition>(quality);
+  const degradedUntilRef = useRef(0);
+  const metricsRef = useRef({
+    loadStartedAt: 0,
+    startupMs: null as number | null,
+    waitingSince: null as number | null,
+    rebufferCount: 0,
+    rebufferMs: 0,
+    recentRebuffers: [] as number[],
+  });
+  const lowUrl = renditions?.low;
+  const highUrl = renditions?.high;
 
   // Remove effect that sets state synchronously
 
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!captureKey || !video) return;
+    return registerVideoSource(captureKey, video);
+  }, [captureKey]);
+
+  // Wall-clock epoch ms at media time 0. Uses the stream's program date time when
+  // present, otherwise assumes the live edge (playhead + hls.js latency) is "now".
+  // Null when neither is known (e.g. native HLS), which disables detection-anchored replay.
+  const getClockOffset = useCallback((): number | null => {
+    const video = videoRef.current;
+    const hls = hlsRef.current;
+    if (!video || !hls) return null;
+    if (hls.playingDate) return hls.playingDate.getTime() - video.currentTime * 1000;
+    return hls.latency > 0 ? Date.now() - (video.currentTime + hls.latency) * 1000 : null;
+  }, []);
+
+  const getWindow = useCallback((): ReplayWindow | null => {
+    const video = videoRef.current;
+    const offset = getClockOffset();
+    const range = video ? getBufferedRange(video) : null;
+    if (offset === null || !range) return null;
+    return { start: offset + range.start * 1000, end: offset + range.end * 1000 };
+  }, [getClockOffset]);
+
+  const seekTo = useCallback((timestamp: number, nextAnchor?: ReplayAnchor): boolean => {
+    const video = videoRef.current;
+    const offset = getClockOffset();
+    const range = video ? getBufferedRange(video) : null;
+    if (!video || offset === null || !range) return false;
+
+    const target = (timestamp - offset) / 1000;
+    if (target < range.start - 0.5 || target > range.end + 0.5) return false;
+    video.currentTime = Math.min(Math.max(target, range.start), range.end);
+    if (nextAnchor) setAnchor(nextAnchor);
+    setReplayError(null);
+    return true;
+  }, [getClockOffset]);
+
+  const goLive = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const range = getBufferedRange(video);
+    const livePosition = hlsRef.current?.liveSyncPosition ?? (range ? range.end - 1 : null);
+    if (livePosition !== null) video.currentTime = livePosition;
+    setAnchor(null);
+    setReplayError(null);
+    video.play().catch(() => undefined);
+  }, []);
+
+  // Track the replay position for the scrubber
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!dvr || !video) return;
+
+    const handleTimeUpdate = () => {
+      const offset = getClockOffset();
+      const range = getBufferedRange(video);
+      if (offset === null || !range) return;
+      setPosition({
+        start: offset + range.start * 1000,
+        end: offset + range.end * 1000,
+        current: offset + video.currentTime * 1000,
+      });
+    };
+    const handlePlayState = () => setPaused(video.paused);
+
+    video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("play", handlePlayState);
+    video.addEventListener("pause", handlePlayState);
+    return () => {
+      video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("play", handlePlayState);
+      video.removeEventListener("pause", handlePlayState);
+    };
+  }, [dvr, getClockOffset]);
+
+  useEffect(() => {
+    if (!dvr || !captureKey) return;
+    return registerReplayController(captureKey, { seekTo, goLive, getWindow });
+  }, [dvr, captureKey, seekTo, goLive, getWindow]);
+
+  const handleExportStill = async () => {
+    const frame = captureKey ? captureFrame(captureKey) : null;
+    if (!frame) {
+      setReplayError("Could not capture this frame");
+      return;
+    }
+    setExporting("still");
+    setReplayError(null);
+    try {
+      const blob = await (await fetch(frame.dataUrl)).blob();
+      downloadBlob(blob, replayFileName(anchor, position?.current ?? frame.capturedAt, "png"));
+    } catch (err) {
+      console.error(`[${quality.toUpperCase()}] Still export failed:`, err);
+      setReplayError(err instanceof Error ? err.message : "Still export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportClip = async () => {
+    const video = videoRef.current;
+    if (!video || !position) return;
+
+    // Start a little before the detection so the clip shows the approach
+    const start = Math.max((anchor?.timestamp ?? position.current) - CLIP_PRE_ROLL_SECONDS * 1000, position.start);
+    setExporting("clip");
+    setReplayError(null);
+    try {
+      seekTo(start);
+      await video.play();
+      const blob = await recordClip(video, config.dvrClipSeconds * 1000);
+      downloadBlob(blob, replayFileName(anchor, start, "webm"));
+    } catch (err) {
+      console.error(`[${quality.toUpperCase()}] Clip export failed:`, err);
+      setReplayError(err instanceof Error ? err.message : "Clip export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const togglePause = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(() => undefined);
+    } else {
+      video.pause();
+    }
+  };
+
   const startPlayback = useCallback(async () => {
     const video = videoRef.current;
     if (!video) return;
@@ -49,19 +290,38 @@ export default function HLSPlayer({
     // Instead, set loading state before effect runs
     // This can be handled by another useEffect or by updating state when streamUrl/quality changes
 
-    console.log(`[${quality.toUpperCase()}] Connecting to:`, streamUrl);
+    // Build a multi-rendition source when both variants are known (hls.js only)
+    const masterUrl = Hls.isSupported() && lowUrl && highUrl
+      ? buildMasterPlaylist({ low: lowUrl, high: highUrl })
+      : null;
+    const sourceUrl = masterUrl || streamUrl;
+    metricsRef.current = {
+      loadStartedAt: performance.now(),
+      startupMs: null,
+      waitingSince: null,
+      rebufferCount: 0,
+      rebufferMs: 0,
+      recentRebuffers: [],
+    };
+
+    console.log(`[${quality.toUpperCase()}] Connecting to:`, masterUrl ? { low: lowUrl, high: highUrl } : streamUrl);
 
     // Check HLS.js support
     if (Hls.isSupported()) {
       const hls = new Hls({
         debug: false,
         enableWorker: true,
+        // Drop to a lower rendition when the PC can't decode the current one
+        capLevelOnFPSDrop: true,
+        ...(quality === "low" ? { startLevel: 0 } : {}),
         lowLatencyMode: true,
-        backBufferLength: 10,
+        // DVR mode keeps played media around so it can be rewound
+        backBufferLength: dvr ? config.dvrBufferSeconds : 10,
         maxBufferLength: 30,
         maxMaxBufferLength: 60,
         liveSyncDuration: 3,
-        liveMaxLatencyDuration: 10,
+        // Only resync to live once playback falls out of the replay buffer
+        liveMaxLatencyDuration: dvr ? Math.max(config.dvrBufferSeconds, 10) : 10,
         maxFragLookUpTolerance: 0.2,
         manifestLoadPolicy: {
           default: {
@@ -95,9 +355,11 @@ export default function HLSPlayer({
         console.log(`[${quality.toUpperCase()}] Loading manifest...`);
       });
 
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
         setStatus("ready");
-        console.log(`[${quality.toUpperCase()}] Manifest parsed, stream ready`);
+        setMultiRendition(data.levels.length > 1);
+        applyQualityMode(hls, qualityModeRef.current, document.hidden);
+        console.log(`[${quality.toUpperCase()}] Manifest parsed, stream ready (${data.levels.length} rendition(s))`);
 
         if (autoPlay) {
           setTimeout(() => startPlayback(), 500);
@@ -134,6 +396,15 @@ export default function HLSPlayer({
         }
       });
 
+      hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+        const level = hls.levels[data.level];
+        if (!level || hls.levels.length < 2) return;
+        const rendition = renditionForBitrate(level.bitrate);
+        activeRenditionRef.current = rendition;
+        setActiveRendition(rendition);
+        console.log(`[${quality.toUpperCase()}] Switched to ${rendition} rendition`);
+      });
+
       hls.on(Hls.Events.FRAG_LOADED, () => {
         if (status === "error") {
           setStatus("ready");
@@ -141,7 +412,7 @@ export default function HLSPlayer({
         }
       });
 
-      hls.loadSource(streamUrl);
+      hls.loadSource(sourceUrl);
       hls.attachMedia(video);
 
     } else if (video.canPlayType("application/vnd.apple.mpegurl")) {
@@ -188,18 +459,220 @@ export default function HLSPlayer({
         hlsRef.current.destroy();
         hlsRef.current = null;
       }
+      if (masterUrl) URL.revokeObjectURL(masterUrl);
+    };
+  }, [streamUrl, lowUrl, highUrl, quality, autoPlay, startPlayback, dvr]);
+
+  // Re-apply quality on override changes and tab visibility: hidden tabs (and
+  // feeds that keep rebuffering) drop to the low rendition while in auto mode
+  useEffect(() => {
+    qualityModeRef.current = qualityMode;
+    const update = () => {
+      const hls = hlsRef.current;
+      if (!hls) return;
+      applyQualityMode(hls, qualityMode, document.hidden || Date.now() < degradedUntilRef.current);
+    };
+    update();
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
+  }, [qualityMode]);
+
+  // Health telemetry: startup time, rebuffering, latency and dropped frames
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const metrics = () => metricsRef.current;
+
+    const handlePlaying = () => {
+      const m = metrics();
+      const now = performance.now();
+      if (m.startupMs === null) {
+        m.startupMs = Math.round(now - m.loadStartedAt);
+      }
+      if (m.waitingSince !== null) {
+        m.rebufferMs += now - m.waitingSince;
+        m.waitingSince = null;
+      }
+    };
+
+    const handleWaiting = () => {
+      const m = metrics();
+      // Stalls before the first frame or caused by seeking are not rebuffers
+      if (m.startupMs === null || video.seeking || m.waitingSince !== null) return;
+      m.waitingSince = performance.now();
+      m.rebufferCount += 1;
+
+      const now = Date.now();
+      m.recentRebuffers = [...m.recentRebuffers.filter((t) => now - t < REBUFFER_WINDOW_MS), now];
+      const hls = hlsRef.current;
+      if (hls && qualityModeRef.current === "auto" && m.recentRebuffers.length >= REBUFFER_LIMIT) {
+        console.warn(`[${quality.toUpperCase()}] Repeated rebuffering, holding low rendition`);
+        degradedUntilRef.current = now + DEGRADE_HOLD_MS;
+        m.recentRebuffers = [];
+        applyQualityMode(hls, "auto", true);
+      }
+    };
+
+    const sample = () => {
+      const hls = hlsRef.current;
+      const m = metrics();
+      const playback = video.getVideoPlaybackQuality?.();
+      const bandwidth = hls?.bandwidthEstimate;
+
+      // Lift the rebuffering cap once it expires
+      if (hls && degradedUntilRef.current && Date.now() >= degradedUntilRef.current) {
+        degradedUntilRef.current = 0;
+        applyQualityMode(hls, qualityModeRef.current, document.hidden);
+      }
+
+      const report = {
+        gate_id: captureKey || "unknown",
+        client_id: getStreamClientId(),
+        rendition: hls && hls.levels.length > 1 ? activeRenditionRef.current : quality,
+        mode: qualityModeRef.current,
+        startup_ms: m.startupMs,
+        rebuffer_count: m.rebufferCount,
+        rebuffer_ms: Math.round(m.rebufferMs),
+        latency_s: hls && Number.isFinite(hls.latency) ? Number(hls.latency.toFixed(1)) : null,
+        dropped_frames: playback?.droppedVideoFrames ?? 0,
+        total_frames: playback?.totalVideoFrames ?? 0,
+        bandwidth_kbps: bandwidth && Number.isFinite(bandwidth) ? Math.round(bandwidth / 1000) : null,
+        reported_at: new Date().toISOString(),
+      };
+      setHealthLevel(m.startupMs === null ? null : getStreamHealthLevel(report));
+      // Only feeds tied to a gate are reported to the server
+      if (captureKey) recordStreamHealth(report);
+    };
+
+    video.addEventListener("playing", handlePlaying);
+    video.addEventListener("waiting", handleWaiting);
+    const timer = setInterval(sample, HEALTH_SAMPLE_MS);
+    return () => {
+      video.removeEventListener("playing", handlePlaying);
+      video.removeEventListener("waiting", handleWaiting);
+      clearInterval(timer);
+      if (captureKey) clearStreamHealth(captureKey);
     };
-  }, [streamUrl, quality, autoPlay, startPlayback]);
+  }, [captureKey, quality]);
+
+  const toggleOverlay = () => {
+    localStorage.setItem(OVERLAY_STORAGE_KEY, overlayEnabled ? "off" : "on");
+    setOverlayEnabled(!overlayEnabled);
+  };
+
+  const handleQualityChange = (mode: QualityMode) => {
+    saveQualityMode(mode);
+    setQualityMode(mode);
+  };
+
+  const isLive = !position || position.end - position.current < LIVE_THRESHOLD_MS;
+  const anchorPercent = anchor && position && position.end > position.start
+    ? ((anchor.timestamp - position.start) / (position.end - position.start)) * 100
+    : null;
 
   return (
-    <div className="hls-player-container">
+    <div className={`hls-player-container${dvr ? " dvr" : ""}`}>
       <video
         ref={videoRef}
         className="camera-feed"
-        controls
+        controls={!dvr}
         muted
         playsInline
       />
+      {overlayItems && overlayEnabled && (
+        <DetectionOverlay videoRef={videoRef} items={overlayItems} getClockOffset={getClockOffset} />
+      )}
+      {(multiRendition || healthLevel || overlayItems) && (
+        <div className="quality-control">
+          {overlayItems && (
+            <button
+              type="button"
+              className="overlay-toggle"
+              onClick={toggleOverlay}
+              title={overlayEnabled ? "Hide detection overlay" : "Show detection overlay"}
+            >
+              {overlayEnabled ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+          )}
+          {healthLevel && (
+            <span className={`stream-health health-${healthLevel}`} title={`Feed health: ${healthLevel}`} />
+          )}
+          {multiRendition && (
+            <select
+              value={qualityMode}
+              onChange={(e) => handleQualityChange(e.target.value as QualityMode)}
+              title="Stream quality"
+            >
+              <option value="auto">Auto ({activeRendition === "high" ? "HD" : "SD"})</option>
+              <option value="high">HD</option>
+              <option value="low">SD</option>
+            </select>
+          )}
+        </div>
+      )}
+      {dvr && position && (
+        <div className="dvr-bar">
+          <button type="button" className="dvr-btn" onClick={togglePause} title={paused ? "Play" : "Pause"}>
+            {paused ? <Play size={14} /> : <Pause size={14} />}
+          </button>
+          <button
+            type="button"
+            className="dvr-btn"
+            onClick={() => seekTo(Math.max(position.current - REWIND_SECONDS * 1000, position.start))}
+            title={`Back ${REWIND_SECONDS}s`}
+          >
+            <RotateCcw size={14} />
+          </button>
+          <div className="dvr-scrubber">
+            <input
+              type="range"
+              min={position.start}
+              max={position.end}
+              step={100}
+              value={Math.min(Math.max(position.current, position.start), position.end)}
+              onChange={(e) => seekTo(Number(e.target.value))}
+            />
+            {anchorPercent !== null && anchorPercent >= 0 && anchorPercent <= 100 && (
+              <span className="dvr-anchor-marker" style={{ left: `${anchorPercent}%` }} title={anchor?.label} />
+            )}
+          </div>
+          <button
+            type="button"
+            className={`dvr-live ${isLive ? "active" : ""}`}
+            onClick={goLive}
+            disabled={isLive}
+            title={isLive ? "Watching live" : "Return to live"}
+          >
+            <Radio size={12} /> {isLive ? "LIVE" : formatOffset(position.end - position.current)}
+          </button>
+          {anchor && (
+            <span className="dvr-anchor-label" title="Replaying detection">
+              {anchor.label} · {new Date(anchor.timestamp).toLocaleTimeString("en-GB")}
+            </span>
+          )}
+          <button
+            type="button"
+            className="dvr-btn"
+            onClick={handleExportStill}
+            disabled={exporting !== null || !captureKey}
+            title="Export still frame"
+          >
+            <Camera size={14} />
+          </button>
+          {canRecordClips() && (
+            <button
+              type="button"
+              className="dvr-btn"
+              onClick={handleExportClip}
+              disabled={exporting !== null}
+              title={`Export ${config.dvrClipSeconds}s clip`}
+            >
+              {exporting === "clip" ? <Loader2 size={14} className="animate-spin" /> : <Film size={14} />}
+            </button>
+          )}
+          {replayError && <span className="dvr-error">{replayError}</span>}
+        </div>
+      )}
       {status === "loading" && (
         <div className="stream-overlay loading">
           <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
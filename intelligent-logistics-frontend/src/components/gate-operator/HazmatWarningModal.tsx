@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AlertTriangle, Loader2, ShieldAlert } from 'lucide-react';
+import { createAlert, createHazmatAlert } from '@/services/alerts';
+import { getErrorMessage } from '@/lib/api';
+import type { HazmatCheckResult } from '@/lib/hazmatCheck';
+
+interface HazmatWarningProps {
+    licensePlate: string;
+    result: HazmatCheckResult | null;
+    /** Further warnings queued behind this one */
+    pendingCount?: number;
+    onClose: () => void;
+    /** Called after the alert is created, e.g. to toast it */
+    onAlertRaised?: (licensePlate: string) => void;
+}
+
+/**
+ * Blocking warning for a hazmat detection that failed the compatibility checks.
+ * It stays open until the operator raises an alert or acknowledges it; key it
+ * by warning so its state starts fresh for the next one.
+ */
+export default function HazmatWarningModal({
+    licensePlate,
+    result,
+    pendingCount = 0,
+    onClose,
+    onAlertRaised,
+}: HazmatWarningProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!result) return null;
+
+    const handleRaiseAlert = async () => {
+        setIsSubmitting(true);
+        setError(null);
+        const summary = result.issues.map((issue) => issue.message).join('; ');
+        try {
+            if (result.appointment) {
+                await createHazmatAlert({
+                    appointment_id: result.appointment.id,
+                    un_code: result.un ?? null,
+                    kemler_code: result.kemler ?? null,
+                    detected_hazmat: summary,
+                });
+            } else {
+                // Hazmat alerts need an appointment; fall back to a safety alert
+                await createAlert({ type: 'safety', description: `Hazmat check failed for ${licensePlate}: ${summary}` });
+            }
+            onAlertRaised?.(licensePlate);
+            onClose();
+        } catch (err) {
+            console.error('[Hazmat] Failed to raise hazmat alert:', err);
+            setError(getErrorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return createPortal(
+        <div className="modal-overlay detection-details-overlay">
+            <div className="detection-details-modal hazmat-warning-modal" role="alertdialog" aria-modal="true">
+                <div className="modal-header">
+                    <div className="modal-title">
+                        <ShieldAlert size={20} />
+                        <span>Hazmat Check Failed — {licensePlate || 'Unknown plate'}</span>
+                        {pendingCount > 0 && <span className="hazmat-warning-pending">+{pendingCount} more</span>}
+                    </div>
+                </div>
+
+                <div className="modal-body">
+                    <div className="hazmat-warning-codes">
+                        {result.un && (
+                            <div className="detail-row">
+                                <span className="detail-label">UN Number</span>
+                                <span className="detail-value">
+                                    {result.un}{result.unName ? ` — ${result.unName}` : ''}
+                                </span>
+                            </div>
+                        )}
+                        {result.kemler && (
+                            <div className="detail-row">
+                                <span className="detail-label">Kemler Code</span>
+                                <span className="detail-value">
+                                    {result.kemler}{result.kemlerDescription ? ` — ${result.kemlerDescription}` : ''}
+                                </span>
+                            </div>
+                        )}
+                        {result.appointment && (
+                            <div className="detail-row">
+                                <span className="detail-label">Booking</span>
+                                <span className="detail-value">{result.appointment.booking_reference}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <ul className="hazmat-warning-issues">
+                        {result.issues.map((issue) => (
+                            <li key={issue.code}>
+                                <AlertTriangle size={16} />
+                                <span>{issue.message}</span>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {error && (
+                        <div className="error-message">
+                            <AlertTriangle size={16} />
+                            <span>{error}</span>
+                        </div>
+                    )}
+                </div>
+
+                <div className="modal-footer">
+                    <button className="btn-secondary" onClick={onClose} disabled={isSubmitting}>
+                        Acknowledge
+                    </button>
+                    <button className="btn-primary hazmat-alert-btn" onClick={handleRaiseAlert} disabled={isSubmitting}>
+                        {isSubmitting ? <Loader2 size={16} className="spin" /> : <ShieldAlert size={16} />}
+                        Raise Hazmat Alert
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+}
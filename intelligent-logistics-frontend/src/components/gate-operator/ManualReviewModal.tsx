@@ -1,10 +1,37 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { X, AlertTriangle, CheckCircle, XCircle, Loader2, Search, Truck, Clock } from 'lucide-react';
-import { getArrivals } from '@/services/arrivals';
-import { submitManualReview } from '@/services/decisions';
+import { X, AlertTriangle, CheckCircle, XCircle, Loader2, Search, Truck, Clock, Camera, ClipboardList } from 'lucide-react';
+import { queryArrivalsByLicensePlate } from '@/services/arrivals';
+import { queryAppointments, submitManualReview, uploadReviewEvidence } from '@/services/decisions';
+import { createAlert, createHazmatAlert } from '@/services/alerts';
 import type { Appointment } from '@/types/types';
 import type { DecisionUpdatePayload } from '@/lib/websocket';
+import { parseHazmatCode, toEpochMs } from '@/lib/payloadSchema';
+import { normalizePlate, rankCandidates } from '@/lib/candidateMatching';
+import { getCurrentClaimer } from '@/lib/reviewQueue';
+import { captureFrame, hasVideoSource, type CapturedFrame } from '@/lib/frameCapture';
+import { getGateKey } from '@/lib/streamRegistry';
+import config from '@/config/appConfig';
+import { getReviewReasons, type ReviewReason } from '@/config/reviewReasons';
+import EvidenceAnnotator, { type EvidenceCapture } from './EvidenceAnnotator';
+
+// Minutes either side of now the Decision Engine searches for appointments
+const CANDIDATE_TIME_FRAME_MINUTES = 120;
+
+function isAppointment(value: unknown): value is Appointment {
+    return !!value && typeof value === 'object'
+        && typeof (value as Appointment).id === 'number'
+        && typeof (value as Appointment).truck_license_plate === 'string';
+}
+
+// Merge candidate lists, keeping the first copy of each appointment
+function mergeCandidates(...lists: Appointment[][]): Appointment[] {
+    const byId = new Map<number, Appointment>();
+    lists.flat().forEach(apt => {
+        if (!byId.has(apt.id)) byId.set(apt.id, apt);
+    });
+    return [...byId.values()];
+}
 
 // Props passed from Dashboard
 export interface ManualReviewData {
@@ -16,16 +43,26 @@ export interface ManualReviewData {
     kemler?: string;
     timestamp: string;
     truckId?: string;
+    /** Gate the truck was detected at, used to rank candidates */
+    gateId?: number;
     /** Full original WS payload — used to forward all fields on submission */
     originalPayload?: DecisionUpdatePayload;
 }
 
+// What was submitted along with the decision
+export interface DecisionOutcome {
+    reasonCode: string;
+    evidenceCount: number;
+    /** Set when the decision went through but the linked alert could not be created */
+    alertError?: string;
+}
+
 interface ManualReviewModalProps {
     isOpen: boolean;
     reviewData: ManualReviewData | null;
     onClose: () => void;
     onHold: (data: ManualReviewData) => void;
-    onDecisionComplete: (licensePlate: string, decision: 'accepted' | 'rejected') => void;
+    onDecisionComplete: (licensePlate: string, decision: 'accepted' | 'rejected', outcome?: DecisionOutcome) => void;
 }
 
 export default function ManualReviewModal({
@@ -35,13 +72,17 @@ export default function ManualReviewModal({
     onHold,
     onDecisionComplete,
 }: ManualReviewModalProps) {
-    const [candidates, setCandidates] = useState<Appointment[]>([]);
-    const [allCandidates, setAllCandidates] = useState<Appointment[]>([]);
+    const [candidatePool, setCandidatePool] = useState<Appointment[]>([]);
     const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [searchPlate, setSearchPlate] = useState('');
+    const [reason, setReason] = useState<ReviewReason | null>(null);
+    const [reasonNote, setReasonNote] = useState('');
+    const [evidence, setEvidence] = useState<EvidenceCapture[]>([]);
+    const [pendingFrame, setPendingFrame] = useState<CapturedFrame | null>(null);
+    const [createLinkedAlert, setCreateLinkedAlert] = useState(false);
 
     // Load candidates when modal opens or reviewData changes
     useEffect(() => {
@@ -49,14 +90,18 @@ export default function ManualReviewModal({
             // Reset state for new review
             setSelectedAppointment(null);
             setError(null);
+            setReason(null);
+            setReasonNote('');
+            setEvidence([]);
+            setPendingFrame(null);
+            setCreateLinkedAlert(false);
 
             const plate = reviewData.licensePlate || '';
             setSearchPlate(plate);
-            fetchAllCandidates();
+            fetchCandidates(plate);
         } else if (!isOpen) {
             // Reset state when closed
-            setCandidates([]);
-            setAllCandidates([]);
+            setCandidatePool([]);
             setSelectedAppointment(null);
             setError(null);
             setSearchPlate('');
@@ -64,39 +109,43 @@ export default function ManualReviewModal({
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [isOpen, reviewData?.id]);
 
-    // Filter candidates when search changes (client-side, like ArrivalsList)
-    useEffect(() => {
-        if (allCandidates.length > 0) {
-            if (searchPlate.trim()) {
-                const filtered = allCandidates.filter(apt =>
-                    apt.truck_license_plate.toLowerCase().includes(searchPlate.toLowerCase())
-                );
-                setCandidates(filtered);
-            } else {
-                setCandidates(allCandidates);
-            }
-        }
-    }, [searchPlate, allCandidates]);
+    // Rank against the typed plate, falling back to the detected one
+    const candidates = useMemo(() => {
+        if (!reviewData) return [];
+        return rankCandidates(candidatePool, {
+            licensePlate: searchPlate.trim() || reviewData.licensePlate,
+            detectedAt: toEpochMs(reviewData.timestamp) ?? Date.now(),
+            gateId: reviewData.gateId,
+            un: parseHazmatCode(reviewData.UN)?.code,
+            kemler: parseHazmatCode(reviewData.kemler)?.code,
+        });
+    }, [candidatePool, searchPlate, reviewData]);
 
-    const fetchAllCandidates = async () => {
+    const fetchCandidates = async (plate: string) => {
         setIsLoading(true);
         setError(null);
+        const normalized = normalizePlate(plate);
         try {
-            // Fetch all in_transit arrivals (like ArrivalsList does)
-            const results = await getArrivals({ status: 'in_transit', limit: 100 });
-            const appointments = results.items || [];
-            setAllCandidates(appointments);
-
-            // Apply initial filter if there's a detected plate
-            const plate = reviewData?.licensePlate || '';
-            if (plate && plate !== 'N/A') {
-                const filtered = appointments.filter(apt =>
-                    apt.truck_license_plate.toLowerCase().includes(plate.toLowerCase())
-                );
-                setCandidates(filtered.length > 0 ? filtered : appointments);
-            } else {
-                setCandidates(appointments);
+            // Appointments due around now at this gate catch OCR misreads;
+            // the plate lookup catches trucks scheduled elsewhere or far off schedule
+            const [windowResult, plateResult] = await Promise.allSettled([
+                queryAppointments({
+                    gate_id: reviewData?.gateId ?? 1,
+                    time_frame: CANDIDATE_TIME_FRAME_MINUTES,
+                }),
+                normalized && normalized !== 'NA'
+                    ? queryArrivalsByLicensePlate(plate)
+                    : Promise.resolve([] as Appointment[]),
+            ]);
+
+            if (windowResult.status === 'rejected' && plateResult.status === 'rejected') {
+                throw windowResult.reason;
             }
+            const inWindow = windowResult.status === 'fulfilled'
+                ? windowResult.value.candidates.filter(isAppointment)
+                : [];
+            const byPlate = plateResult.status === 'fulfilled' ? plateResult.value : [];
+            setCandidatePool(mergeCandidates(byPlate, inWindow));
         } catch (err) {
             console.error('Failed to fetch candidates:', err);
             setError('Failed to load appointments. Try again.');
@@ -105,53 +154,106 @@ export default function ManualReviewModal({
         }
     };
 
-    const handleSearch = () => {
-        // Client-side filtering is now done automatically via useEffect
-        // This function just triggers the filter by making sure searchPlate is set
-        // The actual filtering happens in the useEffect above
+    const handleSearch = async () => {
+        // Ranking follows the typed plate already; also look it up server-side
+        const plate = searchPlate.trim();
+        if (!normalizePlate(plate)) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const results = await queryArrivalsByLicensePlate(plate);
+            setCandidatePool(prev => mergeCandidates(results, prev));
+        } catch (err) {
+            console.error('Failed to search candidates:', err);
+            setError('Search failed. Try again.');
+        } finally {
+            setIsLoading(false);
+        }
     };
 
-    const handleApprove = async () => {
-        setIsSubmitting(true);
+    const selectReason = (next: ReviewReason) => {
+        setReason(next);
+        // Suggest a linked alert for reasons that usually warrant one
+        setCreateLinkedAlert(!!next.suggestAlert);
+    };
+
+    const handleCapture = () => {
+        const frame = captureFrame(reviewData?.gateId !== undefined ? getGateKey(reviewData.gateId) : undefined);
+        if (!frame) {
+            setError('Could not capture a frame. Is the camera feed playing?');
+            return;
+        }
         setError(null);
-        try {
-            const lp = (selectedAppointment?.truck_license_plate || reviewData?.licensePlate || '').toUpperCase();
-            const orig = reviewData?.originalPayload;
+        setPendingFrame(frame);
+    };
 
-            await submitManualReview({
-                // Preserve every field from the original agent-decision payload
-                license_plate: lp,
-                license_crop_url: orig?.license_crop_url || reviewData?.lpCropUrl || '',
-                un: orig?.un || reviewData?.UN || '',
-                kemler: orig?.kemler || reviewData?.kemler || '',
-                hazard_crop_url: orig?.hazard_crop_url || reviewData?.hzCropUrl || '',
-                alerts: orig?.alerts,
-                route: orig?.route || '',
-                truck_id: reviewData?.truckId,
-                // Override only the decision fields
-                decision: 'ACCEPTED',
-                decision_reason: `OPERATOR_ACCEPTED_FOR_APPOINTMENT_${selectedAppointment.id}`,
-                decision_source: 'operator',
+    // Upload annotated captures, returning their URLs in attachment order
+    const uploadEvidence = async (licensePlate: string): Promise<string[]> => {
+        return Promise.all(evidence.map(async (item) => {
+            const blob = await (await fetch(item.dataUrl)).blob();
+            const { url } = await uploadReviewEvidence(blob, {
+                license_plate: licensePlate,
+                caption: item.caption,
+                captured_at: new Date(item.capturedAt).toISOString(),
             });
-            onDecisionComplete(lp, 'accepted');
-            onClose();
-        } catch (err) {
-            console.error('Failed to approve:', err);
-            setError('Failed to submit decision. Try again.');
-        } finally {
-            setIsSubmitting(false);
+            return url;
+        }));
+    };
+
+    const createAlertFor = async (decision: 'accepted' | 'rejected', licensePlate: string, evidenceUrls: string[]) => {
+        if (!reason) return;
+        const un = parseHazmatCode(reviewData?.UN)?.code;
+        const kemler = parseHazmatCode(reviewData?.kemler)?.code;
+
+        if (reason.suggestAlert === 'hazmat' && selectedAppointment) {
+            await createHazmatAlert({
+                appointment_id: selectedAppointment.id,
+                un_code: un || null,
+                kemler_code: kemler || null,
+                detected_hazmat: [reason.label, reasonNote.trim()].filter(Boolean).join(' - '),
+            });
+            return;
         }
+        await createAlert({
+            // Hazmat reasons without an appointment still deserve a safety alert
+            type: reason.suggestAlert && reason.suggestAlert !== 'hazmat' ? reason.suggestAlert : 'safety',
+            description: `${licensePlate} ${decision} at manual review: ${reason.label}${reasonNote.trim() ? ` - ${reasonNote.trim()}` : ''}`,
+            image_url: evidenceUrls[0] || reviewData?.lpCropUrl || null,
+        });
     };
 
-    const handleReject = async () => {
+    const submitDecision = async (decision: 'accepted' | 'rejected') => {
+        if (!reason || reason.decision !== decision) {
+            setError(`Select a reason to ${decision === 'accepted' ? 'approve' : 'reject'}.`);
+            return;
+        }
+        if (reason.requiresNote && !reasonNote.trim()) {
+            setError('Add a note explaining the reason.');
+            return;
+        }
+
         setIsSubmitting(true);
         setError(null);
+        const lp = (selectedAppointment?.truck_license_plate || reviewData?.licensePlate || '').toUpperCase();
+        const orig = reviewData?.originalPayload;
+
+        let evidenceUrls: string[];
         try {
-            const lp = selectedAppointment?.truck_license_plate || reviewData?.licensePlate || '';
-            const reason = selectedAppointment
-                ? `OPERATOR_REJECTED_FOR_APPOINTMENT_${selectedAppointment.id}`
-                : 'OPERATOR_REJECTED';
-            const orig = reviewData?.originalPayload;
+            evidenceUrls = await uploadEvidence(lp);
+        } catch (err) {
+            console.error('Failed to upload evidence:', err);
+            setError('Failed to upload evidence. Remove it or try again.');
+            setIsSubmitting(false);
+            return;
+        }
+
+        try {
+            const operator = getCurrentClaimer();
+            const decisionReason = decision === 'accepted'
+                ? `OPERATOR_ACCEPTED_FOR_APPOINTMENT_${selectedAppointment?.id}`
+                : selectedAppointment
+                    ? `OPERATOR_REJECTED_FOR_APPOINTMENT_${selectedAppointment.id}`
+                    : 'OPERATOR_REJECTED';
 
             await submitManualReview({
                 // Preserve every field from the original agent-decision payload
@@ -164,18 +266,36 @@ export default function ManualReviewModal({
                 route: orig?.route || '',
                 truck_id: reviewData?.truckId,
                 // Override only the decision fields
-                decision: 'REJECTED',
-                decision_reason: reason,
+                decision: decision === 'accepted' ? 'ACCEPTED' : 'REJECTED',
+                decision_reason: decisionReason,
                 decision_source: 'operator',
+                reason_code: reason.code,
+                reason_note: reasonNote.trim() || undefined,
+                evidence_urls: evidenceUrls,
+                operator_id: operator.worker_id,
+                operator_name: operator.name,
             });
-            onDecisionComplete(lp, 'rejected');
-            onClose();
         } catch (err) {
-            console.error('Failed to reject:', err);
+            console.error(`Failed to ${decision === 'accepted' ? 'approve' : 'reject'}:`, err);
             setError('Failed to submit decision. Try again.');
-        } finally {
             setIsSubmitting(false);
+            return;
+        }
+
+        // The decision stands even if the linked alert fails; report it to the caller
+        let alertError: string | undefined;
+        if (createLinkedAlert) {
+            try {
+                await createAlertFor(decision, lp, evidenceUrls);
+            } catch (err) {
+                console.error('Failed to create linked alert:', err);
+                alertError = 'Linked alert could not be created';
+            }
         }
+
+        setIsSubmitting(false);
+        onDecisionComplete(lp, decision, { reasonCode: reason.code, evidenceCount: evidenceUrls.length, alertError });
+        onClose();
     };
 
     if (!isOpen || !reviewData) return null;
@@ -255,14 +375,18 @@ export default function ManualReviewModal({
                             </div>
                         ) : (
                             <div className="candidates-list custom-scrollbar">
-                                {candidates.map((apt) => (
+                                {candidates.map(({ appointment: apt, score, reasons }, index) => (
                                     <div
                                         key={apt.id}
                                         className={`candidate-item ${selectedAppointment?.id === apt.id ? 'selected' : ''}`}
                                         onClick={() => setSelectedAppointment(apt)}
                                     >
                                         <div className="candidate-main">
+                                            <span className="candidate-rank">#{index + 1}</span>
                                             <span className="candidate-plate">{apt.truck_license_plate}</span>
+                                            <span className={`candidate-score ${score >= 70 ? 'score-high' : score >= 40 ? 'score-medium' : 'score-low'}`}>
+                                                {score}
+                                            </span>
                                             <span className={`status-badge status-${apt.status.replace('_', '-')}`}>
                                                 {apt.status === 'in_transit' ? 'In Transit' : apt.status}
                                             </span>
@@ -275,6 +399,19 @@ export default function ManualReviewModal({
                                                     : '--:--'}
                                             </span>
                                         </div>
+                                        <ul className="candidate-reasons">
+                                            {reasons.map((reason) => (
+                                                <li
+                                                    key={reason.label}
+                                                    className={reason.points > 0 ? 'reason-positive' : reason.points < 0 ? 'reason-negative' : 'reason-neutral'}
+                                                >
+                                                    <span>{reason.label}</span>
+                                                    <span className="reason-points">
+                                                        {reason.points > 0 ? `+${reason.points}` : reason.points}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
                                     </div>
                                 ))}
                             </div>
@@ -283,6 +420,99 @@ export default function ManualReviewModal({
 
 
 
+                    {/* Reason Section */}
+                    <div className="reason-section">
+                        <h4 className="section-subtitle">
+                            <ClipboardList size={16} />
+                            Decision Reason
+                        </h4>
+                        {(['accepted', 'rejected'] as const).map((group) => (
+                            <div key={group} className={`reason-group reason-group-${group}`}>
+                                <span className="field-label">{group === 'accepted' ? 'Approve' : 'Reject'}</span>
+                                <div className="reason-chips">
+                                    {getReviewReasons(group).map((option) => (
+                                        <button
+                                            key={option.code}
+                                            type="button"
+                                            className={`reason-chip ${reason?.code === option.code ? 'selected' : ''}`}
+                                            onClick={() => selectReason(option)}
+                                            disabled={isSubmitting}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <textarea
+                            className="notes-input"
+                            placeholder={reason?.requiresNote ? 'Note (required)' : 'Note (optional)'}
+                            value={reasonNote}
+                            onChange={(e) => setReasonNote(e.target.value)}
+                            rows={2}
+                        />
+                        {reason && (
+                            <label className="linked-alert-toggle">
+                                <input
+                                    type="checkbox"
+                                    checked={createLinkedAlert}
+                                    onChange={(e) => setCreateLinkedAlert(e.target.checked)}
+                                />
+                                {reason.suggestAlert === 'hazmat' && selectedAppointment
+                                    ? 'Also create a hazmat alert for this appointment'
+                                    : 'Also create a linked alert'}
+                            </label>
+                        )}
+                    </div>
+
+                    {/* Evidence Section (needs the backend to store uploads) */}
+                    {config.reviewAuditApi && (
+                        <div className="evidence-section">
+                            <div className="evidence-header">
+                                <h4 className="section-subtitle">
+                                    <Camera size={16} />
+                                    Evidence ({evidence.length})
+                                </h4>
+                                <button
+                                    type="button"
+                                    className="btn-secondary"
+                                    onClick={handleCapture}
+                                    disabled={isSubmitting || !!pendingFrame || !hasVideoSource()}
+                                    title={hasVideoSource() ? 'Capture the current camera frame' : 'No live camera feed open'}
+                                >
+                                    <Camera size={14} /> Capture Frame
+                                </button>
+                            </div>
+                            {pendingFrame && (
+                                <EvidenceAnnotator
+                                    frame={pendingFrame}
+                                    onAttach={(item) => {
+                                        setEvidence(prev => [...prev, item]);
+                                        setPendingFrame(null);
+                                    }}
+                                    onDiscard={() => setPendingFrame(null)}
+                                />
+                            )}
+                            {evidence.length > 0 && (
+                                <div className="evidence-thumbs">
+                                    {evidence.map((item) => (
+                                        <div key={item.id} className="evidence-thumb" title={item.caption || 'Frame capture'}>
+                                            <img src={item.dataUrl} alt={item.caption || 'Frame capture'} />
+                                            <button
+                                                type="button"
+                                                className="evidence-remove"
+                                                onClick={() => setEvidence(prev => prev.filter(e => e.id !== item.id))}
+                                                disabled={isSubmitting}
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {error && (
                         <div className="error-message">
                             <AlertTriangle size={16} />
@@ -295,8 +525,8 @@ export default function ManualReviewModal({
                 <div className="modal-footer">
                     <button
                         className="btn-reject"
-                        onClick={handleReject}
-                        disabled={isSubmitting}
+                        onClick={() => submitDecision('rejected')}
+                        disabled={isSubmitting || reason?.decision !== 'rejected'}
                     >
                         {isSubmitting ? <Loader2 size={16} className="spin" /> : <XCircle size={16} />}
                         Reject
@@ -315,8 +545,8 @@ export default function ManualReviewModal({
                     </button>
                     <button
                         className="btn-approve"
-                        onClick={handleApprove}
-                        disabled={!selectedAppointment || isSubmitting}
+                        onClick={() => submitDecision('accepted')}
+                        disabled={!selectedAppointment || isSubmitting || reason?.decision !== 'accepted'}
                     >
                         {isSubmitting ? <Loader2 size={16} className="spin" /> : <CheckCircle size={16} />}
                         Approve
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import {
+  GATE_CAPACITY_PER_BUCKET,
+  loadQueueForecast,
+  type QueueForecast as Forecast,
+} from "@/lib/queueForecast";
+
+type QueueForecastProps = {
+  gateId: number;
+};
+
+const REFRESH_MS = 60000;
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+}
+
+// Expected trucks per 15-minute bucket for the next two hours, with the
+// bottleneck buckets highlighted and each truck's predicted arrival band.
+export default function QueueForecast({ gateId }: QueueForecastProps) {
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      loadQueueForecast(gateId)
+        .then((result) => {
+          if (cancelled) return;
+          setForecast(result);
+          setError(null);
+        })
+        .catch((err) => {
+          console.error("[Forecast] Failed to load queue forecast:", err);
+          if (!cancelled) setError("Failed to load forecast.");
+        });
+    };
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [gateId]);
+
+  if (error && !forecast) {
+    return (
+      <div className="error-message">
+        <AlertTriangle size={16} />
+        <span>{error}</span>
+      </div>
+    );
+  }
+
+  if (!forecast) {
+    return (
+      <div className="loading-state">
+        <Loader2 size={24} className="spin" />
+        <span>Building forecast...</span>
+      </div>
+    );
+  }
+
+  const peak = Math.max(GATE_CAPACITY_PER_BUCKET, ...forecast.buckets.map((b) => Math.max(b.trucks, b.expected)));
+  const bottlenecks = forecast.buckets.filter((b) => b.bottleneck);
+
+  return (
+    <div className="queue-forecast">
+      {bottlenecks.length > 0 ? (
+        <div className="forecast-warning">
+          <AlertTriangle size={14} />
+          <span>
+            Wave expected at {bottlenecks.map((b) => formatTime(b.start)).join(", ")} — more than{" "}
+            {GATE_CAPACITY_PER_BUCKET} trucks per 15 min
+          </span>
+        </div>
+      ) : (
+        <div className="forecast-hint">No bottlenecks expected in the next 2 hours</div>
+      )}
+
+      <div className="forecast-chart">
+        {forecast.buckets.map((bucket) => (
+          <div
+            key={bucket.start}
+            className={`forecast-bucket ${bucket.bottleneck ? "bottleneck" : ""}`}
+            title={`${formatTime(bucket.start)}–${formatTime(bucket.end)}: ${bucket.trucks} trucks (≈${bucket.expected} expected), ${bucket.onSite} on site`}
+          >
+            <span className="forecast-count">{bucket.trucks}</span>
+            <div className="forecast-bar-track">
+              <div className="forecast-bar-expected" style={{ height: `${(bucket.expected / peak) * 100}%` }} />
+              <div className="forecast-bar" style={{ height: `${(bucket.trucks / peak) * 100}%` }} />
+            </div>
+            <span className="forecast-label">{formatTime(bucket.start)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="forecast-trucks custom-scrollbar">
+        {forecast.trucks.length === 0 ? (
+          <div className="empty-state">
+            <span>No trucks expected in the next 2 hours.</span>
+          </div>
+        ) : (
+          forecast.trucks.map((truck) => (
+            <Link key={truck.appointmentId} to={`/gate/arrival/${truck.appointmentId}`} className="forecast-truck">
+              <div className="forecast-truck-main">
+                <span className="plate-id">{truck.plate}</span>
+                <span className="forecast-eta">{formatTime(truck.expectedAt)}</span>
+              </div>
+              <div className="forecast-truck-meta">
+                <span>{truck.company}</span>
+                <span>
+                  {formatTime(truck.earliestAt)}–{formatTime(truck.latestAt)}
+                </span>
+              </div>
+              <div className="forecast-truck-meta">
+                <span>Scheduled {formatTime(truck.scheduledAt)}</span>
+                <span className={`forecast-confidence ${truck.confidence}`}>
+                  {truck.delayed ? "Delayed · " : ""}
+                  {truck.confidence} confidence
+                </span>
+              </div>
+            </Link>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Clock, AlertTriangle, CheckCircle, Truck, LogOut } from 'lucide-react';
+import { X, Clock, AlertTriangle, CheckCircle, Truck, LogOut, ShieldAlert } from 'lucide-react';
 import { getArrivals, getArrivalsStats } from '@/services/arrivals';
+import type { ReviewQueueEntry } from '@/services/reviewQueue';
+import { formatWaitTime, getSlaLevel, getWaitMs, releaseMyClaims, subscribeReviewQueue } from '@/lib/reviewQueue';
 import type { Appointment } from '@/types/types';
 
 interface ShiftHandoverModalProps {
@@ -33,6 +35,10 @@ export default function ShiftHandoverModal({
     const [pendingArrivals, setPendingArrivals] = useState<Appointment[]>([]);
     const [stats, setStats] = useState<Record<string, number>>({});
     const [isLoading, setIsLoading] = useState(true);
+    const [pendingReviews, setPendingReviews] = useState<ReviewQueueEntry[]>([]);
+
+    const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+    const gateId = Number(userInfo.gate_id || 1);
 
     useEffect(() => {
         if (isOpen) {
@@ -40,6 +46,22 @@ export default function ShiftHandoverModal({
         }
     }, [isOpen]);
 
+    // Open manual reviews carry over to the next shift
+    useEffect(() => {
+        if (!isOpen) return;
+        return subscribeReviewQueue((entries) => {
+            setPendingReviews(entries
+                .filter(entry => entry.gate_id === gateId && entry.status !== 'resolved')
+                .sort((a, b) => Date.parse(a.detected_at) - Date.parse(b.detected_at)));
+        });
+    }, [isOpen, gateId]);
+
+    const handleConfirm = async () => {
+        // Hand claimed trucks back to the queue so the next operator can pick them up
+        await releaseMyClaims();
+        onConfirmLogout();
+    };
+
     const fetchData = async () => {
         setIsLoading(true);
         try {
@@ -144,6 +166,42 @@ export default function ShiftHandoverModal({
                         )}
                     </div>
 
+                    {/* Pending Manual Reviews */}
+                    <div className="pending-section">
+                        <h4 className="section-title">
+                            <ShieldAlert size={16} />
+                            Pending Manual Reviews ({pendingReviews.length})
+                        </h4>
+
+                        {pendingReviews.length === 0 ? (
+                            <div className="empty-state">
+                                <CheckCircle size={24} />
+                                <span>No trucks waiting for review.</span>
+                            </div>
+                        ) : (
+                            <div className="pending-list">
+                                {pendingReviews.map((entry) => (
+                                    <div key={entry.id} className={`pending-item sla-${getSlaLevel(entry)}`}>
+                                        <div className="pending-plate">{entry.license_plate || 'N/A'}</div>
+                                        <div className="pending-info">
+                                            <span className="status-badge status-delayed">
+                                                {entry.claimed_by_name ? `Claimed by ${entry.claimed_by_name}` : 'Unclaimed'}
+                                            </span>
+                                            <span className="pending-time">Waiting {formatWaitTime(getWaitMs(entry))}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {pendingReviews.length > 0 && (
+                        <div className="handover-notice">
+                            <AlertTriangle size={16} />
+                            <span>These reviews stay in the queue; your claims are released on log out.</span>
+                        </div>
+                    )}
+
                     {pendingArrivals.length > 0 && (
                         <div className="handover-notice">
                             <AlertTriangle size={16} />
@@ -156,7 +214,7 @@ export default function ShiftHandoverModal({
                     <button className="btn-secondary" onClick={onClose}>
                         Cancel
                     </button>
-                    <button className="btn-primary btn-logout" onClick={onConfirmLogout}>
+                    <button className="btn-primary btn-logout" onClick={handleConfirm}>
                         <LogOut size={16} />
                         Confirm & Log Out
                     </button>
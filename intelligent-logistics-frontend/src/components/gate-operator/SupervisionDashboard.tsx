@@ -0,0 +1,545 @@
+import { Link, useNavigate } from "react-router-dom";
+import { useState, useEffect, useMemo, useRef } from "react";
+import HLSPlayer from "./HLSPlayer";
+import ManualReviewModal, { type DecisionOutcome, type ManualReviewData } from "./ManualReviewModal";
+import DetectionDetailsModal from "./DetectionDetailsModal";
+import { AlertTriangle, ShieldAlert, Loader2, Wifi, WifiOff, Clock, Lock, Monitor } from "lucide-react";
+import { getUpcomingArrivals } from "@/services/arrivals";
+import { getGateKey, getGateLabel, resolveStreamUrl } from "@/lib/streamRegistry";
+import { useStreamRegistry } from "@/hooks/useStreamRegistry";
+import type { ConnectionState } from "@/lib/websocket";
+import { getGateWebSocket, releaseGateWebSocket } from "@/lib/sharedWebSocket";
+import { getRecordDecision, queryDetections, subscribeDetections, type DetectionRecord } from "@/lib/eventStore";
+import { getShiftStart } from "@/lib/shifts";
+import { formatHazmatCode, validateDecisionPayload, type NormalizedDecision } from "@/lib/payloadSchema";
+import {
+  claimEntry,
+  formatWaitTime,
+  getSlaLevel,
+  getWaitMs,
+  hasActiveClaim,
+  isClaimedByMe,
+  releaseEntry,
+  resolveEntry,
+  reviewIdFor,
+  startReviewQueueSync,
+  subscribeReviewQueue,
+} from "@/lib/reviewQueue";
+import type { ReviewQueueEntry } from "@/services/reviewQueue";
+import { ToastNotifications, useToasts } from "@/components/common/ToastNotifications";
+import type { Appointment } from "@/types/types";
+
+// LIVE indicator label per connection state
+const CONNECTION_LABELS: Record<ConnectionState, string> = {
+  connecting: "Connecting",
+  open: "Live",
+  stale: "Stale",
+  offline: "Offline",
+};
+
+// localStorage key for the gates a supervisor last chose to follow
+const SELECTED_GATES_KEY = "supervision_gates";
+// Detection cards kept per gate column
+const MAX_GATE_DETECTIONS = 50;
+// Upcoming arrivals listed per gate column
+const UPCOMING_ARRIVALS_LIMIT = 5;
+const ARRIVALS_REFRESH_MS = 30000;
+
+// A stored record together with its validated payload
+interface GateDetection {
+  record: DetectionRecord;
+  decision: NormalizedDecision;
+}
+
+function toGateDetection(record: DetectionRecord): GateDetection | null {
+  const decision = getRecordDecision(record);
+  return decision ? { record, decision } : null;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" });
+}
+
+function toReviewData(entry: ReviewQueueEntry, decision: NormalizedDecision): ManualReviewData {
+  return {
+    id: entry.id,
+    gateId: entry.gate_id,
+    licensePlate: decision.licensePlate,
+    lpCropUrl: decision.licenseCropUrl,
+    hzCropUrl: decision.hazardCropUrl,
+    UN: formatHazmatCode(decision.un),
+    kemler: formatHazmatCode(decision.kemler),
+    timestamp: decision.timestamp,
+    truckId: decision.truckId,
+    originalPayload: decision.raw,
+  };
+}
+
+function toDetailsData({ record, decision }: GateDetection) {
+  return {
+    id: record.id,
+    decision: decision.decision,
+    licensePlate: decision.licensePlate,
+    kemler: decision.kemler?.code,
+    kemlerDescription: decision.kemler?.description,
+    UN: decision.un?.code,
+    unDescription: decision.un?.description,
+    time: formatTime(decision.timestampMs),
+    truckId: decision.truckId,
+    imageUrl: decision.licenseCropUrl || decision.hazardCropUrl,
+    lpCropUrl: decision.licenseCropUrl,
+    hzCropUrl: decision.hazardCropUrl,
+  };
+}
+
+function loadSelectedGates(available: number[], primaryGate: number): number[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SELECTED_GATES_KEY) || "null");
+    if (Array.isArray(saved)) {
+      const gates = saved.map(Number).filter((id) => available.includes(id));
+      if (gates.length > 0) return gates;
+    }
+  } catch {
+    // Fall through to the default selection
+  }
+  return available.length > 0 ? available : [primaryGate];
+}
+
+interface GateColumnProps {
+  gateId: number;
+  detections: GateDetection[];
+  onOpen: (item: GateDetection) => void;
+}
+
+// One supervised gate: low-quality feed, live detections and upcoming arrivals
+function GateColumn({ gateId, detections, onOpen }: GateColumnProps) {
+  const [connectionState, setConnectionState] = useState<ConnectionState>("connecting");
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+  const [arrivals, setArrivals] = useState<Appointment[]>([]);
+  const [arrivalsError, setArrivalsError] = useState<string | null>(null);
+  const latestDecisionId = detections.find((item) => item.decision.decision !== "MANUAL_REVIEW")?.record.id;
+
+  useEffect(() => getGateWebSocket(gateId).onStateChange(setConnectionState), [gateId]);
+
+  // Several feeds play at once, so supervision always uses the low-quality variant
+  useEffect(() => {
+    let cancelled = false;
+    resolveStreamUrl(gateId, "low")
+      .then((url) => {
+        if (!cancelled) setStreamUrl(url);
+      })
+      .catch((err) => {
+        console.error(`[Supervision] Failed to fetch stream URL for gate ${gateId}:`, err);
+        if (!cancelled) setStreamUrl(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gateId]);
+
+  // Refresh the queue periodically and whenever a truck is accepted or rejected here
+  useEffect(() => {
+    let cancelled = false;
+    const loadArrivals = async () => {
+      try {
+        const items = await getUpcomingArrivals(gateId, UPCOMING_ARRIVALS_LIMIT);
+        if (cancelled) return;
+        setArrivals(items);
+        setArrivalsError(null);
+      } catch (err) {
+        console.error(`[Supervision] Failed to fetch arrivals for gate ${gateId}:`, err);
+        if (!cancelled) setArrivalsError("Failed to load arrivals.");
+      }
+    };
+    loadArrivals();
+    const timer = setInterval(loadArrivals, ARRIVALS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [gateId, latestDecisionId]);
+
+  return (
+    <div className="supervision-gate">
+      <div className="supervision-gate-header">
+        <h3 className="section-title">{getGateLabel(gateId)}</h3>
+        <span className={`ws-badge ws-${connectionState}`}>
+          {connectionState === "open" ? <Wifi size={14} /> : <WifiOff size={14} />}
+          {CONNECTION_LABELS[connectionState]}
+        </span>
+      </div>
+
+      <div className="supervision-video">
+        {streamUrl ? (
+          <HLSPlayer streamUrl={streamUrl} quality="low" autoPlay={true} captureKey={getGateKey(gateId)} />
+        ) : (
+          <div className="video-loading">
+            <Loader2 size={24} className="spin" />
+            <span>Loading stream...</span>
+          </div>
+        )}
+      </div>
+
+      <div className="detections-list custom-scrollbar">
+        {detections.length === 0 ? (
+          <div className="empty-state">
+            <span>No detections this shift.</span>
+          </div>
+        ) : (
+          detections.map((item) => {
+            const decision = item.decision.decision;
+            const decisionClass = decision.toLowerCase().replace("_", "-");
+            return (
+              <div
+                key={item.record.id}
+                className={`detection-card decision-${decisionClass}`}
+                onClick={() => onOpen(item)}
+                style={{ cursor: "pointer" }}
+              >
+                <div className="detection-header">
+                  <span className={`decision-badge decision-${decisionClass}`}>{decision}</span>
+                  {item.record.recovered && (
+                    <span className="source-badge source-recovered" title="Missed while offline, recovered from history">
+                      Recovered
+                    </span>
+                  )}
+                  <span className="detection-time">{formatTime(item.decision.timestampMs)}</span>
+                </div>
+                <div className="detection-fields">
+                  <div className="detection-field">
+                    <span className="field-label">LICENSE</span>
+                    <span className="field-value">{item.decision.licensePlate || "N/A"}</span>
+                  </div>
+                  {item.decision.un && (
+                    <div className="detection-field">
+                      <span className="field-label">UN</span>
+                      <span className="field-value">{item.decision.un.code}</span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="supervision-arrivals">
+        <h4 className="section-subtitle">Upcoming Arrivals</h4>
+        {arrivalsError ? (
+          <div className="error-message">
+            <AlertTriangle size={16} />
+            <span>{arrivalsError}</span>
+          </div>
+        ) : arrivals.length === 0 ? (
+          <div className="empty-state">
+            <span>No scheduled arrivals.</span>
+          </div>
+        ) : (
+          arrivals.map((arrival) => (
+            <Link key={arrival.id} to={`/gate/arrival/${arrival.id}`} className="supervision-arrival-row">
+              <span className="plate-id">{arrival.truck_license_plate}</span>
+              <span className="arrival-time">
+                {arrival.scheduled_start_time ? formatTime(Date.parse(arrival.scheduled_start_time)) : "--:--"}
+              </span>
+            </Link>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SupervisionDashboard() {
+  const navigate = useNavigate();
+  const userInfo = JSON.parse(localStorage.getItem("user_info") || "{}");
+  const primaryGate = Number(userInfo.gate_id || 1);
+  const registry = useStreamRegistry();
+  const availableGates = useMemo(() => registry.gates.map((gate) => gate.id), [registry]);
+
+  // Null until the operator toggles a gate; until then the saved selection is
+  // resolved against the registry, so gates that load later are picked up
+  const [chosenGates, setChosenGates] = useState<number[] | null>(null);
+  const selectedGates = useMemo(
+    () => chosenGates ?? loadSelectedGates(availableGates, primaryGate),
+    [chosenGates, availableGates, primaryGate]
+  );
+  const [detectionsByGate, setDetectionsByGate] = useState<Record<number, GateDetection[]>>({});
+  const [queueEntries, setQueueEntries] = useState<ReviewQueueEntry[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [manualReviewData, setManualReviewData] = useState<ManualReviewData | null>(null);
+  const [selectedDetection, setSelectedDetection] = useState<GateDetection | null>(null);
+  const { toasts, addToast, dismissToast } = useToasts();
+  // Set by Hold so closing the modal keeps the claim
+  const keepClaimRef = useRef(false);
+  const gatesKey = selectedGates.join(",");
+
+  // Keep one pooled socket per supervised gate; the operator's own gate stays connected for the header
+  const connectedGatesRef = useRef<Set<number>>(new Set());
+  useEffect(() => {
+    const connected = connectedGatesRef.current;
+    selectedGates.forEach((gateId) => {
+      getGateWebSocket(gateId).connect();
+      connected.add(gateId);
+    });
+    connected.forEach((gateId) => {
+      if (!selectedGates.includes(gateId) && gateId !== primaryGate) {
+        releaseGateWebSocket(gateId);
+        connected.delete(gateId);
+      }
+    });
+  }, [selectedGates, primaryGate]);
+
+  useEffect(() => {
+    const connected = connectedGatesRef.current;
+    return () => {
+      connected.forEach((gateId) => {
+        if (gateId !== primaryGate) releaseGateWebSocket(gateId);
+      });
+      connected.clear();
+    };
+  }, [primaryGate]);
+
+  // Load each gate's shift history from the event store, then follow new records
+  useEffect(() => {
+    let cancelled = false;
+    const gates = gatesKey.split(",").map(Number);
+
+    const unsubscribe = subscribeDetections((change) => {
+      if (change.type === "added") {
+        const { record } = change;
+        if (!gates.includes(record.gateId)) return;
+        const item = toGateDetection(record);
+        if (!item) return;
+        setDetectionsByGate((prev) => {
+          const current = prev[record.gateId] || [];
+          if (current.some((existing) => existing.record.id === record.id)) return prev;
+          return { ...prev, [record.gateId]: [item, ...current].slice(0, MAX_GATE_DETECTIONS) };
+        });
+        if (item.decision.decision === "MANUAL_REVIEW" && !record.recovered) {
+          addToast({
+            type: "warning",
+            title: `Gate ${record.gateId}`,
+            message: `Manual review required for ${item.decision.licensePlate || "unknown plate"}`,
+          });
+        }
+      } else if (change.type === "deleted") {
+        setDetectionsByGate((prev) => {
+          const next: Record<number, GateDetection[]> = {};
+          Object.entries(prev).forEach(([gateId, items]) => {
+            next[Number(gateId)] = items.filter((item) => item.record.id !== change.id);
+          });
+          return next;
+        });
+      } else {
+        setDetectionsByGate((prev) => (change.gateId === undefined ? {} : { ...prev, [change.gateId]: [] }));
+      }
+    });
+
+    const loadHistory = async () => {
+      const from = getShiftStart().getTime();
+      const entries = await Promise.all(
+        gates.map(async (gateId) => {
+          try {
+            const records = await queryDetections({ gateId, from, limit: MAX_GATE_DETECTIONS });
+            return [gateId, records.map(toGateDetection).filter((item): item is GateDetection => item !== null)] as const;
+          } catch (e) {
+            console.warn(`[Supervision] Failed to load history for gate ${gateId}:`, e);
+            return [gateId, [] as GateDetection[]] as const;
+          }
+        })
+      );
+      if (cancelled) return;
+      setDetectionsByGate(Object.fromEntries(entries));
+    };
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [gatesKey, addToast]);
+
+  // Combined review queue across the supervised gates, synced with the server
+  useEffect(() => {
+    const gates = gatesKey.split(",").map(Number);
+    const stopSync = startReviewQueueSync(gates);
+    const unsubscribe = subscribeReviewQueue(setQueueEntries);
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      stopSync();
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [gatesKey]);
+
+  // Oldest first so nothing waits too long
+  const reviewQueue = useMemo(() => {
+    return queueEntries
+      .filter((entry) => selectedGates.includes(entry.gate_id) && entry.status !== "resolved")
+      .sort((a, b) => Date.parse(a.detected_at) - Date.parse(b.detected_at));
+  }, [queueEntries, selectedGates]);
+
+  const openReview = async (entry: ReviewQueueEntry) => {
+    const claim = await claimEntry(entry);
+    if (!claim.ok) {
+      addToast({ type: "warning", title: `Gate ${entry.gate_id}`, message: claim.reason });
+      return;
+    }
+    const result = validateDecisionPayload(claim.entry.payload);
+    if (result.ok) setManualReviewData(toReviewData(claim.entry, result.value));
+  };
+
+  const toggleGate = (gateId: number) => {
+    let next: number[];
+    if (selectedGates.includes(gateId)) {
+      // Always supervise at least one gate
+      if (selectedGates.length === 1) return;
+      next = selectedGates.filter((id) => id !== gateId);
+    } else {
+      next = [...selectedGates, gateId].sort((a, b) => a - b);
+    }
+    setChosenGates(next);
+    localStorage.setItem(SELECTED_GATES_KEY, JSON.stringify(next));
+  };
+
+  const openDetection = (item: GateDetection) => {
+    const queued = item.decision.decision === "MANUAL_REVIEW"
+      ? reviewQueue.find((entry) => entry.id === reviewIdFor(item.record.gateId, item.decision))
+      : undefined;
+    if (queued) {
+      openReview(queued);
+    } else {
+      setSelectedDetection(item);
+    }
+  };
+
+  const handleDecisionComplete = (licensePlate: string, decision: "accepted" | "rejected", outcome?: DecisionOutcome) => {
+    if (manualReviewData) {
+      resolveEntry(manualReviewData.id, decision);
+    }
+    addToast({
+      type: decision === "accepted" ? "success" : "warning",
+      title: "Manual Review",
+      message: `${licensePlate} ${decision}${outcome ? ` (${outcome.reasonCode})` : ""}`,
+    });
+    if (outcome?.alertError) {
+      addToast({ type: "danger", title: "Linked Alert", message: `${outcome.alertError} for ${licensePlate}` });
+    }
+  };
+
+  return (
+    <div className="supervision-dashboard">
+      <ManualReviewModal
+        isOpen={manualReviewData !== null}
+        reviewData={manualReviewData}
+        onClose={() => {
+          // Closing without a decision hands the truck back to the queue (unless held)
+          if (manualReviewData && !keepClaimRef.current) {
+            releaseEntry(manualReviewData.id);
+          }
+          keepClaimRef.current = false;
+          setManualReviewData(null);
+        }}
+        onHold={() => {
+          keepClaimRef.current = true;
+        }}
+        onDecisionComplete={handleDecisionComplete}
+      />
+
+      <DetectionDetailsModal
+        isOpen={selectedDetection !== null}
+        detection={selectedDetection ? toDetailsData(selectedDetection) : null}
+        onClose={() => setSelectedDetection(null)}
+      />
+
+      <ToastNotifications toasts={toasts} onDismiss={dismissToast} />
+
+      <div className="supervision-toolbar">
+        <h2 className="panel-title">Gate Supervision</h2>
+        <div className="supervision-gate-toggles">
+          {availableGates.map((gateId) => (
+            <label key={gateId} className={`arrival-filter-btn ${selectedGates.includes(gateId) ? "active" : ""}`}>
+              <input
+                type="checkbox"
+                checked={selectedGates.includes(gateId)}
+                onChange={() => toggleGate(gateId)}
+              />
+              {getGateLabel(gateId)}
+            </label>
+          ))}
+        </div>
+        <button className="view-toggle-btn" onClick={() => navigate("/gate")}>
+          <Monitor size={16} className="inline-icon" /> Single Gate
+        </button>
+      </div>
+
+      <div className="supervision-body">
+        <div className="supervision-gates" style={{ gridTemplateColumns: `repeat(${selectedGates.length}, minmax(0, 1fr))` }}>
+          {selectedGates.map((gateId) => (
+            <GateColumn
+              key={gateId}
+              gateId={gateId}
+              detections={detectionsByGate[gateId] || []}
+              onOpen={openDetection}
+            />
+          ))}
+        </div>
+
+        <div className="right-panel supervision-review-queue">
+          <h3 className="section-title">
+            <ShieldAlert size={20} className="inline-icon" /> Manual Review Queue ({reviewQueue.length})
+          </h3>
+          <div className="detections-list custom-scrollbar">
+            {reviewQueue.length === 0 ? (
+              <div className="empty-state">
+                <span>No pending reviews.</span>
+              </div>
+            ) : (
+              reviewQueue.map((entry) => {
+                const claimedByOther = hasActiveClaim(entry, now) && !isClaimedByMe(entry, now);
+                return (
+                  <div
+                    key={entry.id}
+                    className={`detection-card severity-warning held-review sla-${getSlaLevel(entry, now)}`}
+                    onClick={() => openReview(entry)}
+                    style={{ cursor: "pointer" }}
+                  >
+                    <div className="detection-header">
+                      <span className="decision-badge decision-manual-review">GATE {entry.gate_id}</span>
+                      {claimedByOther && (
+                        <span className="source-badge source-operator" title="Claimed by another operator">
+                          <Lock size={12} /> {entry.claimed_by_name}
+                        </span>
+                      )}
+                      <span className="detection-time">
+                        <Clock size={12} className="inline-icon" /> {formatWaitTime(getWaitMs(entry, now))}
+                      </span>
+                    </div>
+                    <div className="detection-fields">
+                      <div className="detection-field">
+                        <span className="field-label">LICENSE</span>
+                        <span className="field-value">{entry.license_plate || "N/A"}</span>
+                      </div>
+                      {entry.payload.kemler && (
+                        <div className="detection-field">
+                          <span className="field-label">KEMLER</span>
+                          <span className="field-value">{entry.payload.kemler}</span>
+                        </div>
+                      )}
+                      {entry.payload.un && (
+                        <div className="detection-field">
+                          <span className="field-label">UN</span>
+                          <span className="field-value">{entry.payload.un}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-import { useState, useRef, useEffect, useCallback } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTheme } from "@/contexts/ThemeContext";
 import ShiftHandoverModal from "@/components/gate-operator/ShiftHandoverModal";
+import { useNotifications } from "@/hooks/useNotifications";
+import { getGateWebSocket } from "@/lib/sharedWebSocket";
+import { getShiftInfo } from "@/lib/shifts";
 import {
     Bell,
     Sun,
@@ -12,14 +15,11 @@ import {
     User,
     ArrowRightCircle
 } from "lucide-react";
-// Notification type definition
-interface Notification {
-    id: string;
-    type: "warning" | "info" | "danger";
-    title: string;
-    message: string;
-    time: string;
-    read: boolean;
+// Newest notifications listed under the bell; the rest are on the alerts page
+const MAX_HEADER_NOTIFICATIONS = 20;
+
+function formatNotificationTime(createdAt: string): string {
+    return new Date(createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
 export default function OperatorHeader() {
@@ -27,7 +27,6 @@ export default function OperatorHeader() {
     const [isDropdownOpen, setIsDropdownOpen] = useState(false);
     const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
     const [isHandoverOpen, setIsHandoverOpen] = useState(false);
-    const [notifications, setNotifications] = useState<Notification[]>([]);
     const dropdownRef = useRef<HTMLDivElement>(null);
     const notificationsRef = useRef<HTMLDivElement>(null);
     const navigate = useNavigate();
@@ -37,81 +36,14 @@ export default function OperatorHeader() {
     const userName = userInfo.name || userInfo.email || 'Operator';
     const userRole = userInfo.role || 'Gate Operator';
 
-    // Listen for localStorage changes (same as Dashboard)
-    const updateNotificationsFromStorage = useCallback(() => {
-        try {
-            const saved = localStorage.getItem('ws_payloads');
-            if (!saved) return;
-
-            const messages = JSON.parse(saved) as Array<{ id: string, timestamp: string, data: any }>;
-            if (messages.length === 0) return;
-
-            // Sort messages by timestamp (newest first)
-            const sortedMessages = messages.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-            const newNotifications: Notification[] = [];
-
-            // Process all messages in the history
-            for (const msg of sortedMessages) {
-                // Determine whether the data is nested under payload or direct
-                const payload = msg.data?.payload || msg.data;
+    const gateId = Number(userInfo.gate_id || 1);
 
-                if (payload && payload.alerts && Array.isArray(payload.alerts)) {
-                    payload.alerts.forEach((alertMsg: any, index: number) => {
-                        if (typeof alertMsg === 'string' && alertMsg.trim().length > 0) {
-                            let type: "info" | "warning" | "danger" = "danger";
-                            if (alertMsg.toLowerCase().includes('approved') || alertMsg.toLowerCase().includes('success') || alertMsg.toLowerCase().includes('accepted')) {
-                                type = "info";
-                            } else if (alertMsg.toLowerCase().includes('review') || alertMsg.toLowerCase().includes('pending')) {
-                                type = "warning";
-                            }
-
-                            newNotifications.push({
-                                id: `alert-${msg.id}-${index}`,
-                                type,
-                                title: "Safety Alert",
-                                message: alertMsg,
-                                time: new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-                                // Check if already exist to preserve read status later, for now mark as false
-                                read: false
-                            });
-                        }
-                    });
-                }
-            }
-
-            // Restore read status from current state if it exists
-            setNotifications(prev => {
-                const updatedNotifications = newNotifications.map(newNotif => {
-                    const existing = prev.find(p => p.id === newNotif.id);
-                    return existing ? { ...newNotif, read: existing.read } : newNotif;
-                });
-                return updatedNotifications;
-            });
-        } catch (e) {
-            console.error("Failed to parse notifications from storage", e);
-        }
-    }, []);
+    const { notifications, unreadCount, markRead, markAllRead } = useNotifications(gateId);
 
+    // Every gate tab joins the shared socket, so whichever tab stays open can own it
     useEffect(() => {
-        // Initial load
-        updateNotificationsFromStorage();
-
-        // Listen for updates
-        const handleStorageUpdate = (e: StorageEvent) => {
-            if (e.key === 'ws_payloads') updateNotificationsFromStorage();
-        };
-
-        const handleCustomUpdate = () => updateNotificationsFromStorage();
-
-        window.addEventListener('storage', handleStorageUpdate);
-        window.addEventListener('ws_payload_updated', handleCustomUpdate);
-
-        return () => {
-            window.removeEventListener('storage', handleStorageUpdate);
-            window.removeEventListener('ws_payload_updated', handleCustomUpdate);
-        };
-    }, [updateNotificationsFromStorage]);
+        getGateWebSocket(gateId).connect();
+    }, [gateId]);
 
     // Close dropdowns when clicking outside
     useEffect(() => {
@@ -133,13 +65,6 @@ export default function OperatorHeader() {
     };
 
     // Get current shift based on time
-    const getShiftInfo = () => {
-        const hour = new Date().getHours();
-        if (hour >= 6 && hour < 14) return { name: "Morning Shift", startTime: "06:00", endTime: "14:00", startHour: 6, endHour: 14 };
-        if (hour >= 14 && hour < 22) return { name: "Afternoon Shift", startTime: "14:00", endTime: "22:00", startHour: 14, endHour: 22 };
-        return { name: "Night Shift", startTime: "22:00", endTime: "06:00", startHour: 22, endHour: 6 };
-    };
-
     const shiftInfo = getShiftInfo();
 
     // Auto-trigger handover modal when shift ends
@@ -166,11 +91,9 @@ export default function OperatorHeader() {
     };
 
     const handleMarkAllRead = () => {
-        setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+        markAllRead();
     };
 
-    const unreadCount = notifications.filter((n) => !n.read).length;
-
     return (
         <header className="operator-header">
             <div className="header-left">
@@ -214,7 +137,7 @@ export default function OperatorHeader() {
                         <div className="notifications-popup">
                             <div className="notifications-header">
                                 <span className="notifications-title">Notifications</span>
-                                <button className="mark-read-btn" onClick={handleMarkAllRead}>
+                                <button className="mark-read-btn" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
                                     Mark as read
                                 </button>
                             </div>
@@ -224,17 +147,18 @@ export default function OperatorHeader() {
                                         <span>No notifications</span>
                                     </div>
                                 ) : (
-                                    notifications.map((notification) => (
+                                    notifications.slice(0, MAX_HEADER_NOTIFICATIONS).map((notification) => (
                                         <div
                                             key={notification.id}
                                             className={`notification-item ${notification.type} ${notification.read ? "read" : ""
                                                 }`}
+                                            onClick={() => markRead(notification.id)}
                                         >
                                             <div className="notification-indicator" />
                                             <div className="notification-content">
                                                 <span className="notification-title">{notification.title}</span>
                                                 <span className="notification-message">{notification.message}</span>
-                                                <span className="notification-time">{notification.time}</span>
+                                                <span className="notification-time">{formatNotificationTime(notification.created_at)}</span>
                                             </div>
                                         </div>
                                     ))
@@ -19,6 +19,30 @@ export interface AppConfig {
     apiBaseUrl: string;
     /** WebSocket base URL */
     wsBaseUrl: string;
+    /** Minutes a manual review may wait before it is flagged */
+    reviewSlaWarnMinutes: number;
+    /** Minutes a manual review may wait before it is escalated */
+    reviewSlaEscalateMinutes: number;
+    /** Seconds of live video kept for instant replay (DVR mode) */
+    dvrBufferSeconds: number;
+    /** Length in seconds of clips exported from a replay */
+    dvrClipSeconds: number;
+    /** Minutes past the scheduled time before an appointment counts as delayed (terminal default) */
+    delayGraceMinutes: number;
+    /** Mark overdue appointments delayed automatically instead of proposing it to the operator */
+    delayAutoApply: boolean;
+    /** Backend accepts POST /notifications for driver and company notifications */
+    recipientNotificationsApi: boolean;
+    /** Backend serves the shared manual review queue (/manual-review/queue) */
+    reviewQueueApi: boolean;
+    /** Backend takes reason, evidence and operator fields on manual reviews (and /manual-review/evidence uploads) */
+    reviewAuditApi: boolean;
+    /** Backend accepts and serves feed health telemetry (/stream/{gate}/health, /stream/health) */
+    streamHealthApi: boolean;
+    /** Backend serves the camera registry (/stream/registry) */
+    streamRegistryApi: boolean;
+    /** Backend stores the shared delay rules (/settings/delay-rules) */
+    delayRulesApi: boolean;
 }
 
 // Default configuration - customize per installation
@@ -30,6 +54,18 @@ const config: AppConfig = {
     grafanaUrl: import.meta.env.VITE_GRAFANA_URL || 'http://10.255.32.70:3000',
     apiBaseUrl: import.meta.env.VITE_API_URL || 'http://10.255.32.70:8000/api',
     wsBaseUrl: import.meta.env.VITE_WS_URL || 'ws://10.255.32.70:8000/ws',
+    reviewSlaWarnMinutes: Number(import.meta.env.VITE_REVIEW_SLA_WARN_MINUTES) || 2,
+    reviewSlaEscalateMinutes: Number(import.meta.env.VITE_REVIEW_SLA_ESCALATE_MINUTES) || 5,
+    dvrBufferSeconds: Number(import.meta.env.VITE_DVR_BUFFER_SECONDS) || 120,
+    dvrClipSeconds: Number(import.meta.env.VITE_DVR_CLIP_SECONDS) || 10,
+    delayGraceMinutes: Number(import.meta.env.VITE_DELAY_GRACE_MINUTES) || 15,
+    delayAutoApply: import.meta.env.VITE_DELAY_AUTO_APPLY === 'true',
+    recipientNotificationsApi: import.meta.env.VITE_RECIPIENT_NOTIFICATIONS_API === 'true',
+    reviewQueueApi: import.meta.env.VITE_REVIEW_QUEUE_API === 'true',
+    reviewAuditApi: import.meta.env.VITE_REVIEW_AUDIT_API === 'true',
+    streamHealthApi: import.meta.env.VITE_STREAM_HEALTH_API === 'true',
+    streamRegistryApi: import.meta.env.VITE_STREAM_REGISTRY_API === 'true',
+    delayRulesApi: import.meta.env.VITE_DELAY_RULES_API === 'true',
 };
 
 export default config;
@@ -44,5 +80,17 @@ declare global {
         VITE_GRAFANA_URL?: string;
         VITE_API_URL?: string;
         VITE_WS_URL?: string;
+        VITE_REVIEW_SLA_WARN_MINUTES?: string;
+        VITE_REVIEW_SLA_ESCALATE_MINUTES?: string;
+        VITE_DVR_BUFFER_SECONDS?: string;
+        VITE_DVR_CLIP_SECONDS?: string;
+        VITE_DELAY_GRACE_MINUTES?: string;
+        VITE_DELAY_AUTO_APPLY?: string;
+        VITE_RECIPIENT_NOTIFICATIONS_API?: string;
+        VITE_REVIEW_QUEUE_API?: string;
+        VITE_REVIEW_AUDIT_API?: string;
+        VITE_STREAM_HEALTH_API?: string;
+        VITE_STREAM_REGISTRY_API?: string;
+        VITE_DELAY_RULES_API?: string;
     }
 }
@@ -0,0 +1,38 @@
+/**
+ * Manual review reason taxonomy
+ * Structured accept/reject reasons offered in the manual review modal and sent
+ * with the decision, so rejections can be analysed by category.
+ * Edit this file to customise the list for different port installations.
+ */
+import type { AlertTypeEnum } from "@/types/types";
+
+export interface ReviewReason {
+  /** Stable code sent to the backend - never reuse a code for a different meaning */
+  code: string;
+  label: string;
+  decision: "accepted" | "rejected";
+  /** Free-text note is mandatory for this reason */
+  requiresNote?: boolean;
+  /** Suggest a linked alert of this kind when the reason is chosen */
+  suggestAlert?: AlertTypeEnum | "hazmat";
+}
+
+export const REVIEW_REASONS: readonly ReviewReason[] = [
+  // Accept
+  { code: "PLATE_VERIFIED_VISUALLY", label: "Plate verified on camera", decision: "accepted" },
+  { code: "OCR_MISREAD", label: "OCR misread, appointment confirmed", decision: "accepted" },
+  { code: "SCHEDULE_DEVIATION_OK", label: "Outside time window, authorised", decision: "accepted" },
+  { code: "ACCEPT_OTHER", label: "Other", decision: "accepted", requiresNote: true },
+  // Reject
+  { code: "PLATE_MISMATCH", label: "Plate does not match appointment", decision: "rejected" },
+  { code: "NO_APPOINTMENT", label: "No appointment found", decision: "rejected" },
+  { code: "MISSING_ADR_PLACARD", label: "Missing ADR placard", decision: "rejected", suggestAlert: "hazmat" },
+  { code: "HAZMAT_MISMATCH", label: "Hazmat does not match booking", decision: "rejected", suggestAlert: "hazmat" },
+  { code: "DAMAGED_SEAL", label: "Damaged or missing seal", decision: "rejected", suggestAlert: "safety" },
+  { code: "VEHICLE_UNSAFE", label: "Vehicle unsafe", decision: "rejected", suggestAlert: "safety" },
+  { code: "REJECT_OTHER", label: "Other", decision: "rejected", requiresNote: true },
+];
+
+export function getReviewReasons(decision: ReviewReason["decision"]): ReviewReason[] {
+  return REVIEW_REASONS.filter((reason) => reason.decision === decision);
+}
@@ -1,24 +1,18 @@
-const DEFAULT_STREAM_BASE_URL = "http://10.255.32.56:8080";
-// Configuração das streams HLS
-export const STREAM_CONFIG = {
-  baseUrl: DEFAULT_STREAM_BASE_URL,
-  gates: {
-    gate01: {
-      low: "/hls/low/gate1/index.m3u8",
-      high: "/hls/high/gate1/index.m3u8",
-    },
-    gate02: {
-      low: "/hls/low/gate2/index.m3u8",
-      high: "/hls/high/gate2/index.m3u8",
-    },
-  },
-} as const;
+import type { StreamRegistry } from "@/services/streams";
+
+// Used when the registry API is off or unreachable and nothing is cached. Lists
+// the gates only: with no cameras, each gate's stream resolves through the
+// per-gate endpoints (/stream/{gate}/low|high)
+export const DEFAULT_STREAM_REGISTRY: StreamRegistry = {
+  gates: [
+    { id: 1, key: "gate1", label: "Gate 1", cameras: [] },
+    { id: 2, key: "gate2", label: "Gate 2", cameras: [] },
+  ],
+};
 
-export function getStreamUrl(gate: string, quality: "low" | "high" = "high"): string {
-  const gateConfig = STREAM_CONFIG.gates[gate as keyof typeof STREAM_CONFIG.gates];
-  if (!gateConfig) {
-    console.warn(`Gate ${gate} not found, using gate01`);
-    return `${STREAM_CONFIG.baseUrl}${STREAM_CONFIG.gates.gate01[quality]}`;
-  }
-  return `${STREAM_CONFIG.baseUrl}${gateConfig[quality]}`;
-}
+// Nominal bitrate/resolution advertised for each variant in the generated
+// multi-rendition playlist; ABR compares these against measured bandwidth
+export const RENDITION_PROFILES = {
+  low: { bandwidth: 800_000, resolution: "640x360" },
+  high: { bandwidth: 3_000_000, resolution: "1920x1080" },
+} as const;
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    applyDelay,
+    runDelayDetection,
+    type DelayCandidate,
+    type DelayResult,
+    type DelayRunResult,
+} from '@/services/delayDetection';
+import { getGateWebSocket } from '@/lib/sharedWebSocket';
+
+/** How often the gate's appointments are checked for delays */
+const CHECK_INTERVAL_MS = 60000;
+
+/**
+ * Periodic delay detection for a gate. Returns the overdue appointments waiting
+ * for the operator; onRun (keep it stable) sees every run, e.g. to toast auto-applied delays.
+ */
+export function useDelayDetection(gateId: number, onRun?: (result: DelayRunResult) => void) {
+    const [proposals, setProposals] = useState<DelayCandidate[]>([]);
+    // Dismissed for the rest of the session so the same truck isn't proposed every minute
+    const dismissedRef = useRef(new Set<number>());
+
+    useEffect(() => {
+        let cancelled = false;
+        const run = () => {
+            runDelayDetection(gateId, getGateWebSocket(gateId).isLeader())
+                .then((result) => {
+                    if (cancelled) return;
+                    setProposals(result.proposed.filter(c => !dismissedRef.current.has(c.appointment.id)));
+                    onRun?.(result);
+                })
+                .catch((err) => console.error('[Delay] Delay detection failed:', err));
+        };
+        run();
+        const timer = setInterval(run, CHECK_INTERVAL_MS);
+        // The first run usually lands before the tab election settles; check again
+        // as soon as this tab takes over so auto-apply doesn't wait a full interval
+        const unsubscribe = getGateWebSocket(gateId).onLeadershipChange((isLeader) => {
+            if (isLeader) run();
+        });
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+            unsubscribe();
+        };
+    }, [gateId, onRun]);
+
+    const confirm = useCallback(async (candidate: DelayCandidate): Promise<DelayResult> => {
+        const result = await applyDelay(candidate, gateId, 'operator');
+        // Drop it either way: on failure it was usually handled elsewhere already
+        setProposals(prev => prev.filter(c => c.appointment.id !== candidate.appointment.id));
+        return result;
+    }, [gateId]);
+
+    const dismiss = useCallback((appointmentId: number) => {
+        dismissedRef.current.add(appointmentId);
+        setProposals(prev => prev.filter(c => c.appointment.id !== appointmentId));
+    }, []);
+
+    return { proposals, confirm, dismiss };
+}
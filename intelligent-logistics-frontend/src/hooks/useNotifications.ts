@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    markAllRead as markAllGateRead,
+    markRead as markGateRead,
+    refreshNotifications,
+    subscribeNotifications,
+    type NotificationState,
+} from '@/lib/notificationCenter';
+
+const INITIAL_STATE: NotificationState = { notifications: [], unreadCount: 0, isLoading: true, error: null };
+
+/**
+ * A gate's notifications from the notification center, kept live while mounted
+ */
+export function useNotifications(gateId: number) {
+    const [state, setState] = useState<NotificationState>(INITIAL_STATE);
+
+    useEffect(() => subscribeNotifications(gateId, setState), [gateId]);
+
+    const markRead = useCallback((id: string) => markGateRead(gateId, id), [gateId]);
+    const markAllRead = useCallback(() => markAllGateRead(gateId), [gateId]);
+    const refresh = useCallback(() => refreshNotifications(gateId), [gateId]);
+
+    return { ...state, markRead, markAllRead, refresh };
+}
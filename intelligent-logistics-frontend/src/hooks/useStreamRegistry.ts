@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getRegistrySnapshot, loadStreamRegistry, subscribeStreamRegistry } from '@/lib/streamRegistry';
+import type { StreamRegistry } from '@/services/streams';
+
+/**
+ * Current camera/gate registry; starts from the cached snapshot and updates once loaded
+ */
+export function useStreamRegistry(): StreamRegistry {
+    const [registry, setRegistry] = useState<StreamRegistry>(getRegistrySnapshot);
+
+    useEffect(() => {
+        const unsubscribe = subscribeStreamRegistry(setRegistry);
+        loadStreamRegistry().then(setRegistry).catch((err) => {
+            console.error('[Registry] Failed to load stream registry:', err);
+        });
+        return unsubscribe;
+    }, []);
+
+    return registry;
+}
@@ -0,0 +1,57 @@
+/**
+ * Adaptive stream playback
+ * The stream server publishes separate low and high HLS playlists per gate.
+ * This builds a master playlist over both so hls.js can switch between them
+ * by measured bandwidth, and keeps the operator's manual quality override.
+ */
+import { RENDITION_PROFILES } from '@/config/streams';
+import type { StreamRenditions } from '@/services/streams';
+
+export type Rendition = 'low' | 'high';
+export type QualityMode = 'auto' | Rendition;
+
+const MODE_STORAGE_KEY = 'stream_quality_mode';
+
+/**
+ * Build a master playlist over the available variants.
+ * Returns a blob URL (revoke with URL.revokeObjectURL when done), or null
+ * when only one variant exists and it should be played directly.
+ */
+export function buildMasterPlaylist(renditions: StreamRenditions): string | null {
+    const variants = (['low', 'high'] as const).filter(name => renditions[name]);
+    if (variants.length < 2) return null;
+
+    const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    variants.forEach((name) => {
+        const profile = RENDITION_PROFILES[name];
+        // Variant URIs must be absolute: a blob URL has no base to resolve against
+        const url = new URL(renditions[name]!, window.location.href).href;
+        lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${profile.bandwidth},RESOLUTION=${profile.resolution}`, url);
+    });
+
+    const blob = new Blob([lines.join('\n') + '\n'], { type: 'application/vnd.apple.mpegurl' });
+    return URL.createObjectURL(blob);
+}
+
+/**
+ * Which rendition an hls.js level is, by its advertised bitrate
+ */
+export function renditionForBitrate(bitrate: number): Rendition {
+    return bitrate <= RENDITION_PROFILES.low.bandwidth ? 'low' : 'high';
+}
+
+/**
+ * Operator's quality override for this PC (defaults to auto)
+ */
+export function getQualityMode(): QualityMode {
+    const saved = localStorage.getItem(MODE_STORAGE_KEY);
+    return saved === 'low' || saved === 'high' ? saved : 'auto';
+}
+
+export function setQualityMode(mode: QualityMode): void {
+    if (mode === 'auto') {
+        localStorage.removeItem(MODE_STORAGE_KEY);
+    } else {
+        localStorage.setItem(MODE_STORAGE_KEY, mode);
+    }
+}
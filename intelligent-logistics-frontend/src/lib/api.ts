@@ -40,4 +40,18 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Human-readable reason for a failed call: the API's detail message when it
+ * sends one, otherwise the status or the error's own message
+ */
+export function getErrorMessage(err: unknown): string {
+  if (axios.isAxiosError(err)) {
+    const detail = err.response?.data?.detail;
+    if (typeof detail === 'string') return detail;
+    if (err.response?.status) return `Request failed (${err.response.status})`;
+    return 'Network error';
+  }
+  return err instanceof Error ? err.message : 'Unknown error';
+}
+
 export default api;
\ No newline at end of file
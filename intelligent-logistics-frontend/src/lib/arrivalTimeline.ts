@@ -0,0 +1,243 @@
+/**
+ * Arrival activity timeline
+ * Merges everything recorded about one appointment - status changes, agent
+ * detections and decisions, manual reviews, visit alerts, the driver's claim
+ * and gate-in/out - into a single chronological list for the detail page.
+ */
+import { getDetectionEvents, getDecisionEvents } from '@/services/decisions';
+import { REVIEW_REASONS } from '@/config/reviewReasons';
+import { STATUS_LABELS } from '@shared/appointmentStatus';
+import { normalizePlate } from './candidateMatching';
+import { rawField } from './gapRecovery';
+import type { Alert, Appointment, DecisionEvent, DetectionEvent, Visit } from '@/types/types';
+
+/** Plate events without an appointment id are kept only this close to the visit */
+const MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+/** Events fetched per source */
+const EVENT_LIMIT = 200;
+
+export type TimelineSource = 'status' | 'driver' | 'gate' | 'detection' | 'decision' | 'manual_review' | 'alert';
+
+export const TIMELINE_SOURCE_LABELS: Record<TimelineSource, string> = {
+    status: 'Status',
+    driver: 'Driver App',
+    gate: 'Gate',
+    detection: 'Detection',
+    decision: 'Decision',
+    manual_review: 'Manual Review',
+    alert: 'Alert',
+};
+
+export interface TimelineEntry {
+    id: string;
+    source: TimelineSource;
+    /** Epoch ms */
+    time: number;
+    title: string;
+    detail?: string;
+    /** Crops and evidence images attached to the event */
+    images: string[];
+}
+
+export interface TimelineEvents {
+    detections: DetectionEvent[];
+    decisions: DecisionEvent[];
+    alerts: Alert[];
+}
+
+export interface ArrivalTimeline {
+    entries: TimelineEntry[];
+    /** Sources that could not be loaded; the timeline is partial without them */
+    failedSources: TimelineSource[];
+}
+
+// ==================== INTERNALS ====================
+
+function toTime(iso?: string | null): number {
+    return iso ? Date.parse(iso) : NaN;
+}
+
+function images(...urls: (string | null | undefined)[]): string[] {
+    return urls.filter((url): url is string => !!url);
+}
+
+/**
+ * Time span the appointment's plate events should fall in
+ */
+function matchWindow(appointment: Appointment, visit: Visit | null): [number, number] | null {
+    const start = toTime(visit?.entry_time) || toTime(appointment.scheduled_start_time);
+    if (Number.isNaN(start)) return null;
+    const end = toTime(visit?.out_time) || Date.now();
+    return [start - MATCH_WINDOW_MS, Math.max(start, end) + MATCH_WINDOW_MS];
+}
+
+function belongsToAppointment(
+    appointment: Appointment,
+    window: [number, number] | null,
+    time: number,
+    appointmentId?: number
+): boolean {
+    if (appointmentId !== undefined) return appointmentId === appointment.id;
+    if (!window || Number.isNaN(time)) return true;
+    return time >= window[0] && time <= window[1];
+}
+
+function fromDetection(event: DetectionEvent, index: number): TimelineEntry {
+    const confidence = event.confidence != null ? ` (${Math.round(event.confidence * 100)}%)` : '';
+    return {
+        id: event._id || `detection-${index}`,
+        source: 'detection',
+        time: toTime(event.timestamp),
+        title: `${event.type} by ${event.agent}${confidence}`,
+        detail: `Gate ${event.gate_id}${event.license_plate ? ` · ${event.license_plate}` : ''}`,
+        images: images(rawField(event, 'license_crop_url'), rawField(event, 'hazard_crop_url')),
+    };
+}
+
+function fromDecision(event: DecisionEvent, index: number): TimelineEntry {
+    const manual = (event.decision_source || '').toLowerCase() === 'operator';
+    const decision = (event.decision || '').toUpperCase();
+    const hazmat = event.un || event.kemler ? `UN ${event.un || '-'} / Kemler ${event.kemler || '-'}` : undefined;
+
+    if (manual) {
+        const reason = REVIEW_REASONS.find(r => r.code === event.reason_code)?.label || event.decision_reason;
+        return {
+            id: event._id || `review-${index}`,
+            source: 'manual_review',
+            time: toTime(event.timestamp),
+            title: `${decision} by ${event.operator_name || event.operator_id || 'operator'}`,
+            detail: [reason, event.reason_note].filter(Boolean).join(' · ') || undefined,
+            images: images(event.license_crop_url, event.hazard_crop_url, ...(event.evidence_urls || [])),
+        };
+    }
+    return {
+        id: event._id || `decision-${index}`,
+        source: 'decision',
+        time: toTime(event.timestamp),
+        title: `${decision}${event.decision_source ? ` by ${event.decision_source}` : ''}`,
+        detail: [event.decision_reason, hazmat].filter(Boolean).join(' · ') || undefined,
+        images: images(event.license_crop_url, event.hazard_crop_url),
+    };
+}
+
+function fromAlert(alert: Alert): TimelineEntry {
+    return {
+        id: `alert-${alert.id}`,
+        source: 'alert',
+        time: toTime(alert.timestamp),
+        title: `${alert.type.charAt(0).toUpperCase()}${alert.type.slice(1)} alert`,
+        detail: alert.description || undefined,
+        images: images(alert.image_url),
+    };
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Build the timeline, oldest first. Events carrying a different appointment id,
+ * or far from this visit when they carry none, are left out because plates recur.
+ */
+export function buildArrivalTimeline(
+    appointment: Appointment,
+    visit: Visit | null,
+    events: TimelineEvents
+): TimelineEntry[] {
+    const window = matchWindow(appointment, visit);
+    const plate = normalizePlate(appointment.truck_license_plate);
+    const entries: TimelineEntry[] = [];
+
+    (appointment.status_history || []).forEach((change, index) => {
+        entries.push({
+            id: `status-${index}`,
+            source: 'status',
+            time: toTime(change.changed_at),
+            title: `Status: ${STATUS_LABELS[change.status] || change.status}`,
+            detail: change.changed_by ? `By ${change.changed_by}` : undefined,
+            images: [],
+        });
+    });
+
+    if (appointment.claimed_at) {
+        entries.push({
+            id: 'driver-claim',
+            source: 'driver',
+            time: toTime(appointment.claimed_at),
+            title: 'Arrival claimed by driver',
+            detail: appointment.driver?.name || appointment.driver_license,
+            images: [],
+        });
+    }
+
+    if (visit?.entry_time) {
+        entries.push({
+            id: 'gate-in',
+            source: 'gate',
+            time: toTime(visit.entry_time),
+            title: 'Gate-in',
+            detail: `Gate ${appointment.gate_in?.label || visit.shift_gate_id}`,
+            images: [],
+        });
+    }
+    if (visit?.out_time) {
+        entries.push({
+            id: 'gate-out',
+            source: 'gate',
+            time: toTime(visit.out_time),
+            title: 'Gate-out',
+            detail: appointment.gate_out?.label ? `Gate ${appointment.gate_out.label}` : undefined,
+            images: [],
+        });
+    }
+
+    events.detections
+        .filter(event => normalizePlate(event.license_plate) === plate)
+        .map(fromDetection)
+        .filter(entry => belongsToAppointment(appointment, window, entry.time))
+        .forEach(entry => entries.push(entry));
+
+    events.decisions
+        .filter(event => normalizePlate(event.license_plate) === plate)
+        .filter(event => belongsToAppointment(appointment, window, toTime(event.timestamp), event.appointment_id))
+        .map(fromDecision)
+        .forEach(entry => entries.push(entry));
+
+    events.alerts.map(fromAlert).forEach(entry => entries.push(entry));
+
+    // Entries without a time sink to the end instead of breaking the order
+    return entries.sort((a, b) => (Number.isNaN(a.time) ? Infinity : a.time) - (Number.isNaN(b.time) ? Infinity : b.time));
+}
+
+/**
+ * Fetch the detection and decision events for the appointment and build its
+ * timeline. The visit and its alerts are passed in as already loaded by the
+ * caller; null alerts or an unavailable visit are reported like a failing source.
+ */
+export async function loadArrivalTimeline(
+    appointment: Appointment,
+    visit: Visit | null,
+    loaded: { alerts: Alert[] | null; visitUnavailable?: boolean }
+): Promise<ArrivalTimeline> {
+    const plate = appointment.truck_license_plate;
+    const [detections, decisions] = await Promise.allSettled([
+        getDetectionEvents({ license_plate: plate, limit: EVENT_LIMIT }),
+        getDecisionEvents({ license_plate: plate, limit: EVENT_LIMIT }),
+    ]);
+
+    const failedSources: TimelineSource[] = [];
+    const settled = <T>(result: PromiseSettledResult<T[]>, source: TimelineSource): T[] => {
+        if (result.status === 'fulfilled') return result.value;
+        console.warn(`[Timeline] Failed to load ${source} events:`, result.reason);
+        failedSources.push(source);
+        return [];
+    };
+
+    if (loaded.visitUnavailable) failedSources.push('gate');
+    if (!loaded.alerts) failedSources.push('alert');
+
+    const events: TimelineEvents = {
+        detections: settled(detections, 'detection'),
+        decisions: settled(decisions, 'decision'),
+        alerts: loaded.alerts ?? [],
+    };
+    return { entries: buildArrivalTimeline(appointment, visit, events), failedSources };
+}
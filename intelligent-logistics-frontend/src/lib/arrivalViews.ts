@@ -0,0 +1,155 @@
+/**
+ * Arrivals list views
+ * Filters, sort and page of the arrivals list live in the URL query string so a
+ * view can be bookmarked, shared and restored after opening an arrival. Named
+ * saved views and the visible columns are kept per browser in localStorage.
+ */
+
+export type ArrivalStatusFilter = 'all' | 'in_transit' | 'in_process' | 'delayed' | 'completed' | 'violators';
+export type ArrivalSortKey = 'truck_license_plate' | 'gate_in' | 'scheduled_start_time' | 'booking_reference' | 'status';
+export type SortOrder = 'asc' | 'desc';
+export type ArrivalColumnKey = 'dock' | 'arrivalTime' | 'reference' | 'driver' | 'company' | 'status';
+
+export interface ArrivalsViewState {
+    status: ArrivalStatusFilter;
+    dock: string;
+    search: string;
+    /** Only appointments carrying dangerous goods (server-side filter) */
+    hazmat: boolean;
+    sort: ArrivalSortKey | null;
+    order: SortOrder;
+    page: number;
+}
+
+export interface SavedArrivalsView {
+    id: string;
+    name: string;
+    /** Saved views always open on the first page */
+    state: Omit<ArrivalsViewState, 'page'>;
+}
+
+export interface ArrivalColumn {
+    key: ArrivalColumnKey;
+    label: string;
+    /** Server sort field; columns without one are not sortable */
+    sortKey?: ArrivalSortKey;
+}
+
+export const DEFAULT_VIEW_STATE: ArrivalsViewState = {
+    status: 'all',
+    dock: 'all',
+    search: '',
+    hazmat: false,
+    sort: null,
+    order: 'asc',
+    page: 1,
+};
+
+/** Optional columns; the license plate and actions columns are always shown */
+export const ARRIVAL_COLUMNS: ArrivalColumn[] = [
+    { key: 'dock', label: 'Dock', sortKey: 'gate_in' },
+    { key: 'arrivalTime', label: 'Arrival Time', sortKey: 'scheduled_start_time' },
+    { key: 'reference', label: 'Reference', sortKey: 'booking_reference' },
+    { key: 'driver', label: 'Driver' },
+    { key: 'company', label: 'Company' },
+    { key: 'status', label: 'Status', sortKey: 'status' },
+];
+
+const DEFAULT_COLUMNS: ArrivalColumnKey[] = ['dock', 'arrivalTime', 'reference', 'status'];
+
+const VIEWS_KEY = 'arrivals_saved_views';
+const COLUMNS_KEY = 'arrivals_visible_columns';
+
+const STATUS_FILTERS: ArrivalStatusFilter[] = ['all', 'in_transit', 'in_process', 'delayed', 'completed', 'violators'];
+const SORT_KEYS: ArrivalSortKey[] = ['truck_license_plate', 'gate_in', 'scheduled_start_time', 'booking_reference', 'status'];
+
+// ==================== URL STATE ====================
+
+/**
+ * Read the view from the query string; unknown or missing values fall back to defaults
+ */
+export function parseViewState(params: URLSearchParams): ArrivalsViewState {
+    const status = params.get('status') as ArrivalStatusFilter | null;
+    const sort = params.get('sort') as ArrivalSortKey | null;
+    const page = Number(params.get('page'));
+
+    return {
+        status: status && STATUS_FILTERS.includes(status) ? status : DEFAULT_VIEW_STATE.status,
+        dock: params.get('dock') || DEFAULT_VIEW_STATE.dock,
+        search: params.get('q') || DEFAULT_VIEW_STATE.search,
+        hazmat: params.get('hazmat') === '1',
+        sort: sort && SORT_KEYS.includes(sort) ? sort : null,
+        order: params.get('order') === 'desc' ? 'desc' : 'asc',
+        page: Number.isInteger(page) && page > 1 ? page : 1,
+    };
+}
+
+/**
+ * Query string for a view, leaving out defaults so plain URLs stay plain
+ */
+export function toSearchParams(state: ArrivalsViewState): URLSearchParams {
+    const params = new URLSearchParams();
+    if (state.status !== 'all') params.set('status', state.status);
+    if (state.dock !== 'all') params.set('dock', state.dock);
+    if (state.search) params.set('q', state.search);
+    if (state.hazmat) params.set('hazmat', '1');
+    if (state.sort) {
+        params.set('sort', state.sort);
+        params.set('order', state.order);
+    }
+    if (state.page > 1) params.set('page', String(state.page));
+    return params;
+}
+
+/**
+ * Whether the current view is exactly a saved view (ignoring the page)
+ */
+export function matchesView(state: ArrivalsViewState, view: SavedArrivalsView): boolean {
+    return toSearchParams({ ...state, page: 1 }).toString() === toSearchParams({ ...view.state, page: 1 }).toString();
+}
+
+// ==================== SAVED VIEWS ====================
+
+export function getSavedViews(): SavedArrivalsView[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(VIEWS_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter(view => view?.id && view.name && view.state) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Save the current view under a name, replacing a view with the same name
+ */
+export function saveView(name: string, state: ArrivalsViewState): SavedArrivalsView[] {
+    const { status, dock, search, hazmat, sort, order } = state;
+    const views = getSavedViews().filter(view => view.name.toLowerCase() !== name.toLowerCase());
+    const next = [...views, { id: `view-${Date.now()}`, name, state: { status, dock, search, hazmat, sort, order } }];
+    localStorage.setItem(VIEWS_KEY, JSON.stringify(next));
+    return next;
+}
+
+export function deleteView(id: string): SavedArrivalsView[] {
+    const next = getSavedViews().filter(view => view.id !== id);
+    localStorage.setItem(VIEWS_KEY, JSON.stringify(next));
+    return next;
+}
+
+// ==================== COLUMNS ====================
+
+export function getVisibleColumns(): ArrivalColumnKey[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(COLUMNS_KEY) || 'null');
+        if (Array.isArray(saved)) {
+            return ARRIVAL_COLUMNS.map(column => column.key).filter(key => saved.includes(key));
+        }
+    } catch {
+        // Fall through to the defaults
+    }
+    return DEFAULT_COLUMNS;
+}
+
+export function saveVisibleColumns(columns: ArrivalColumnKey[]): void {
+    localStorage.setItem(COLUMNS_KEY, JSON.stringify(columns));
+}
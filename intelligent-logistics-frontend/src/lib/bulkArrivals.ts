@@ -0,0 +1,101 @@
+/**
+ * Bulk arrival updates
+ * Applies a status change or note to several appointments through
+ * updateArrivalStatus, reporting failures per item, and reverts the ones that
+ * succeeded when the operator undoes the batch.
+ */
+import { getErrorMessage } from '@/lib/api';
+import { updateArrivalStatus, type StatusChangeContext } from '@/services/arrivals';
+import type { AppointmentStatusEnum, AppointmentStatusUpdate } from '@/types/types';
+
+/** How long a finished batch can be undone */
+export const UNDO_WINDOW_MS = 10000;
+
+/** Appointment state before the batch touched it */
+export interface BulkTarget {
+    id: number;
+    plate: string;
+    status: AppointmentStatusEnum;
+    notes?: string | null;
+}
+
+export interface BulkFailure {
+    id: number;
+    plate: string;
+    reason: string;
+}
+
+export interface BulkOutcome {
+    /** Short description for the result bar, e.g. "Marked canceled" */
+    label: string;
+    /** Items that changed, with their previous state for undo */
+    succeeded: BulkTarget[];
+    failed: BulkFailure[];
+    finishedAt: number;
+    /** Status the batch moved items to; undefined for note-only batches */
+    appliedStatus?: AppointmentStatusEnum;
+    /** False for the revert batch itself, which cannot be undone again */
+    undoable: boolean;
+}
+
+// ==================== INTERNALS ====================
+
+async function runBatch(
+    label: string,
+    targets: BulkTarget[],
+    buildUpdate: (target: BulkTarget) => AppointmentStatusUpdate,
+    buildContext: (target: BulkTarget) => StatusChangeContext = target => ({ from: target.status }),
+    undoable: boolean = true
+): Promise<BulkOutcome> {
+    // Transitions the state machine refuses fail per item, like server errors
+    const results = await Promise.allSettled(
+        targets.map(target => updateArrivalStatus(target.id, buildUpdate(target), buildContext(target)))
+    );
+
+    const outcome: BulkOutcome = { label, succeeded: [], failed: [], finishedAt: Date.now(), undoable };
+    results.forEach((result, i) => {
+        const target = targets[i];
+        if (result.status === 'fulfilled') {
+            outcome.succeeded.push(target);
+        } else {
+            console.warn(`[Bulk] Update failed for appointment ${target.id}:`, result.reason);
+            outcome.failed.push({ id: target.id, plate: target.plate, reason: getErrorMessage(result.reason) });
+        }
+    });
+    return outcome;
+}
+
+// ==================== PUBLIC API ====================
+
+export async function bulkSetStatus(targets: BulkTarget[], status: AppointmentStatusEnum): Promise<BulkOutcome> {
+    // Items already in the target status are left alone so undo doesn't touch them
+    const changing = targets.filter(target => target.status !== status);
+    const outcome = await runBatch(`Marked ${status.replace('_', ' ')}`, changing, () => ({ status }));
+    return { ...outcome, appliedStatus: status };
+}
+
+/**
+ * Append a note to each appointment, keeping its current status
+ */
+export function bulkAddNote(targets: BulkTarget[], note: string): Promise<BulkOutcome> {
+    return runBatch('Added note', targets, target => ({
+        status: target.status,
+        notes: target.notes ? `${target.notes}\n${note}` : note,
+    }));
+}
+
+/**
+ * Restore the previous status of every item a batch changed. Notes are only
+ * written back for note batches, so undoing a status change can't overwrite a
+ * note someone added in the meantime.
+ */
+export function revertBulkOutcome(outcome: BulkOutcome): Promise<BulkOutcome> {
+    const noteBatch = outcome.appliedStatus === undefined;
+    return runBatch(
+        `Undid "${outcome.label}"`,
+        outcome.succeeded,
+        target => (noteBatch ? { status: target.status, notes: target.notes ?? null } : { status: target.status }),
+        target => ({ from: outcome.appliedStatus ?? target.status, reverting: true }),
+        false
+    );
+}
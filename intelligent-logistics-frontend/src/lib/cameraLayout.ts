@@ -0,0 +1,69 @@
+/**
+ * Camera grid layout
+ * Each operator picks how many camera tiles a gate shows (1, 2x2 or 3x3) and
+ * which camera is focused; the choice is saved per operator and per gate so it
+ * survives reloads and shift changes on a shared gate PC.
+ */
+
+export type CameraLayoutMode = 'single' | 'grid2' | 'grid3';
+
+export interface CameraLayout {
+    mode: CameraLayoutMode;
+    /** Camera playing the high variant and owning capture/replay; null = primary camera */
+    focusedCameraId: string | null;
+}
+
+/** Tiles per layout mode */
+export const LAYOUT_TILES: Record<CameraLayoutMode, number> = {
+    single: 1,
+    grid2: 4,
+    grid3: 9,
+};
+
+const STORAGE_PREFIX = 'camera_layout_';
+const DEFAULT_LAYOUT: CameraLayout = { mode: 'single', focusedCameraId: null };
+
+// ==================== INTERNALS ====================
+
+function storageKey(): string {
+    const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+    return `${STORAGE_PREFIX}${userInfo.num_worker ?? 'default'}`;
+}
+
+function readLayouts(): Record<string, CameraLayout> {
+    try {
+        const saved = JSON.parse(localStorage.getItem(storageKey()) || '{}');
+        return saved && typeof saved === 'object' ? saved : {};
+    } catch {
+        return {};
+    }
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Saved layout for a gate, or single view of the primary camera
+ */
+export function getCameraLayout(gateId: number): CameraLayout {
+    const saved = readLayouts()[String(gateId)];
+    if (!saved || !(saved.mode in LAYOUT_TILES)) return DEFAULT_LAYOUT;
+    return { mode: saved.mode, focusedCameraId: saved.focusedCameraId ?? null };
+}
+
+export function saveCameraLayout(gateId: number, layout: CameraLayout): void {
+    const layouts = readLayouts();
+    layouts[String(gateId)] = layout;
+    localStorage.setItem(storageKey(), JSON.stringify(layouts));
+}
+
+/**
+ * Cameras to show in the grid: the first ones that fit, keeping the focused
+ * camera on screen when it would otherwise fall off the end
+ */
+export function pickTileCameras<T extends { id: string }>(cameras: T[], mode: CameraLayoutMode, focusedId: string): T[] {
+    const tiles = cameras.slice(0, LAYOUT_TILES[mode]);
+    if (tiles.some(camera => camera.id === focusedId)) return tiles;
+    const focused = cameras.find(camera => camera.id === focusedId);
+    if (focused && tiles.length > 0) tiles[tiles.length - 1] = focused;
+    return tiles;
+}
@@ -0,0 +1,204 @@
+/**
+ * Manual review candidate matching
+ * Ranks appointments against a detection by OCR-aware plate similarity,
+ * scheduled-time proximity, gate and hazmat consistency. Every score comes
+ * with the reasons behind it so operators can see why a truck ranked first.
+ */
+import type { Appointment, PhysicalStateEnum } from '@/types/types';
+
+/** Characters the plate OCR commonly mistakes for one another */
+const OCR_CONFUSIONS: readonly string[] = ['0ODQ', '1IL', '8B', '5S', '2Z', '6G', '7T', '4A'];
+/** Substitution cost between confusable characters (a plain substitution costs 1) */
+const OCR_SUBSTITUTION_COST = 0.25;
+
+/** Max points per signal; plate similarity dominates */
+const PLATE_POINTS = 60;
+const TIME_POINTS = 20;
+const GATE_POINTS = 10;
+const HAZMAT_POINTS = 10;
+
+/** Full time points within this window of the scheduled start, none beyond TIME_ZERO_MS */
+const TIME_FULL_MS = 15 * 60 * 1000;
+const TIME_ZERO_MS = 3 * 60 * 60 * 1000;
+
+/** Physical state implied by the first Kemler digit */
+const KEMLER_STATES: Record<string, PhysicalStateEnum> = {
+    '2': 'gaseous',
+    '3': 'liquid',
+    '4': 'solid',
+};
+
+export interface MatchContext {
+    /** Detected (or operator-typed) plate */
+    licensePlate?: string;
+    /** Epoch ms of the detection */
+    detectedAt: number;
+    gateId?: number;
+    /** UN code without description, e.g. "1203" */
+    un?: string;
+    /** Kemler code without description, e.g. "33" */
+    kemler?: string;
+}
+
+export interface MatchReason {
+    label: string;
+    /** Signed contribution to the score */
+    points: number;
+}
+
+export interface RankedCandidate {
+    appointment: Appointment;
+    /** 0-100 */
+    score: number;
+    reasons: MatchReason[];
+}
+
+/**
+ * Uppercase and drop everything but letters and digits ("aa-00 bb" -> "AA00BB")
+ */
+export function normalizePlate(plate: string | null | undefined): string {
+    return (plate || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function substitutionCost(a: string, b: string): number {
+    if (a === b) return 0;
+    return OCR_CONFUSIONS.some(group => group.includes(a) && group.includes(b)) ? OCR_SUBSTITUTION_COST : 1;
+}
+
+/**
+ * Levenshtein distance between normalised plates, with cheap OCR confusions.
+ * Also returns the confusable pairs used, for the match explanation.
+ */
+export function plateDistance(detected: string, candidate: string): { distance: number; confusions: string[] } {
+    const a = normalizePlate(detected);
+    const b = normalizePlate(candidate);
+    const rows = a.length + 1;
+    const cols = b.length + 1;
+    const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+        Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i < rows; i++) {
+        for (let j = 1; j < cols; j++) {
+            dist[i][j] = Math.min(
+                dist[i - 1][j] + 1,
+                dist[i][j - 1] + 1,
+                dist[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1])
+            );
+        }
+    }
+
+    // Walk the cheapest path back to collect the confusable substitutions it used
+    const confusions: string[] = [];
+    let i = a.length;
+    let j = b.length;
+    while (i > 0 && j > 0) {
+        const cost = substitutionCost(a[i - 1], b[j - 1]);
+        if (dist[i][j] === dist[i - 1][j - 1] + cost) {
+            if (cost === OCR_SUBSTITUTION_COST) confusions.unshift(`${a[i - 1]}→${b[j - 1]}`);
+            i -= 1;
+            j -= 1;
+        } else if (dist[i][j] === dist[i - 1][j] + 1) {
+            i -= 1;
+        } else {
+            j -= 1;
+        }
+    }
+
+    return { distance: dist[a.length][b.length], confusions };
+}
+
+function scorePlate(ctx: MatchContext, appointment: Appointment): MatchReason {
+    const detected = normalizePlate(ctx.licensePlate);
+    const candidate = normalizePlate(appointment.truck_license_plate);
+    if (!detected) {
+        return { label: 'No plate detected', points: 0 };
+    }
+
+    const { distance, confusions } = plateDistance(detected, candidate);
+    const similarity = Math.max(0, 1 - distance / Math.max(detected.length, candidate.length, 1));
+    const points = Math.round(PLATE_POINTS * similarity);
+
+    if (distance === 0) {
+        return { label: 'Plate matches exactly', points };
+    }
+    const parts: string[] = [];
+    if (confusions.length > 0) parts.push(`OCR swap ${confusions.join(', ')}`);
+    const otherEdits = Math.round(distance - confusions.length * OCR_SUBSTITUTION_COST);
+    if (otherEdits > 0) parts.push(`${otherEdits} other edit${otherEdits === 1 ? '' : 's'}`);
+    return { label: `Plate differs (${parts.join('; ')})`, points };
+}
+
+function scoreTime(ctx: MatchContext, appointment: Appointment): MatchReason {
+    const scheduled = appointment.scheduled_start_time ? Date.parse(appointment.scheduled_start_time) : NaN;
+    if (Number.isNaN(scheduled)) {
+        return { label: 'No scheduled time', points: 0 };
+    }
+
+    const delta = Math.abs(ctx.detectedAt - scheduled);
+    const minutes = Math.round(delta / 60000);
+    const direction = ctx.detectedAt >= scheduled ? 'after' : 'before';
+    const label = minutes === 0 ? 'Arrived on schedule' : `Arrived ${minutes} min ${direction} schedule`;
+
+    if (delta <= TIME_FULL_MS) return { label, points: TIME_POINTS };
+    if (delta >= TIME_ZERO_MS) return { label, points: 0 };
+    const ratio = 1 - (delta - TIME_FULL_MS) / (TIME_ZERO_MS - TIME_FULL_MS);
+    return { label, points: Math.round(TIME_POINTS * ratio) };
+}
+
+function scoreGate(ctx: MatchContext, appointment: Appointment): MatchReason | null {
+    if (ctx.gateId === undefined || appointment.gate_in_id === null || appointment.gate_in_id === undefined) {
+        return null;
+    }
+    return appointment.gate_in_id === ctx.gateId
+        ? { label: `Scheduled for gate ${ctx.gateId}`, points: GATE_POINTS }
+        : { label: `Scheduled for gate ${appointment.gate_in?.label || appointment.gate_in_id}`, points: 0 };
+}
+
+function scoreHazmat(ctx: MatchContext, appointment: Appointment): MatchReason[] {
+    const reasons: MatchReason[] = [];
+    const cargos = appointment.booking?.cargos || [];
+    const descriptions = cargos.map(cargo => (cargo.description || '').toUpperCase());
+    const listsUn = (code: string) => descriptions.some(text => text.includes(code));
+    const hasHazmatDetection = !!(ctx.un || ctx.kemler);
+
+    if (!hasHazmatDetection) {
+        if (descriptions.some(text => /\bUN\s?\d{4}\b/.test(text))) {
+            reasons.push({ label: 'Hazmat cargo booked but no placard detected', points: -HAZMAT_POINTS / 2 });
+        }
+        return reasons;
+    }
+
+    if (appointment.terminal?.hazmat_approved === false) {
+        reasons.push({ label: 'Terminal not approved for hazmat', points: -HAZMAT_POINTS });
+    }
+    if (ctx.un && listsUn(ctx.un)) {
+        reasons.push({ label: `Cargo lists UN ${ctx.un}`, points: HAZMAT_POINTS });
+    }
+
+    const expectedState = ctx.kemler ? KEMLER_STATES[ctx.kemler.replace(/^X/, '')[0]] : undefined;
+    if (expectedState && cargos.length > 0) {
+        reasons.push(cargos.some(cargo => cargo.state === expectedState)
+            ? { label: `${expectedState} cargo matches Kemler ${ctx.kemler}`, points: HAZMAT_POINTS / 2 }
+            : { label: `No ${expectedState} cargo for Kemler ${ctx.kemler}`, points: -HAZMAT_POINTS / 2 });
+    }
+    return reasons;
+}
+
+/**
+ * Score and sort candidates, best first
+ */
+export function rankCandidates(candidates: Appointment[], ctx: MatchContext): RankedCandidate[] {
+    return candidates
+        .map((appointment) => {
+            const reasons = [
+                scorePlate(ctx, appointment),
+                scoreTime(ctx, appointment),
+                scoreGate(ctx, appointment),
+                ...scoreHazmat(ctx, appointment),
+            ].filter((reason): reason is MatchReason => reason !== null);
+            const total = reasons.reduce((sum, reason) => sum + reason.points, 0);
+            return { appointment, reasons, score: Math.max(0, Math.min(100, Math.round(total))) };
+        })
+        .sort((a, b) => b.score - a.score);
+}
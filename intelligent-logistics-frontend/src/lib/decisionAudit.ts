@@ -0,0 +1,251 @@
+/**
+ * Operator decision audit trail
+ * Joins operator decisions from the decision event log with the AI decision
+ * (and local detection record) they resolved, so every manual review can be
+ * traced back to what the system originally saw and decided.
+ */
+import { getDecisionEvents } from '@/services/decisions';
+import { REVIEW_REASONS } from '@/config/reviewReasons';
+import { getRecordDecision, queryDetections, type DetectionRecord } from './eventStore';
+import { normalizePlate } from './candidateMatching';
+import { formatHazmatCode, type NormalizedDecision } from './payloadSchema';
+import type { DecisionEvent } from '@/types/types';
+
+/** An AI decision is only linked to an operator decision made within this window */
+const JOIN_WINDOW_MS = 12 * 60 * 60 * 1000;
+/** Decision events fetched per request while paging through the log */
+const AUDIT_PAGE_SIZE = 500;
+/** Stop paging after this many requests and report the trail as incomplete */
+const AUDIT_MAX_PAGES = 40;
+/** Local detection records joined per load */
+const LOCAL_RECORD_LIMIT = 500;
+
+export interface AuditEntry {
+    id: string;
+    gateId: number;
+    licensePlate: string;
+    /** Operator decision (ACCEPTED / REJECTED) */
+    decision: string;
+    /** Epoch ms, NaN if the event had no timestamp */
+    decidedAt: number;
+    operatorId?: string;
+    operatorName?: string;
+    decisionReason?: string;
+    reasonCode?: string;
+    /** Human label of reasonCode from the review reason taxonomy */
+    reasonLabel?: string;
+    reasonNote?: string;
+    evidenceUrls: string[];
+    appointmentId?: number;
+
+    // The detection the operator resolved, when it could be joined
+    originalDecision?: string;
+    originalSource?: string;
+    originalReason?: string;
+    detectedAt?: number;
+    licenseCropUrl?: string;
+    hazardCropUrl?: string;
+    un?: string;
+    kemler?: string;
+}
+
+export interface AuditTrail {
+    /** Newest first */
+    entries: AuditEntry[];
+    /** False when the decision log could not be read to the end */
+    complete: boolean;
+}
+
+export interface AuditFilter {
+    /** Substring of the plate, any formatting */
+    plate?: string;
+    decision?: string;
+    /** Substring of the operator name or id */
+    operator?: string;
+}
+
+// What an operator decision is joined against
+interface OriginalDecision {
+    plate: string;
+    gateId: number;
+    timestamp: number;
+    decision: string;
+    source?: string;
+    reason?: string;
+    licenseCropUrl?: string;
+    hazardCropUrl?: string;
+    un?: string;
+    kemler?: string;
+}
+
+function isOperatorDecision(event: DecisionEvent): boolean {
+    return (event.decision_source || '').toLowerCase() === 'operator';
+}
+
+function eventTime(event: DecisionEvent): number {
+    return event.timestamp ? Date.parse(event.timestamp) : NaN;
+}
+
+function fromEvent(event: DecisionEvent): OriginalDecision {
+    return {
+        plate: normalizePlate(event.license_plate),
+        gateId: event.gate_id,
+        timestamp: eventTime(event),
+        decision: (event.decision || '').toUpperCase(),
+        source: event.decision_source || undefined,
+        reason: event.decision_reason || undefined,
+        licenseCropUrl: event.license_crop_url || undefined,
+        hazardCropUrl: event.hazard_crop_url || undefined,
+        un: event.un || undefined,
+        kemler: event.kemler || undefined,
+    };
+}
+
+function fromRecord(record: DetectionRecord, decision: NormalizedDecision): OriginalDecision {
+    return {
+        plate: normalizePlate(decision.licensePlate),
+        gateId: record.gateId,
+        timestamp: decision.timestampMs,
+        decision: decision.decision,
+        source: decision.decisionSource,
+        reason: decision.decisionReason || undefined,
+        licenseCropUrl: decision.licenseCropUrl,
+        hazardCropUrl: decision.hazardCropUrl,
+        un: formatHazmatCode(decision.un),
+        kemler: formatHazmatCode(decision.kemler),
+    };
+}
+
+/**
+ * Latest AI decision for the same plate and gate at or before the operator decision
+ */
+function findOriginal(event: DecisionEvent, originals: OriginalDecision[]): OriginalDecision | undefined {
+    const plate = normalizePlate(event.license_plate);
+    const decidedAt = eventTime(event);
+    let best: OriginalDecision | undefined;
+
+    for (const original of originals) {
+        if (original.plate !== plate || original.gateId !== event.gate_id) continue;
+        if (!Number.isNaN(decidedAt)) {
+            const delta = decidedAt - original.timestamp;
+            if (delta < 0 || delta > JOIN_WINDOW_MS) continue;
+        }
+        if (!best || original.timestamp > best.timestamp) best = original;
+    }
+    return best;
+}
+
+/**
+ * Build audit entries (newest first) from decision events and local detection records.
+ * Server events take precedence; local records fill in crops the server did not keep.
+ */
+export function buildAuditTrail(events: DecisionEvent[], records: DetectionRecord[] = []): AuditEntry[] {
+    const serverOriginals = events.filter(event => !isOperatorDecision(event)).map(fromEvent);
+    const localOriginals = records.flatMap((record) => {
+        const decision = getRecordDecision(record);
+        return decision && decision.decisionSource !== 'operator' ? [fromRecord(record, decision)] : [];
+    });
+
+    return events
+        .filter(isOperatorDecision)
+        .map((event, index) => {
+            const server = findOriginal(event, serverOriginals);
+            const local = findOriginal(event, localOriginals);
+            const original = server || local;
+            const reasonCode = event.reason_code || undefined;
+
+            return {
+                id: event._id || `${event.gate_id}-${event.timestamp || index}-${event.license_plate}`,
+                gateId: event.gate_id,
+                licensePlate: (event.license_plate || '').toUpperCase(),
+                decision: (event.decision || '').toUpperCase(),
+                decidedAt: eventTime(event),
+                operatorId: event.operator_id || undefined,
+                operatorName: event.operator_name || undefined,
+                decisionReason: event.decision_reason || undefined,
+                reasonCode,
+                reasonLabel: REVIEW_REASONS.find(reason => reason.code === reasonCode)?.label,
+                reasonNote: event.reason_note || undefined,
+                evidenceUrls: event.evidence_urls || [],
+                appointmentId: event.appointment_id,
+                originalDecision: original?.decision,
+                originalSource: original?.source,
+                originalReason: original?.reason,
+                detectedAt: original?.timestamp,
+                licenseCropUrl: event.license_crop_url || original?.licenseCropUrl || local?.licenseCropUrl,
+                hazardCropUrl: event.hazard_crop_url || original?.hazardCropUrl || local?.hazardCropUrl,
+                un: event.un || original?.un,
+                kemler: event.kemler || original?.kemler,
+            };
+        })
+        .sort((a, b) => (b.decidedAt || 0) - (a.decidedAt || 0));
+}
+
+function eventKey(event: DecisionEvent): string {
+    return event._id || `${event.gate_id}|${event.timestamp}|${event.license_plate}|${event.decision}`;
+}
+
+/**
+ * Page through the decision log with `skip` until a short page. A page that adds
+ * nothing new means the server ignored `skip`, so the log is reported incomplete.
+ */
+async function fetchAllDecisionEvents(gateId?: number): Promise<{ events: DecisionEvent[]; complete: boolean }> {
+    const events: DecisionEvent[] = [];
+    const seen = new Set<string>();
+
+    for (let page = 0; page < AUDIT_MAX_PAGES; page++) {
+        const batch = await getDecisionEvents({ gate_id: gateId, limit: AUDIT_PAGE_SIZE, skip: page * AUDIT_PAGE_SIZE });
+        const fresh = batch.filter(event => !seen.has(eventKey(event)));
+        if (page > 0 && batch.length > 0 && fresh.length === 0) {
+            return { events, complete: false };
+        }
+        fresh.forEach(event => seen.add(eventKey(event)));
+        events.push(...fresh);
+        if (batch.length < AUDIT_PAGE_SIZE) return { events, complete: true };
+    }
+    return { events, complete: false };
+}
+
+/**
+ * Fetch operator decisions and join them with what they resolved.
+ * Omit gateId to audit every gate.
+ */
+export async function loadAuditTrail(gateId?: number): Promise<AuditTrail> {
+    const [{ events, complete }, records] = await Promise.all([
+        fetchAllDecisionEvents(gateId),
+        // Local history is best-effort; the server log is the source of truth
+        queryDetections({ gateId, limit: LOCAL_RECORD_LIMIT }).catch((e) => {
+            console.warn('[Audit] Local detection history unavailable:', e);
+            return [] as DetectionRecord[];
+        }),
+    ]);
+    return { entries: buildAuditTrail(events, records), complete };
+}
+
+export function filterAuditTrail(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+    const plate = normalizePlate(filter.plate);
+    const operator = (filter.operator || '').trim().toLowerCase();
+    const decision = (filter.decision || '').toUpperCase();
+
+    return entries.filter((entry) => {
+        if (plate && !normalizePlate(entry.licensePlate).includes(plate)) return false;
+        if (decision && decision !== 'ALL' && entry.decision !== decision) return false;
+        if (operator) {
+            const who = `${entry.operatorName || ''} ${entry.operatorId || ''}`.toLowerCase();
+            if (!who.includes(operator)) return false;
+        }
+        return true;
+    });
+}
+
+/**
+ * Distinct operators in the trail, for the operator filter
+ */
+export function getAuditOperators(entries: AuditEntry[]): string[] {
+    const names = new Set<string>();
+    entries.forEach((entry) => {
+        const name = entry.operatorName || entry.operatorId;
+        if (name) names.add(name);
+    });
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
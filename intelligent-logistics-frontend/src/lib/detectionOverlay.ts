@@ -0,0 +1,144 @@
+/**
+ * Detection overlay data
+ * Turns decision payloads into short-lived overlay items drawn over the live
+ * feed by HLSPlayer: plate, hazmat codes, decision colour and, when the agents
+ * send them in the payload's extra fields, bounding boxes.
+ */
+import type { NormalizedDecision } from './payloadSchema';
+
+/** How long an item stays on screen after its timestamp */
+export const OVERLAY_DURATION_MS = 4000;
+/** Items kept for replay (older ones fall out of the DVR buffer anyway) */
+export const MAX_OVERLAY_ITEMS = 20;
+
+export const DECISION_COLORS: Record<string, string> = {
+    ACCEPTED: '#22c55e',
+    REJECTED: '#ef4444',
+    MANUAL_REVIEW: '#f59e0b',
+};
+const DEFAULT_COLOR = '#3b82f6';
+
+/** Corner coordinates, in pixels of the source frame or normalised 0-1 */
+export interface OverlayBox {
+    label?: string;
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    normalized: boolean;
+}
+
+export interface OverlayItem {
+    id: string;
+    /** Epoch ms of the detection */
+    timestamp: number;
+    /** Epoch ms when the payload arrived, for payloads that arrive after the moment has played */
+    receivedAt: number;
+    plate: string;
+    un?: string;
+    kemler?: string;
+    decision: string;
+    boxes: OverlayBox[];
+    /** Source frame size the pixel boxes refer to, when the payload says */
+    frameWidth?: number;
+    frameHeight?: number;
+}
+
+// Extra payload fields that may hold boxes, with the label to use when the box has none
+const LIST_KEYS = ['bounding_boxes', 'bboxes', 'boxes', 'detections'];
+const SINGLE_KEYS: Record<string, string | undefined> = {
+    bbox: undefined,
+    license_bbox: 'Plate',
+    plate_bbox: 'Plate',
+    lp_bbox: 'Plate',
+    hazard_bbox: 'Hazmat',
+    hz_bbox: 'Hazmat',
+};
+
+function num(value: unknown): number | undefined {
+    const n = typeof value === 'string' ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse one box: [x1, y1, x2, y2], {x1, y1, x2, y2}, {left, top, right, bottom}
+ * or {x, y, width|w, height|h}. Returns null for anything else.
+ */
+function toBox(value: unknown, fallbackLabel?: string): OverlayBox | null {
+    let corners: (number | undefined)[] = [];
+    let label = fallbackLabel;
+
+    if (Array.isArray(value)) {
+        corners = value.slice(0, 4).map(num);
+    } else if (value && typeof value === 'object') {
+        const v = value as Record<string, unknown>;
+        const boxLabel = v.label ?? v.class ?? v.name;
+        if (typeof boxLabel === 'string' && boxLabel) label = boxLabel;
+
+        // Boxes may be nested, e.g. { label, bbox: [...] }
+        const nested = v.bbox ?? v.box;
+        if (nested) return toBox(nested, label);
+
+        if (v.x1 !== undefined) {
+            corners = [num(v.x1), num(v.y1), num(v.x2), num(v.y2)];
+        } else if (v.left !== undefined) {
+            corners = [num(v.left), num(v.top), num(v.right), num(v.bottom)];
+        } else if (v.x !== undefined) {
+            const x = num(v.x);
+            const y = num(v.y);
+            const w = num(v.width ?? v.w);
+            const h = num(v.height ?? v.h);
+            corners = x !== undefined && y !== undefined && w !== undefined && h !== undefined
+                ? [x, y, x + w, y + h]
+                : [];
+        }
+    }
+
+    if (corners.length !== 4 || corners.some(c => c === undefined)) return null;
+    const [x1, y1, x2, y2] = corners as number[];
+    if (x2 <= x1 || y2 <= y1) return null;
+    return { label, x1, y1, x2, y2, normalized: Math.max(x1, y1, x2, y2) <= 1 };
+}
+
+/**
+ * Collect every bounding box found in a payload's extra fields
+ */
+export function parseBoundingBoxes(raw: Record<string, unknown>): OverlayBox[] {
+    const boxes: OverlayBox[] = [];
+
+    LIST_KEYS.forEach((key) => {
+        const list = raw[key];
+        if (Array.isArray(list)) {
+            list.forEach((item) => {
+                const box = toBox(item);
+                if (box) boxes.push(box);
+            });
+        }
+    });
+    Object.entries(SINGLE_KEYS).forEach(([key, label]) => {
+        const box = raw[key] !== undefined ? toBox(raw[key], label) : null;
+        if (box) boxes.push(box);
+    });
+
+    return boxes;
+}
+
+export function buildOverlayItem(decision: NormalizedDecision, receivedAt: number = Date.now()): OverlayItem {
+    const raw = decision.raw as Record<string, unknown>;
+    return {
+        id: `${decision.timestampMs}-${decision.licensePlate}`,
+        timestamp: decision.timestampMs,
+        receivedAt,
+        plate: decision.licensePlate || 'N/A',
+        un: decision.un?.code,
+        kemler: decision.kemler?.code,
+        decision: decision.decision,
+        boxes: parseBoundingBoxes(raw),
+        frameWidth: num(raw.frame_width ?? raw.image_width),
+        frameHeight: num(raw.frame_height ?? raw.image_height),
+    };
+}
+
+export function getDecisionColor(decision: string): string {
+    return DECISION_COLORS[decision] || DEFAULT_COLOR;
+}
@@ -0,0 +1,329 @@
+/**
+ * Detection event store
+ * Persists every decision payload received from the gate WebSocket in IndexedDB
+ * so the Dashboard, header notifications and AlertsPage share one history
+ * that survives reloads and covers a whole shift.
+ */
+import { toEpochMs, validateDecisionPayload, type NormalizedDecision } from './payloadSchema';
+import type { DecisionUpdatePayload } from './websocket';
+
+const DB_NAME = 'intelligent-logistics';
+const DB_VERSION = 1;
+const STORE_NAME = 'detection_events';
+const CHANNEL_NAME = 'detection-event-store';
+/** Key of the localStorage bus this store replaces (imported once, then removed) */
+const LEGACY_STORAGE_KEY = 'ws_payloads';
+
+export interface DetectionRecord {
+    id: string;
+    gateId: number;
+    /** Epoch ms of the detection (payload timestamp, or receive time if missing) */
+    timestamp: number;
+    /** Epoch ms when this client stored the payload */
+    receivedAt: number;
+    /** Upper-cased plate, indexed for lookups */
+    licensePlate: string;
+    /** Upper-cased decision (ACCEPTED, REJECTED, MANUAL_REVIEW) */
+    decision: string;
+    /** Replayed from event history after a reconnect rather than received live */
+    recovered: boolean;
+    payload: DecisionUpdatePayload;
+    /** Validated decision, stored next to the raw payload; missing on records stored before it was kept */
+    normalized?: NormalizedDecision;
+}
+
+export interface DetectionQuery {
+    gateId?: number;
+    /** Case-insensitive substring match on the plate */
+    licensePlate?: string;
+    decision?: string;
+    /** Epoch ms, inclusive */
+    from?: number;
+    /** Epoch ms, inclusive */
+    to?: number;
+    /** Max records returned, newest first (default 100) */
+    limit?: number;
+}
+
+export interface RetentionPolicy {
+    /** Records older than this are pruned */
+    maxAgeMs: number;
+    /** Only the newest maxCount records are kept */
+    maxCount: number;
+}
+
+export type StoreChange =
+    | { type: 'added'; record: DetectionRecord }
+    | { type: 'deleted'; id: string }
+    | { type: 'cleared'; gateId?: number };
+
+type ChangeListener = (change: StoreChange) => void;
+
+let retention: RetentionPolicy = {
+    maxAgeMs: 24 * 60 * 60 * 1000,
+    maxCount: 5000,
+};
+
+const listeners: Set<ChangeListener> = new Set();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let channel: BroadcastChannel | null = null;
+let idCounter = 0;
+
+// ==================== INTERNALS ====================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                    store.createIndex('gate_timestamp', ['gateId', 'timestamp']);
+                    store.createIndex('timestamp', 'timestamp');
+                    store.createIndex('licensePlate', 'licensePlate');
+                    store.createIndex('decision', 'decision');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async (db) => {
+            await importLegacyPayloads(db);
+            return db;
+        });
+        dbPromise.catch(() => {
+            // Allow a later call to retry (e.g. private mode quota errors)
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * One-time import of the old localStorage['ws_payloads'] bus
+ */
+async function importLegacyPayloads(db: IDBDatabase): Promise<void> {
+    let legacy: Array<{ id?: string; timestamp?: string; data?: DecisionUpdatePayload; recovered?: boolean }>;
+    try {
+        const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!saved) return;
+        legacy = JSON.parse(saved);
+    } catch {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return;
+    }
+
+    const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+    const gateId = Number(userInfo.gate_id || 1);
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const entry of legacy) {
+        if (!entry?.data) continue;
+        const receivedAt = toEpochMs(entry.timestamp) ?? Date.now();
+        const result = validateDecisionPayload(entry.data, receivedAt);
+        if (result.ok) store.put(buildRecord(gateId, result.value, !!entry.recovered, receivedAt));
+    }
+    await transactionDone(tx);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+function buildRecord(
+    gateId: number,
+    decision: NormalizedDecision,
+    recovered: boolean,
+    receivedAt: number = Date.now()
+): DetectionRecord {
+    idCounter += 1;
+    const timestamp = decision.timestampMs;
+    return {
+        id: `${gateId}-${timestamp}-${receivedAt}-${idCounter}`,
+        gateId,
+        timestamp,
+        receivedAt,
+        licensePlate: decision.licensePlate.toUpperCase(),
+        decision: decision.decision,
+        recovered,
+        payload: decision.raw,
+        normalized: decision,
+    };
+}
+
+function getChannel(): BroadcastChannel | null {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    // Changes made by other tabs are re-emitted to this tab's listeners
+    channel.onmessage = (event: MessageEvent<StoreChange>) => {
+        listeners.forEach(listener => listener(event.data));
+    };
+    return channel;
+}
+
+function emit(change: StoreChange): void {
+    listeners.forEach(listener => listener(change));
+    getChannel()?.postMessage(change);
+}
+
+/**
+ * Delete records past the age limit, then the oldest ones past the count limit
+ */
+async function prune(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const index = tx.objectStore(STORE_NAME).index('timestamp');
+    const cutoff = Date.now() - retention.maxAgeMs;
+
+    const total = await requestToPromise(index.count());
+    const expired = await requestToPromise(index.count(IDBKeyRange.upperBound(cutoff, true)));
+    let excess = Math.max(expired, total - retention.maxCount);
+
+    if (excess > 0) {
+        await new Promise<void>((resolve, reject) => {
+            const request = index.openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor || excess <= 0) {
+                    resolve();
+                    return;
+                }
+                cursor.delete();
+                excess -= 1;
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+    await transactionDone(tx);
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Override the default retention (24h / 5000 records)
+ */
+export function configureRetention(policy: Partial<RetentionPolicy>): void {
+    retention = { ...retention, ...policy };
+}
+
+/**
+ * Store a decision received for a gate and notify subscribers in every tab
+ */
+export async function addDetection(
+    gateId: number,
+    decision: NormalizedDecision,
+    options: { recovered?: boolean } = {}
+): Promise<DetectionRecord> {
+    const record = buildRecord(gateId, decision, !!options.recovered);
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).put(record);
+    await transactionDone(tx);
+
+    emit({ type: 'added', record });
+
+    prune().catch(err => console.warn('[EventStore] Failed to prune:', err));
+    return record;
+}
+
+/**
+ * A record's validated decision. Records stored before decisions were kept
+ * are validated here; null if their payload is invalid.
+ */
+export function getRecordDecision(record: DetectionRecord): NormalizedDecision | null {
+    if (record.normalized) return record.normalized;
+    const result = validateDecisionPayload(record.payload, record.receivedAt);
+    return result.ok ? result.value : null;
+}
+
+/**
+ * Query stored detections, newest first
+ */
+export async function queryDetections(query: DetectionQuery = {}): Promise<DetectionRecord[]> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const limit = query.limit ?? 100;
+    const from = query.from ?? 0;
+    const to = query.to ?? Number.MAX_SAFE_INTEGER;
+    const plate = query.licensePlate?.trim().toUpperCase();
+    const decision = query.decision?.toUpperCase();
+
+    const request = query.gateId !== undefined
+        ? store.index('gate_timestamp').openCursor(
+            IDBKeyRange.bound([query.gateId, from], [query.gateId, to]), 'prev')
+        : store.index('timestamp').openCursor(IDBKeyRange.bound(from, to), 'prev');
+
+    return new Promise((resolve, reject) => {
+        const results: DetectionRecord[] = [];
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || results.length >= limit) {
+                resolve(results);
+                return;
+            }
+            const record = cursor.value as DetectionRecord;
+            const matches = (!plate || record.licensePlate.includes(plate))
+                && (!decision || record.decision === decision);
+            if (matches) results.push(record);
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Delete one stored detection
+ */
+export async function deleteDetection(id: string): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    await transactionDone(tx);
+    emit({ type: 'deleted', id });
+}
+
+/**
+ * Delete all stored detections, or only those of one gate
+ */
+export async function clearDetections(gateId?: number): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    if (gateId === undefined) {
+        store.clear();
+    } else {
+        const request = store.index('gate_timestamp')
+            .openCursor(IDBKeyRange.bound([gateId, 0], [gateId, Number.MAX_SAFE_INTEGER]));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            cursor.delete();
+            cursor.continue();
+        };
+    }
+    await transactionDone(tx);
+    emit({ type: 'cleared', gateId });
+}
+
+/**
+ * Subscribe to store changes from this and other tabs
+ */
+export function subscribeDetections(listener: ChangeListener): () => void {
+    getChannel();
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
@@ -0,0 +1,73 @@
+/**
+ * Frame capture from live HLS players
+ * HLSPlayer registers its <video> element under a key (e.g. "gate1") so other
+ * components, like the manual review modal, can grab the current frame as
+ * evidence without holding a reference to the player.
+ */
+
+export interface CapturedFrame {
+    /** PNG data URL of the frame */
+    dataUrl: string;
+    width: number;
+    height: number;
+    /** Epoch ms when the frame was grabbed */
+    capturedAt: number;
+    /** Registry key of the player it came from */
+    source: string;
+}
+
+const sources: Map<string, HTMLVideoElement> = new Map();
+
+/**
+ * Make a player's video element available for capture; returns the unregister function
+ */
+export function registerVideoSource(key: string, video: HTMLVideoElement): () => void {
+    sources.set(key, video);
+    return () => {
+        if (sources.get(key) === video) sources.delete(key);
+    };
+}
+
+/**
+ * Whether any player is available to capture from
+ */
+export function hasVideoSource(key?: string): boolean {
+    return key ? sources.has(key) : sources.size > 0;
+}
+
+/**
+ * Grab the current frame from the player registered under key
+ * (or the first registered player). Returns null when nothing is playing.
+ */
+export function captureFrame(key?: string): CapturedFrame | null {
+    const entry = (key && sources.has(key))
+        ? [key, sources.get(key)!] as const
+        : sources.entries().next().value;
+    if (!entry) return null;
+
+    const [source, video] = entry;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) {
+        return null;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    try {
+        return {
+            dataUrl: canvas.toDataURL('image/png'),
+            width: canvas.width,
+            height: canvas.height,
+            capturedAt: Date.now(),
+            source,
+        };
+    } catch (err) {
+        // A cross-origin stream without CORS headers taints the canvas
+        console.warn('[FrameCapture] Frame could not be exported:', err);
+        return null;
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * Gap recovery for the gate WebSocket
+ * Rebuilds the DecisionUpdatePayloads broadcast while the socket was down
+ * from the decision/detection event history stored in MongoDB. The history
+ * endpoints only return the newest events, so they are paged backwards until
+ * the start of the gap; when that takes too many pages the result is marked
+ * incomplete rather than silently dropping the oldest decisions.
+ */
+import { getDecisionEvents, getDetectionEvents } from '@/services/decisions';
+import type { DecisionEvent, DetectionEvent } from '@/types/types';
+import { toEpochMs } from './payloadSchema';
+import type { DecisionUpdatePayload } from './websocket';
+
+/** Max events requested per history query */
+const RECOVERY_QUERY_LIMIT = 100;
+/** Pages read per event type before recovery gives up on reaching the gap start */
+const RECOVERY_MAX_PAGES = 10;
+/** A detection is joined to a decision for the same plate if it happened this long before it */
+const DETECTION_JOIN_WINDOW_MS = 60000;
+
+export interface RecoveryWindow {
+    /** Epoch ms of the last message seen before the gap (exclusive) */
+    since: number;
+    /** Epoch ms when the socket came back (inclusive) */
+    until: number;
+}
+
+export interface RecoveryResult {
+    /** Decisions made inside the window, oldest first */
+    payloads: DecisionUpdatePayload[];
+    /** False when the history could not be read back to the window start */
+    complete: boolean;
+    /** Epoch ms the decision history was read back to; older decisions may be missing */
+    coveredSince: number;
+}
+
+interface TimedEvent<T> {
+    event: T;
+    ms: number;
+}
+
+function inWindow(ms: number | null, window: RecoveryWindow): ms is number {
+    return ms !== null && ms > window.since && ms <= window.until;
+}
+
+/**
+ * Page backwards through an event history (newest first) until an event at or
+ * before `since` shows up or the history runs out
+ */
+async function fetchEventsSince<T extends { timestamp?: string | null }>(
+    fetchPage: (skip: number) => Promise<T[]>,
+    since: number
+): Promise<{ events: TimedEvent<T>[]; complete: boolean; oldest: number | null }> {
+    const events: TimedEvent<T>[] = [];
+    let oldest: number | null = null;
+
+    for (let page = 0; page < RECOVERY_MAX_PAGES; page++) {
+        const batch = await fetchPage(page * RECOVERY_QUERY_LIMIT);
+        const timed = batch
+            .map(event => ({ event, ms: toEpochMs(event.timestamp) }))
+            .filter((e): e is TimedEvent<T> => e.ms !== null);
+        const batchOldest = timed.reduce<number | null>((min, e) => (min === null || e.ms < min ? e.ms : min), null);
+
+        // A page that reaches no further back means the server ignored `skip`
+        if (page > 0 && (batchOldest === null || (oldest !== null && batchOldest >= oldest))) {
+            return { events, complete: false, oldest };
+        }
+
+        events.push(...timed);
+        if (batchOldest !== null) oldest = oldest === null ? batchOldest : Math.min(oldest, batchOldest);
+
+        if (batch.length < RECOVERY_QUERY_LIMIT || (oldest !== null && oldest <= since)) {
+            return { events, complete: true, oldest };
+        }
+    }
+
+    return { events, complete: false, oldest };
+}
+
+/**
+ * Pick a string field from a detection's raw_data, if present
+ */
+export function rawField(detection: DetectionEvent | undefined, key: string): string | undefined {
+    const raw = detection?.raw_data as Record<string, unknown> | null | undefined;
+    const value = raw?.[key];
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Find the latest detection for the decision's plate that preceded it
+ */
+function findDetection(
+    decision: DecisionEvent,
+    decisionMs: number,
+    detections: Array<{ event: DetectionEvent; ms: number }>
+): DetectionEvent | undefined {
+    const plate = decision.license_plate?.toUpperCase();
+    let best: { event: DetectionEvent; ms: number } | undefined;
+    for (const candidate of detections) {
+        if (candidate.event.license_plate?.toUpperCase() !== plate) continue;
+        const delta = decisionMs - candidate.ms;
+        if (delta < 0 || delta > DETECTION_JOIN_WINDOW_MS) continue;
+        if (!best || candidate.ms > best.ms) best = candidate;
+    }
+    return best?.event;
+}
+
+function toPayload(decision: DecisionEvent, decisionMs: number, detection?: DetectionEvent): DecisionUpdatePayload {
+    return {
+        message_type: 'decision_results',
+        timestamp: decisionMs / 1000,
+        license_plate: decision.license_plate,
+        license_crop_url: decision.license_crop_url || rawField(detection, 'license_crop_url'),
+        un: decision.un || rawField(detection, 'un'),
+        kemler: decision.kemler || rawField(detection, 'kemler'),
+        hazard_crop_url: decision.hazard_crop_url || rawField(detection, 'hazard_crop_url'),
+        decision: decision.decision,
+        decision_reason: decision.decision_reason ?? '',
+        decision_source: decision.decision_source ?? 'automated',
+        alerts: decision.alerts ?? [],
+        route: decision.route ?? undefined,
+        truck_id: decision.truck_id ?? undefined,
+    };
+}
+
+/**
+ * Fetch the decisions made for a gate inside the window, enriched with the
+ * crops and hazmat codes of their detections, oldest first.
+ */
+export async function fetchMissedPayloads(
+    gateId: string | number,
+    window: RecoveryWindow
+): Promise<RecoveryResult> {
+    const gate = Number(gateId);
+    const [decisions, detections] = await Promise.all([
+        fetchEventsSince(
+            skip => getDecisionEvents({ gate_id: gate, limit: RECOVERY_QUERY_LIMIT, skip }),
+            window.since
+        ),
+        // Detections only add crops, so a short read here does not make recovery partial
+        fetchEventsSince(
+            skip => getDetectionEvents({ gate_id: gate, limit: RECOVERY_QUERY_LIMIT, skip }),
+            window.since - DETECTION_JOIN_WINDOW_MS
+        ).catch((err) => {
+            // Decisions alone are still worth replaying without crops
+            console.warn('[WS] Failed to fetch detection events for recovery:', err);
+            return { events: [] as TimedEvent<DetectionEvent>[] };
+        }),
+    ]);
+
+    const payloads = decisions.events
+        .filter(d => inWindow(d.ms, window))
+        .sort((a, b) => a.ms - b.ms)
+        .map(({ event, ms }) => toPayload(event, ms, findDetection(event, ms, detections.events)));
+
+    return {
+        payloads,
+        complete: decisions.complete,
+        coveredSince: decisions.complete ? window.since : Math.max(window.since, decisions.oldest ?? window.until),
+    };
+}
@@ -0,0 +1,157 @@
+/**
+ * Hazmat compatibility checks
+ * Resolves detected UN/Kemler codes against the ADR reference data and
+ * cross-checks them with the truck's appointment: the terminal must be
+ * hazmat-approved, the declared cargo's physical state must fit the hazard
+ * class, and the detected substance must be the one declared on the booking.
+ */
+import { queryArrivalsByLicensePlate } from '@/services/arrivals';
+import { TERMINAL_STATUSES } from '@shared/appointmentStatus';
+import {
+    findAdrCode,
+    findKemlerCode,
+    loadHazmatReference,
+    normalizeKemler,
+    normalizeUn,
+    type HazmatReferenceData,
+} from './hazmatReference';
+import type { Appointment, Cargo, PhysicalStateEnum } from '@/types/types';
+
+export type HazmatIssueCode =
+    | 'UNKNOWN_UN'
+    | 'UNKNOWN_KEMLER'
+    | 'TERMINAL_NOT_APPROVED'
+    | 'STATE_MISMATCH'
+    | 'CARGO_MISMATCH'
+    | 'NO_DECLARED_CARGO'
+    | 'NO_APPOINTMENT'
+    | 'LOOKUP_FAILED';
+
+export interface HazmatIssue {
+    code: HazmatIssueCode;
+    message: string;
+}
+
+export interface HazmatCheckResult {
+    un?: string;
+    unName?: string;
+    kemler?: string;
+    kemlerDescription?: string;
+    appointment: Appointment | null;
+    issues: HazmatIssue[];
+}
+
+/** Physical states each primary hazard class can be carried in */
+const HAZARD_STATES: Record<string, PhysicalStateEnum[]> = {
+    '2': ['gaseous'],
+    '3': ['liquid'],
+    '4': ['solid'],
+};
+
+// ==================== CHECKS ====================
+
+function cargoMentions(cargo: Cargo, un: string, unName?: string): boolean {
+    const description = (cargo.description || '').toLowerCase();
+    if (!description) return false;
+    if (new RegExp(`\\b(un\\s*)?${un}\\b`, 'i').test(description)) return true;
+    return !!unName && description.includes(unName.toLowerCase());
+}
+
+/**
+ * Cross-check detected codes with the appointment. Pure: the reference data
+ * and appointment are passed in; lookupFailed means the appointment could not
+ * be looked up, rather than that there is none.
+ */
+export function checkHazmat(
+    detected: { un?: string; kemler?: string },
+    appointment: Appointment | null,
+    ref: HazmatReferenceData,
+    lookupFailed: boolean = false
+): HazmatCheckResult {
+    const un = normalizeUn(detected.un) || undefined;
+    const kemler = normalizeKemler(detected.kemler) || undefined;
+    const adr = un ? findAdrCode(ref, un) : undefined;
+    const result: HazmatCheckResult = {
+        un,
+        unName: adr?.name,
+        kemler,
+        kemlerDescription: kemler ? findKemlerCode(ref, kemler)?.description : undefined,
+        appointment,
+        issues: [],
+    };
+    const issues = result.issues;
+
+    // Unknown codes are only flagged when there was reference data to look them up in
+    if (un && ref.adr.length > 0 && !adr) {
+        issues.push({ code: 'UNKNOWN_UN', message: `UN ${un} is not in the ADR reference list` });
+    }
+    if (kemler && ref.kemler.length > 0 && result.kemlerDescription === undefined) {
+        issues.push({ code: 'UNKNOWN_KEMLER', message: `Kemler code ${kemler} is not a valid hazard identification number` });
+    }
+
+    if (!appointment) {
+        issues.push(lookupFailed
+            ? { code: 'LOOKUP_FAILED', message: 'Could not look up the appointment; the cargo was not checked' }
+            : { code: 'NO_APPOINTMENT', message: 'No active appointment found for this truck' });
+        return result;
+    }
+
+    if (!appointment.terminal?.hazmat_approved) {
+        const name = appointment.terminal?.name || `Terminal ${appointment.terminal_id}`;
+        issues.push({ code: 'TERMINAL_NOT_APPROVED', message: `${name} is not approved for dangerous goods` });
+    }
+
+    const cargos = appointment.booking?.cargos || [];
+    if (cargos.length === 0) {
+        issues.push({ code: 'NO_DECLARED_CARGO', message: 'The booking declares no cargo, but the truck carries dangerous goods' });
+        return result;
+    }
+
+    // The ADR class wins; otherwise the Kemler number's first digit (after any X prefix)
+    const hazardClass = adr?.hazard_class?.charAt(0) || kemler?.replace(/^X/, '').charAt(0);
+    const allowedStates = hazardClass ? HAZARD_STATES[hazardClass] : undefined;
+    if (allowedStates && !cargos.some(cargo => cargo.state === 'hybrid' || allowedStates.includes(cargo.state))) {
+        issues.push({
+            code: 'STATE_MISMATCH',
+            message: `${adr?.hazard_class ? `Class ${adr.hazard_class}` : `Kemler ${kemler}`} indicates a ${allowedStates.join('/')} hazard, but the cargo is declared ${cargos.map(c => c.state).join(', ')}`,
+        });
+    }
+
+    if (un && !cargos.some(cargo => cargoMentions(cargo, un, result.unName))) {
+        issues.push({
+            code: 'CARGO_MISMATCH',
+            message: `Detected UN ${un}${result.unName ? ` (${result.unName})` : ''} does not match the declared cargo`,
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Active appointment for the plate, closest to its scheduled time
+ */
+export async function findActiveAppointment(licensePlate: string, now: number = Date.now()): Promise<Appointment | null> {
+    const appointments = await queryArrivalsByLicensePlate(licensePlate);
+    const active = appointments.filter(a => !TERMINAL_STATUSES.includes(a.status));
+    const distance = (a: Appointment) =>
+        a.scheduled_start_time ? Math.abs(Date.parse(a.scheduled_start_time) - now) : Infinity;
+    return active.sort((a, b) => distance(a) - distance(b))[0] ?? null;
+}
+
+/**
+ * Resolve codes and check a detection against its truck's appointment
+ */
+export async function runHazmatCheck(licensePlate: string, un?: string, kemler?: string): Promise<HazmatCheckResult> {
+    let lookupFailed = false;
+    const [ref, appointment] = await Promise.all([
+        loadHazmatReference(),
+        licensePlate
+            ? findActiveAppointment(licensePlate).catch((err) => {
+                console.warn('[Hazmat] Appointment lookup failed:', err);
+                lookupFailed = true;
+                return null;
+            })
+            : Promise.resolve(null),
+    ]);
+    return checkHazmat({ un, kemler }, appointment, ref, lookupFailed);
+}
@@ -0,0 +1,201 @@
+/**
+ * ADR / Kemler reference data
+ * Dangerous goods (UN numbers) and hazard identification (Kemler) numbers from
+ * the alerts reference endpoints, cached in localStorage so the gate can still
+ * look codes up during an outage. Kemler numbers are also decoded digit by
+ * digit, so a code missing from the list is still readable.
+ */
+import { getAdrCodes, getKemlerCodes } from '@/services/alerts';
+import type { AdrCode, KemlerCode } from '@/types/types';
+
+export type ReferenceSource = 'api' | 'cache' | 'none';
+
+export interface HazmatReferenceData {
+    adr: AdrCode[];
+    kemler: KemlerCode[];
+    /** Epoch ms the data was fetched from the API, null if never */
+    fetchedAt: number | null;
+    source: ReferenceSource;
+}
+
+export interface KemlerDigit {
+    digit: string;
+    meaning: string;
+}
+
+export interface KemlerDecoding {
+    code: string;
+    /** Substance reacts dangerously with water (X prefix) */
+    reactsWithWater: boolean;
+    digits: KemlerDigit[];
+    /** Description from the reference list, when the code is in it */
+    description?: string;
+}
+
+export interface EmergencyCard {
+    title: string;
+    /** Primary ADR class the card applies to */
+    hazardClass: string;
+    actions: string[];
+    ergGuide?: string;
+}
+
+const CACHE_KEY = 'hazmat_reference_cache';
+
+/** ADR 5.3.2.3: meaning of each digit of a hazard identification number */
+const KEMLER_DIGITS: Record<string, string> = {
+    '0': 'No secondary hazard',
+    '1': 'Explosive',
+    '2': 'Emission of gas due to pressure or chemical reaction',
+    '3': 'Flammable liquid (vapours) or gas, or self-heating liquid',
+    '4': 'Flammable solid or self-heating solid',
+    '5': 'Oxidizing (fire-intensifying) effect',
+    '6': 'Toxic or risk of infection',
+    '7': 'Radioactive',
+    '8': 'Corrosive',
+    '9': 'Risk of spontaneous violent reaction',
+};
+
+/** Generic first-response actions per primary hazard class */
+const EMERGENCY_ACTIONS: Record<string, { title: string; actions: string[] }> = {
+    '1': {
+        title: 'Explosives',
+        actions: ['Stop the truck away from buildings and other vehicles', 'Evacuate at least 500 m and keep people out', 'Do not fight a fire reaching the cargo; withdraw', 'Call emergency services (112)'],
+    },
+    '2': {
+        title: 'Gases',
+        actions: ['Keep upwind and out of low areas', 'Eliminate ignition sources', 'Do not touch frosted or leaking containers', 'Evacuate 100 m around a leak; call emergency services (112)'],
+    },
+    '3': {
+        title: 'Flammable liquids',
+        actions: ['Eliminate all ignition sources; no smoking', 'Stop the leak if safe and contain the spill away from drains', 'Keep upwind; evacuate 50 m around a spill', 'Use foam or dry powder, not a water jet; call emergency services (112)'],
+    },
+    '4': {
+        title: 'Flammable solids',
+        actions: ['Keep the cargo dry; water may worsen some substances', 'Eliminate ignition sources', 'Cover spills with dry sand or earth', 'Call emergency services (112)'],
+    },
+    '5': {
+        title: 'Oxidizers',
+        actions: ['Keep away from fuels, wood and other combustibles', 'Do not let spilled material mix with other cargo', 'Flood a fire with water from a distance', 'Call emergency services (112)'],
+    },
+    '6': {
+        title: 'Toxic substances',
+        actions: ['Avoid all contact; keep upwind', 'Isolate the area and keep people out', 'Remove contaminated clothing; rinse skin for 15 min', 'Call emergency services (112) and mention the UN number'],
+    },
+    '7': {
+        title: 'Radioactive material',
+        actions: ['Keep distance and limit time near the cargo', 'Do not touch damaged packages', 'Isolate the area; keep people out', 'Call emergency services (112)'],
+    },
+    '8': {
+        title: 'Corrosives',
+        actions: ['Avoid contact with skin and eyes', 'Contain the spill with sand or earth; keep out of drains', 'Rinse affected skin or eyes with water for 15 min', 'Call emergency services (112)'],
+    },
+    '9': {
+        title: 'Miscellaneous dangerous goods',
+        actions: ['Keep people away from a spill', 'Contain the spill and keep it out of drains', 'Call emergency services (112) and mention the UN number'],
+    },
+};
+
+let memory: HazmatReferenceData | null = null;
+let loading: Promise<HazmatReferenceData> | null = null;
+
+// ==================== CACHE ====================
+
+function readCache(): HazmatReferenceData | null {
+    try {
+        const cached = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+        if (!cached || !Array.isArray(cached.adr) || !Array.isArray(cached.kemler)) return null;
+        return { adr: cached.adr, kemler: cached.kemler, fetchedAt: cached.fetchedAt ?? null, source: 'cache' };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reference data, fetched once per session. Falls back to the cached copy when
+ * the API is unreachable; force refetches even when already loaded.
+ */
+export function loadHazmatReference(force: boolean = false): Promise<HazmatReferenceData> {
+    if (memory && !force) return Promise.resolve(memory);
+    if (!loading) {
+        loading = Promise.all([getAdrCodes(), getKemlerCodes()])
+            .then(([adr, kemler]) => {
+                const data: HazmatReferenceData = { adr, kemler, fetchedAt: Date.now(), source: 'api' };
+                localStorage.setItem(CACHE_KEY, JSON.stringify({ adr, kemler, fetchedAt: data.fetchedAt }));
+                memory = data;
+                return data;
+            })
+            .catch((err) => {
+                console.warn('[Hazmat] Reference data unavailable, using cached copy:', err);
+                // Not kept in memory, so the next load retries the API
+                return readCache() ?? { adr: [], kemler: [], fetchedAt: null, source: 'none' as const };
+            })
+            .finally(() => {
+                loading = null;
+            });
+    }
+    return loading;
+}
+
+// ==================== LOOKUP ====================
+
+export function normalizeUn(code: string | null | undefined): string {
+    return (code || '').toUpperCase().replace(/^UN\s*/, '').trim();
+}
+
+export function normalizeKemler(code: string | null | undefined): string {
+    return (code || '').toUpperCase().replace(/\s+/g, '');
+}
+
+export function findAdrCode(data: HazmatReferenceData, un: string): AdrCode | undefined {
+    const code = normalizeUn(un);
+    return data.adr.find(entry => entry.un_number === code);
+}
+
+export function findKemlerCode(data: HazmatReferenceData, kemler: string): KemlerCode | undefined {
+    const code = normalizeKemler(kemler);
+    return data.kemler.find(entry => entry.code === code);
+}
+
+/**
+ * Decode a hazard identification number, e.g. "X338" -> reacts with water,
+ * flammable liquid (intensified), corrosive
+ */
+export function decodeKemler(kemler: string, data?: HazmatReferenceData): KemlerDecoding {
+    const code = normalizeKemler(kemler);
+    const reactsWithWater = code.startsWith('X');
+    const digits = code.replace(/^X/, '').split('').map((digit, index, all) => ({
+        digit,
+        meaning: index > 0 && digit === all[index - 1]
+            ? `${KEMLER_DIGITS[digit] ?? 'Unknown'} (intensified)`
+            : KEMLER_DIGITS[digit] ?? 'Unknown',
+    }));
+    return { code, reactsWithWater, digits, description: data ? findKemlerCode(data, code)?.description : undefined };
+}
+
+/**
+ * First-response card for a UN number, from its ADR class or, failing that,
+ * the first digit of its Kemler number
+ */
+export function getEmergencyCard(adr: AdrCode | undefined, kemler?: string): EmergencyCard | undefined {
+    const hazardClass = adr?.hazard_class?.charAt(0) || normalizeKemler(kemler || adr?.kemler).replace(/^X/, '').charAt(0);
+    const card = EMERGENCY_ACTIONS[hazardClass];
+    if (!card) return undefined;
+    return { title: card.title, hazardClass, actions: card.actions, ergGuide: adr?.erg_guide ?? undefined };
+}
+
+/**
+ * Match UN numbers, names and Kemler codes; empty query returns everything
+ */
+export function searchReference(data: HazmatReferenceData, query: string): { adr: AdrCode[]; kemler: KemlerCode[] } {
+    const q = query.trim().toLowerCase().replace(/^un\s*/, '');
+    if (!q) return { adr: data.adr, kemler: data.kemler };
+    return {
+        adr: data.adr.filter(entry =>
+            entry.un_number.toLowerCase().includes(q)
+            || entry.name.toLowerCase().includes(q)
+            || (entry.kemler || '').toLowerCase() === q),
+        kemler: data.kemler.filter(entry =>
+            entry.code.toLowerCase().includes(q) || entry.description.toLowerCase().includes(q)),
+    };
+}
@@ -0,0 +1,212 @@
+/**
+ * Operator notification center
+ * Keeps each gate's notifications and unread count in memory, loaded from the
+ * notifications API. While something is subscribed the gate is re-synced on a
+ * timer, shortly after every gate WebSocket message and whenever the tab comes
+ * back into view, so notifications created or read on other devices show up.
+ * Read changes are applied optimistically and shared with the other tabs over
+ * BroadcastChannel.
+ */
+import {
+    getNotifications,
+    getUnreadCount,
+    markAllNotificationsRead,
+    markNotificationRead,
+    type Notification,
+} from '@/services/notifications';
+import { subscribeGateMessages } from './sharedWebSocket';
+
+const CHANNEL_NAME = 'notifications';
+const SYNC_INTERVAL_MS = 15000;
+/** Gives the backend time to store the notifications a gate event creates */
+const LIVE_REFRESH_DELAY_MS = 1500;
+/** Notifications kept per gate; the header shows the newest, AlertsPage all of them */
+const MAX_NOTIFICATIONS = 200;
+
+export interface NotificationState {
+    notifications: Notification[];
+    unreadCount: number;
+    /** True until the first load finishes */
+    isLoading: boolean;
+    error: string | null;
+}
+
+type NotificationListener = (state: NotificationState) => void;
+
+type ChannelMessage =
+    | { type: 'read'; gateId: number; id: string }
+    | { type: 'read-all'; gateId: number };
+
+interface GateNotifications {
+    state: NotificationState;
+    listeners: Set<NotificationListener>;
+    /** Bumped on every read change, so loads that started before it are dropped */
+    version: number;
+    stopSync: (() => void) | null;
+}
+
+const gates: Map<number, GateNotifications> = new Map();
+let channel: BroadcastChannel | null = null;
+
+// ==================== INTERNALS ====================
+
+function getGate(gateId: number): GateNotifications {
+    let gate = gates.get(gateId);
+    if (!gate) {
+        gate = {
+            state: { notifications: [], unreadCount: 0, isLoading: true, error: null },
+            listeners: new Set(),
+            version: 0,
+            stopSync: null,
+        };
+        gates.set(gateId, gate);
+    }
+    return gate;
+}
+
+function setState(gateId: number, patch: Partial<NotificationState>): void {
+    const gate = getGate(gateId);
+    gate.state = { ...gate.state, ...patch };
+    gate.listeners.forEach(listener => listener(gate.state));
+}
+
+function applyRead(gateId: number, id: string): void {
+    const gate = getGate(gateId);
+    const target = gate.state.notifications.find(n => n.id === id);
+    gate.version++;
+    if (!target || target.read) return;
+    setState(gateId, {
+        notifications: gate.state.notifications.map(n => (n.id === id ? { ...n, read: true } : n)),
+        unreadCount: Math.max(0, gate.state.unreadCount - 1),
+    });
+}
+
+function applyReadAll(gateId: number): void {
+    const gate = getGate(gateId);
+    gate.version++;
+    setState(gateId, {
+        notifications: gate.state.notifications.map(n => (n.read ? n : { ...n, read: true })),
+        unreadCount: 0,
+    });
+}
+
+function getChannel(): BroadcastChannel | null {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    // Read changes made by other tabs are applied without re-broadcasting
+    channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+        const msg = event.data;
+        if (!gates.has(msg.gateId)) return;
+        if (msg.type === 'read') applyRead(msg.gateId, msg.id);
+        else applyReadAll(msg.gateId);
+    };
+    return channel;
+}
+
+function startSync(gateId: number): () => void {
+    let liveTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefresh = () => {
+        if (liveTimer) clearTimeout(liveTimer);
+        liveTimer = setTimeout(() => {
+            liveTimer = null;
+            refreshNotifications(gateId);
+        }, LIVE_REFRESH_DELAY_MS);
+    };
+    const handleVisibility = () => {
+        if (document.visibilityState === 'visible') refreshNotifications(gateId);
+    };
+
+    refreshNotifications(gateId);
+    const syncTimer = setInterval(() => refreshNotifications(gateId), SYNC_INTERVAL_MS);
+    // Survives the supervision view releasing and re-creating the gate's socket
+    const unsubscribeSocket = subscribeGateMessages(gateId, scheduleRefresh);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+        clearInterval(syncTimer);
+        if (liveTimer) clearTimeout(liveTimer);
+        unsubscribeSocket();
+        document.removeEventListener('visibilitychange', handleVisibility);
+    };
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Subscribe to a gate's notifications; called immediately with the current
+ * state. The gate is kept in sync while it has subscribers.
+ */
+export function subscribeNotifications(gateId: number, listener: NotificationListener): () => void {
+    getChannel();
+    const gate = getGate(gateId);
+    gate.listeners.add(listener);
+    listener(gate.state);
+    gate.stopSync ??= startSync(gateId);
+    return () => {
+        gate.listeners.delete(listener);
+        if (gate.listeners.size === 0 && gate.stopSync) {
+            gate.stopSync();
+            gate.stopSync = null;
+        }
+    };
+}
+
+/**
+ * Reload a gate's notifications and unread count from the API
+ */
+export async function refreshNotifications(gateId: number): Promise<void> {
+    const gate = getGate(gateId);
+    const version = gate.version;
+    try {
+        const [notifications, unreadCount] = await Promise.all([
+            getNotifications(gateId, MAX_NOTIFICATIONS),
+            // The list is still worth showing without a count; the badge keeps its last value
+            getUnreadCount(gateId).catch((err) => {
+                console.error('[Notifications] Failed to load unread count:', err);
+                return null;
+            }),
+        ]);
+        // A read change landed while loading; the next sync picks it up
+        if (gate.version !== version) return;
+        setState(gateId, {
+            notifications,
+            unreadCount: unreadCount ?? gate.state.unreadCount,
+            isLoading: false,
+            error: unreadCount === null ? 'Unread count unavailable' : null,
+        });
+    } catch (err) {
+        console.error('[Notifications] Failed to load notifications:', err);
+        setState(gateId, { isLoading: false, error: 'Notifications unavailable' });
+    }
+}
+
+/**
+ * Mark one notification as read for every operator of the gate
+ */
+export async function markRead(gateId: number, id: string): Promise<void> {
+    const notification = getGate(gateId).state.notifications.find(n => n.id === id);
+    if (notification?.read) return;
+    applyRead(gateId, id);
+    getChannel()?.postMessage({ type: 'read', gateId, id } satisfies ChannelMessage);
+    try {
+        await markNotificationRead(id);
+    } catch (err) {
+        console.error('[Notifications] Failed to mark notification as read:', err);
+    }
+    // Confirms the read on success and restores the server's state on failure
+    await refreshNotifications(gateId);
+}
+
+/**
+ * Mark all of a gate's notifications as read
+ */
+export async function markAllRead(gateId: number): Promise<void> {
+    applyReadAll(gateId);
+    getChannel()?.postMessage({ type: 'read-all', gateId } satisfies ChannelMessage);
+    try {
+        await markAllNotificationsRead(gateId);
+    } catch (err) {
+        console.error('[Notifications] Failed to mark notifications as read:', err);
+    }
+    await refreshNotifications(gateId);
+}
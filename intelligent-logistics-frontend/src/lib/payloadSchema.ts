@@ -0,0 +1,265 @@
+/**
+ * DecisionUpdatePayload schema
+ * Validates payloads received from the API Gateway and normalises them into
+ * a canonical internal type (epoch-ms timestamps, split hazmat codes, upper-cased
+ * decisions) so consumers never have to guess at formats.
+ */
+import type { DecisionUpdatePayload } from './websocket';
+
+/** Highest payload schema version this client understands */
+export const PAYLOAD_SCHEMA_VERSION = 1;
+
+export type DecisionValue = 'ACCEPTED' | 'REJECTED' | 'MANUAL_REVIEW';
+export type DecisionSource = 'automated' | 'operator';
+
+const DECISIONS: readonly DecisionValue[] = ['ACCEPTED', 'REJECTED', 'MANUAL_REVIEW'];
+const SOURCES: readonly DecisionSource[] = ['automated', 'operator'];
+
+/** UN numbers are four digits */
+const UN_PATTERN = /^\d{4}$/;
+/** Kemler (hazard identification) numbers: 2-3 digits, optionally prefixed with X */
+const KEMLER_PATTERN = /^X?\d{2,3}$/;
+
+export interface HazmatCode {
+    code: string;
+    description?: string;
+}
+
+/**
+ * Canonical decision used inside the app
+ */
+export interface NormalizedDecision {
+    schemaVersion: number;
+    messageType: string;
+    /** Epoch milliseconds */
+    timestampMs: number;
+    /** ISO 8601 form of timestampMs */
+    timestamp: string;
+    licensePlate: string;
+    licenseCropUrl?: string;
+    hazardCropUrl?: string;
+    un?: HazmatCode;
+    kemler?: HazmatCode;
+    decision: DecisionValue;
+    decisionReason: string;
+    decisionSource: DecisionSource;
+    alerts: string[];
+    route?: string;
+    truckId?: string;
+    /** Original payload, forwarded as-is where the backend expects it */
+    raw: DecisionUpdatePayload;
+}
+
+export interface ValidationIssue {
+    /** Field the issue refers to ('' for the payload itself) */
+    path: string;
+    message: string;
+}
+
+export type ValidationResult =
+    | { ok: true; value: NormalizedDecision; warnings: ValidationIssue[] }
+    | { ok: false; errors: ValidationIssue[]; warnings: ValidationIssue[] };
+
+/**
+ * Convert a payload/event timestamp to epoch milliseconds.
+ * Accepts Unix seconds, Unix milliseconds or an ISO string.
+ */
+export function toEpochMs(ts: unknown): number | null {
+    if (typeof ts === 'number' && Number.isFinite(ts)) {
+        // Timestamps before year 2001 in ms would be < 1e12
+        return ts > 1e12 ? ts : ts * 1000;
+    }
+    if (typeof ts === 'string' && ts.trim()) {
+        const numeric = Number(ts);
+        if (Number.isFinite(numeric)) return toEpochMs(numeric);
+        const parsed = Date.parse(ts);
+        return Number.isNaN(parsed) ? null : parsed;
+    }
+    return null;
+}
+
+/**
+ * Split a hazmat value ("1203: Gasoline", "UN 1203", 1203) into code and description.
+ * Only the first ':' separates the description, which may contain colons itself.
+ */
+export function parseHazmatCode(value: unknown): HazmatCode | undefined {
+    if (value === null || value === undefined) return undefined;
+    const text = String(value).trim();
+    if (!text) return undefined;
+
+    const separator = text.indexOf(':');
+    const rawCode = separator === -1 ? text : text.slice(0, separator);
+    const description = separator === -1 ? undefined : text.slice(separator + 1).trim() || undefined;
+    const code = rawCode.trim().toUpperCase().replace(/^UN\s*/, '').replace(/\s+/g, '');
+
+    return code ? { code, description } : undefined;
+}
+
+/**
+ * Format a hazmat code back into the "code: description" wire format
+ */
+export function formatHazmatCode(hazmat?: HazmatCode): string | undefined {
+    if (!hazmat) return undefined;
+    return hazmat.description ? `${hazmat.code}: ${hazmat.description}` : hazmat.code;
+}
+
+function optionalString(
+    record: Record<string, unknown>,
+    key: string,
+    errors: ValidationIssue[]
+): string | undefined {
+    const value = record[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+        errors.push({ path: key, message: `Expected string, got ${typeof value}` });
+        return undefined;
+    }
+    return value;
+}
+
+function validateHazmat(
+    record: Record<string, unknown>,
+    key: 'un' | 'kemler',
+    pattern: RegExp,
+    errors: ValidationIssue[],
+    warnings: ValidationIssue[]
+): HazmatCode | undefined {
+    const value = record[key];
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        errors.push({ path: key, message: `Expected string or number, got ${typeof value}` });
+        return undefined;
+    }
+    const parsed = parseHazmatCode(value);
+    if (parsed && !pattern.test(parsed.code)) {
+        // Keep unexpected codes visible - dropping a hazmat detection is worse than showing OCR noise
+        warnings.push({ path: key, message: `Unexpected ${key === 'un' ? 'UN' : 'Kemler'} code format "${parsed.code}"` });
+    }
+    return parsed;
+}
+
+/**
+ * Validate an incoming payload and normalise it into a NormalizedDecision
+ */
+export function validateDecisionPayload(input: unknown, receivedAt: number = Date.now()): ValidationResult {
+    const errors: ValidationIssue[] = [];
+    const warnings: ValidationIssue[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        errors.push({ path: '', message: 'Payload must be a JSON object' });
+        return { ok: false, errors, warnings };
+    }
+    const record = input as Record<string, unknown>;
+
+    // Schema version (absent on payloads that predate versioning)
+    let schemaVersion = PAYLOAD_SCHEMA_VERSION;
+    if (record.schema_version !== undefined) {
+        if (typeof record.schema_version !== 'number' || !Number.isInteger(record.schema_version)) {
+            errors.push({ path: 'schema_version', message: 'Expected integer' });
+        } else if (record.schema_version > PAYLOAD_SCHEMA_VERSION) {
+            errors.push({
+                path: 'schema_version',
+                message: `Unsupported schema version ${record.schema_version} (max ${PAYLOAD_SCHEMA_VERSION})`,
+            });
+        } else {
+            schemaVersion = record.schema_version;
+        }
+    }
+
+    if (typeof record.message_type !== 'string' || !record.message_type.trim()) {
+        errors.push({ path: 'message_type', message: 'Required non-empty string' });
+    }
+
+    // Timestamp: seconds, milliseconds or ISO string
+    let timestampMs: number | null;
+    if (record.timestamp === undefined || record.timestamp === null || record.timestamp === '') {
+        warnings.push({ path: 'timestamp', message: 'Missing, using receive time' });
+        timestampMs = receivedAt;
+    } else {
+        timestampMs = toEpochMs(record.timestamp);
+        if (timestampMs === null) {
+            errors.push({ path: 'timestamp', message: `Unparseable timestamp ${JSON.stringify(record.timestamp)}` });
+        }
+    }
+
+    let licensePlate = '';
+    if (record.license_plate !== undefined && record.license_plate !== null) {
+        if (typeof record.license_plate !== 'string') {
+            errors.push({ path: 'license_plate', message: `Expected string, got ${typeof record.license_plate}` });
+        } else {
+            licensePlate = record.license_plate.trim();
+        }
+    }
+
+    let decision: DecisionValue | undefined;
+    if (typeof record.decision !== 'string') {
+        errors.push({ path: 'decision', message: 'Required string' });
+    } else {
+        const upper = record.decision.trim().toUpperCase().replace(/[\s-]+/g, '_') as DecisionValue;
+        if (DECISIONS.includes(upper)) {
+            decision = upper;
+        } else {
+            errors.push({ path: 'decision', message: `Unknown decision "${record.decision}"` });
+        }
+    }
+
+    let decisionSource: DecisionSource = 'automated';
+    if (record.decision_source !== undefined && record.decision_source !== null && record.decision_source !== '') {
+        const source = String(record.decision_source).trim().toLowerCase() as DecisionSource;
+        if (SOURCES.includes(source)) {
+            decisionSource = source;
+        } else {
+            warnings.push({ path: 'decision_source', message: `Unknown source "${record.decision_source}", assuming automated` });
+        }
+    }
+
+    const alerts: string[] = [];
+    if (record.alerts !== undefined && record.alerts !== null) {
+        if (!Array.isArray(record.alerts)) {
+            errors.push({ path: 'alerts', message: 'Expected array of strings' });
+        } else {
+            record.alerts.forEach((alert, index) => {
+                if (typeof alert === 'string') {
+                    if (alert.trim()) alerts.push(alert);
+                } else {
+                    warnings.push({ path: `alerts[${index}]`, message: 'Dropped non-string alert' });
+                }
+            });
+        }
+    }
+
+    const decisionReason = optionalString(record, 'decision_reason', errors) ?? '';
+    const licenseCropUrl = optionalString(record, 'license_crop_url', errors);
+    const hazardCropUrl = optionalString(record, 'hazard_crop_url', errors);
+    const route = optionalString(record, 'route', errors);
+    const truckId = optionalString(record, 'truck_id', errors);
+    const un = validateHazmat(record, 'un', UN_PATTERN, errors, warnings);
+    const kemler = validateHazmat(record, 'kemler', KEMLER_PATTERN, errors, warnings);
+
+    if (errors.length > 0 || timestampMs === null || !decision) {
+        return { ok: false, errors, warnings };
+    }
+
+    return {
+        ok: true,
+        warnings,
+        value: {
+            schemaVersion,
+            messageType: (record.message_type as string).trim(),
+            timestampMs,
+            timestamp: new Date(timestampMs).toISOString(),
+            licensePlate,
+            licenseCropUrl,
+            hazardCropUrl,
+            un,
+            kemler,
+            decision,
+            decisionReason,
+            decisionSource,
+            alerts,
+            route,
+            truckId,
+            raw: record as DecisionUpdatePayload,
+        },
+    };
+}
@@ -0,0 +1,103 @@
+/**
+ * Payload quarantine
+ * Keeps WebSocket messages that failed schema validation, with their errors,
+ * so they can be inspected in the Dashboard debug panel instead of crashing
+ * the UI or disappearing silently. Shared with other tabs over BroadcastChannel.
+ */
+import type { ValidationIssue } from './payloadSchema';
+
+const CHANNEL_NAME = 'payload-quarantine';
+/** Max entries kept per tab */
+const MAX_QUARANTINE_ENTRIES = 50;
+
+export interface QuarantineEntry {
+    id: string;
+    gateId: string | number;
+    /** Epoch ms when the message was received */
+    receivedAt: number;
+    /** Parsed JSON, or the raw text when the message was not valid JSON */
+    raw: unknown;
+    errors: ValidationIssue[];
+    warnings: ValidationIssue[];
+}
+
+type QuarantineListener = (entries: QuarantineEntry[]) => void;
+
+type ChannelMessage =
+    | { type: 'added'; entry: QuarantineEntry }
+    | { type: 'cleared' };
+
+let entries: QuarantineEntry[] = [];
+const listeners: Set<QuarantineListener> = new Set();
+let channel: BroadcastChannel | null = null;
+let idCounter = 0;
+
+function notify(): void {
+    listeners.forEach(listener => listener(entries));
+}
+
+function getChannel(): BroadcastChannel | null {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+        if (event.data.type === 'added') {
+            entries = [event.data.entry, ...entries].slice(0, MAX_QUARANTINE_ENTRIES);
+        } else {
+            entries = [];
+        }
+        notify();
+    };
+    return channel;
+}
+
+/**
+ * Record a rejected message
+ */
+export function quarantinePayload(
+    gateId: string | number,
+    raw: unknown,
+    errors: ValidationIssue[],
+    warnings: ValidationIssue[] = []
+): QuarantineEntry {
+    idCounter += 1;
+    const entry: QuarantineEntry = {
+        id: `q-${Date.now()}-${idCounter}`,
+        gateId,
+        receivedAt: Date.now(),
+        raw,
+        errors,
+        warnings,
+    };
+    console.warn('[WS] Payload quarantined:', errors.map(e => `${e.path || '(payload)'}: ${e.message}`).join('; '));
+
+    entries = [entry, ...entries].slice(0, MAX_QUARANTINE_ENTRIES);
+    notify();
+    getChannel()?.postMessage({ type: 'added', entry } satisfies ChannelMessage);
+    return entry;
+}
+
+/**
+ * Current quarantined entries, newest first
+ */
+export function getQuarantine(): QuarantineEntry[] {
+    return entries;
+}
+
+/**
+ * Remove every quarantined entry in all tabs
+ */
+export function clearQuarantine(): void {
+    entries = [];
+    notify();
+    getChannel()?.postMessage({ type: 'cleared' } satisfies ChannelMessage);
+}
+
+/**
+ * Subscribe to quarantine changes; called immediately with the current entries
+ */
+export function subscribeQuarantine(listener: QuarantineListener): () => void {
+    getChannel();
+    listeners.add(listener);
+    listener(entries);
+    return () => listeners.delete(listener);
+}
@@ -0,0 +1,265 @@
+/**
+ * Gate queue forecast
+ * Predicts when upcoming trucks reach the gate from their scheduled time and
+ * how late their company usually is, then counts expected arrivals in the next
+ * 15-minute buckets so operators can staff up before a wave hits the gate.
+ *
+ * Lateness history is learned from completed appointments (scheduled time vs
+ * visit entry time) and kept per gate PC in localStorage, a few visits per refresh.
+ */
+import { getArrivals, getVisit } from '@/services/arrivals';
+import { getEntryDelayMinutes } from './visitLifecycle';
+import type { Appointment } from '@/types/types';
+
+export const BUCKET_MINUTES = 15;
+/** Buckets shown: two hours ahead */
+export const BUCKET_COUNT = 8;
+/** Expected arrivals in one bucket the gate can clear without a queue forming */
+export const GATE_CAPACITY_PER_BUCKET = 4;
+
+const HISTORY_KEY = 'queue_forecast_history';
+const MAX_HISTORY = 500;
+/** Visits fetched per refresh to learn lateness, to keep refreshes light */
+const HISTORY_FETCH_PER_REFRESH = 20;
+/** Samples a company needs before its own lateness is trusted over the gate average */
+const MIN_COMPANY_SAMPLES = 3;
+/** Spread assumed before any history exists, in minutes */
+const DEFAULT_STDDEV_MIN = 15;
+/** z-score of the 80% confidence band */
+const BAND_Z = 1.28;
+/** Minutes a truck typically spends on site when expected_duration is missing */
+const DEFAULT_DURATION_MIN = 60;
+
+export type ForecastConfidence = 'high' | 'medium' | 'low';
+
+export interface LatenessStats {
+    /** Mean minutes late (negative when early) */
+    mean: number;
+    stdDev: number;
+    samples: number;
+}
+
+export interface TruckForecast {
+    appointmentId: number;
+    plate: string;
+    company: string;
+    scheduledAt: number;
+    /** Epoch ms of the predicted gate arrival */
+    expectedAt: number;
+    /** 80% band around expectedAt */
+    earliestAt: number;
+    latestAt: number;
+    /** Predicted time leaving the gate area, from expected_duration */
+    departsAt: number;
+    confidence: ForecastConfidence;
+    delayed: boolean;
+}
+
+export interface ForecastBucket {
+    start: number;
+    end: number;
+    /** Trucks whose point estimate falls in the bucket */
+    trucks: number;
+    /** Probability-weighted arrivals, counting trucks whose band overlaps the bucket */
+    expected: number;
+    /** Trucks predicted to be on site during the bucket */
+    onSite: number;
+    bottleneck: boolean;
+}
+
+export interface QueueForecast {
+    generatedAt: number;
+    buckets: ForecastBucket[];
+    trucks: TruckForecast[];
+}
+
+// What a completed visit taught us about its company
+interface LatenessSample {
+    company: string;
+    delayMin: number;
+}
+
+// ==================== INTERNALS ====================
+
+function companyKey(appointment: Appointment): string {
+    return appointment.truck?.company?.name
+        || appointment.driver?.company?.name
+        || appointment.truck?.company_nif
+        || appointment.driver?.company_nif
+        || 'Unknown';
+}
+
+function readHistory(): Record<string, LatenessSample> {
+    try {
+        const saved = JSON.parse(localStorage.getItem(HISTORY_KEY) || '{}');
+        return saved && typeof saved === 'object' ? saved : {};
+    } catch {
+        return {};
+    }
+}
+
+function writeHistory(history: Record<string, LatenessSample>): void {
+    // Appointment ids grow over time, so the highest ids are the most recent samples
+    const ids = Object.keys(history).map(Number).sort((a, b) => b - a).slice(0, MAX_HISTORY);
+    const trimmed: Record<string, LatenessSample> = {};
+    ids.forEach(id => { trimmed[id] = history[id]; });
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
+}
+
+function stats(delays: number[]): LatenessStats | null {
+    if (delays.length === 0) return null;
+    const mean = delays.reduce((sum, d) => sum + d, 0) / delays.length;
+    const variance = delays.reduce((sum, d) => sum + (d - mean) ** 2, 0) / delays.length;
+    // A single sample says nothing about spread
+    const stdDev = delays.length > 1 ? Math.max(Math.sqrt(variance), 5) : DEFAULT_STDDEV_MIN;
+    return { mean, stdDev, samples: delays.length };
+}
+
+// Abramowitz-Stegun approximation, good to ~1e-7
+function normalCdf(x: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(x * x) / 2);
+    return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Learn lateness from completed appointments not sampled yet
+ */
+async function refreshHistory(gateId: number): Promise<Record<string, LatenessSample>> {
+    const history = readHistory();
+    const completed = await getArrivals({ gate_id: gateId, status: 'completed', limit: 100 });
+    const pending = completed.items
+        .filter(appointment => appointment.scheduled_start_time && !history[appointment.id])
+        .slice(0, HISTORY_FETCH_PER_REFRESH);
+    if (pending.length === 0) return history;
+
+    const visits = await Promise.allSettled(pending.map(appointment => getVisit(appointment.id)));
+    visits.forEach((result, i) => {
+        if (result.status !== 'fulfilled') return;
+        const delayMin = getEntryDelayMinutes(pending[i], result.value);
+        if (delayMin !== null) {
+            history[pending[i].id] = { company: companyKey(pending[i]), delayMin };
+        }
+    });
+    writeHistory(history);
+    return history;
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Lateness per company, plus the gate-wide figure under the '*' key
+ */
+export function getLatenessStats(history: Record<string, LatenessSample> = readHistory()): Record<string, LatenessStats> {
+    const byCompany: Record<string, number[]> = {};
+    const all: number[] = [];
+    Object.values(history).forEach(({ company, delayMin }) => {
+        (byCompany[company] ||= []).push(delayMin);
+        all.push(delayMin);
+    });
+
+    const result: Record<string, LatenessStats> = {};
+    Object.entries(byCompany).forEach(([company, delays]) => {
+        result[company] = stats(delays)!;
+    });
+    const overall = stats(all);
+    if (overall) result['*'] = overall;
+    return result;
+}
+
+export function forecastTruck(appointment: Appointment, lateness: Record<string, LatenessStats>, now: number): TruckForecast | null {
+    if (!appointment.scheduled_start_time) return null;
+    const scheduledAt = Date.parse(appointment.scheduled_start_time);
+    if (Number.isNaN(scheduledAt)) return null;
+
+    const company = companyKey(appointment);
+    const own = lateness[company];
+    const basis = own && own.samples >= MIN_COMPANY_SAMPLES ? own : lateness['*'];
+    const mean = basis?.mean ?? 0;
+    const stdDev = basis?.stdDev ?? DEFAULT_STDDEV_MIN;
+    const samples = own?.samples ?? 0;
+
+    // A truck that hasn't shown up by now can only arrive from now on
+    const expectedAt = Math.max(scheduledAt + mean * 60000, now);
+    const band = BAND_Z * stdDev * 60000;
+    const duration = (appointment.expected_duration || DEFAULT_DURATION_MIN) * 60000;
+
+    return {
+        appointmentId: appointment.id,
+        plate: appointment.truck_license_plate,
+        company,
+        scheduledAt,
+        expectedAt,
+        earliestAt: Math.max(expectedAt - band, now),
+        latestAt: expectedAt + band,
+        departsAt: expectedAt + duration,
+        confidence: samples >= 10 ? 'high' : samples >= MIN_COMPANY_SAMPLES ? 'medium' : 'low',
+        delayed: appointment.status === 'delayed',
+    };
+}
+
+/**
+ * Bucket the trucks into the next BUCKET_COUNT quarter hours, starting at the current one
+ */
+export function buildQueueForecast(
+    appointments: Appointment[],
+    lateness: Record<string, LatenessStats>,
+    now: number = Date.now()
+): QueueForecast {
+    const bucketMs = BUCKET_MINUTES * 60000;
+    const firstStart = Math.floor(now / bucketMs) * bucketMs;
+    const horizon = firstStart + BUCKET_COUNT * bucketMs;
+
+    const trucks = appointments
+        .map(appointment => forecastTruck(appointment, lateness, now))
+        .filter((truck): truck is TruckForecast => truck !== null && truck.earliestAt < horizon)
+        .sort((a, b) => a.expectedAt - b.expectedAt);
+
+    const buckets: ForecastBucket[] = Array.from({ length: BUCKET_COUNT }, (_, i) => {
+        const start = firstStart + i * bucketMs;
+        const end = start + bucketMs;
+        let count = 0;
+        let expected = 0;
+        let onSite = 0;
+
+        trucks.forEach((truck) => {
+            if (truck.expectedAt >= start && truck.expectedAt < end) count++;
+            if (truck.expectedAt < end && truck.departsAt > start) onSite++;
+            // Band is an 80% interval; recover sigma to spread the truck over buckets
+            const sigma = (truck.latestAt - truck.expectedAt) / BAND_Z;
+            if (sigma > 0) {
+                expected += normalCdf((end - truck.expectedAt) / sigma) - normalCdf((start - truck.expectedAt) / sigma);
+            } else if (truck.expectedAt >= start && truck.expectedAt < end) {
+                expected += 1;
+            }
+        });
+
+        return {
+            start,
+            end,
+            trucks: count,
+            expected: Math.round(expected * 10) / 10,
+            onSite,
+            bottleneck: Math.max(count, expected) > GATE_CAPACITY_PER_BUCKET,
+        };
+    });
+
+    return { generatedAt: now, buckets, trucks };
+}
+
+/**
+ * Fetch upcoming trucks for the gate, update lateness history and forecast.
+ * The forecast still runs on stored history when learning from new visits fails.
+ */
+export async function loadQueueForecast(gateId: number): Promise<QueueForecast> {
+    const [inTransit, delayed, history] = await Promise.all([
+        getArrivals({ gate_id: gateId, status: 'in_transit', limit: 100 }),
+        getArrivals({ gate_id: gateId, status: 'delayed', limit: 100 }),
+        refreshHistory(gateId).catch((err) => {
+            console.warn('[Forecast] Failed to update lateness history:', err);
+            return readHistory();
+        }),
+    ]);
+    return buildQueueForecast([...inTransit.items, ...delayed.items], getLatenessStats(history));
+}
@@ -0,0 +1,133 @@
+/**
+ * Instant replay for live HLS players
+ * In DVR mode HLSPlayer keeps a rolling back buffer and registers a replay
+ * controller under its capture key (e.g. "gate1"), so detection cards can jump
+ * the player back to the moment a detection fired without holding a reference
+ * to the player.
+ */
+
+/** Seconds recorded before the detection when exporting a clip */
+export const CLIP_PRE_ROLL_SECONDS = 3;
+
+/** The detection a replay is tied to */
+export interface ReplayAnchor {
+    /** Epoch ms of the detection */
+    timestamp: number;
+    /** Short label, e.g. the license plate */
+    label: string;
+}
+
+/** Wall-clock range (epoch ms) currently available for replay */
+export interface ReplayWindow {
+    start: number;
+    end: number;
+}
+
+export interface ReplayController {
+    /** Seek to a wall-clock time; false when it is outside the buffer */
+    seekTo(timestamp: number, anchor?: ReplayAnchor): boolean;
+    goLive(): void;
+    getWindow(): ReplayWindow | null;
+}
+
+export type ReplayResult = { ok: true } | { ok: false; reason: string };
+
+const controllers: Map<string, ReplayController> = new Map();
+
+/**
+ * Make a player's replay controls available; returns the unregister function
+ */
+export function registerReplayController(key: string, controller: ReplayController): () => void {
+    controllers.set(key, controller);
+    return () => {
+        if (controllers.get(key) === controller) controllers.delete(key);
+    };
+}
+
+export function hasReplay(key: string): boolean {
+    return controllers.has(key);
+}
+
+/**
+ * Jump the player registered under key back to a detection
+ */
+export function jumpToDetection(key: string, anchor: ReplayAnchor): ReplayResult {
+    const controller = controllers.get(key);
+    if (!controller) {
+        return { ok: false, reason: 'Replay is not available for this camera' };
+    }
+
+    const range = controller.getWindow();
+    if (!range) {
+        return { ok: false, reason: 'Stream has not buffered yet' };
+    }
+    if (anchor.timestamp < range.start) {
+        const seconds = Math.round((range.end - range.start) / 1000);
+        return { ok: false, reason: `Detection is older than the ${seconds}s replay buffer` };
+    }
+
+    return controller.seekTo(anchor.timestamp, anchor)
+        ? { ok: true }
+        : { ok: false, reason: 'Could not seek to the detection' };
+}
+
+// ==================== CLIP RECORDING ====================
+
+type CapturableVideo = HTMLVideoElement & {
+    captureStream?: () => MediaStream;
+    mozCaptureStream?: () => MediaStream;
+};
+
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Whether this browser can record clips from a video element
+ */
+export function canRecordClips(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+        && CLIP_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Record what the video plays for durationMs, in real time, as a WebM blob.
+ * The caller positions and plays the video first.
+ */
+export function recordClip(video: HTMLVideoElement, durationMs: number): Promise<Blob> {
+    const capturable = video as CapturableVideo;
+    const stream = capturable.captureStream?.() || capturable.mozCaptureStream?.();
+    const mimeType = CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!stream || !mimeType) {
+        return Promise.reject(new Error('Clip recording is not supported in this browser'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Blob[] = [];
+        const recorder = new MediaRecorder(stream, { mimeType });
+
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+            stream.getTracks().forEach(track => track.stop());
+            resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+        recorder.onerror = () => {
+            stream.getTracks().forEach(track => track.stop());
+            reject(new Error('Clip recording failed'));
+        };
+
+        recorder.start();
+        setTimeout(() => {
+            if (recorder.state !== 'inactive') recorder.stop();
+        }, durationMs);
+    });
+}
+
+/**
+ * File name for an exported still or clip, e.g. "replay-AA00BB-20260101-120301.webm"
+ */
+export function replayFileName(anchor: ReplayAnchor | null, timestamp: number, extension: string): string {
+    const stamp = new Date(timestamp).toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    const label = anchor?.label.replace(/[^A-Za-z0-9]/g, '') || 'camera';
+    return `replay-${label}-${stamp}.${extension}`;
+}
@@ -0,0 +1,492 @@
+/**
+ * Manual review queue
+ * Every MANUAL_REVIEW decision becomes a queue entry that survives reloads
+ * (cached in localStorage), is synced with the API Gateway and shared across
+ * tabs over BroadcastChannel. Operators claim an entry before deciding so two
+ * people never decide the same truck, and entries escalate once they have
+ * waited past the SLA. When the queue endpoints are unreachable the queue
+ * keeps working locally and replays its changes on the next successful sync;
+ * claims are the exception and fail until the server confirms them.
+ *
+ * Without appConfig.reviewQueueApi the backend has no queue: entries stay in
+ * this browser, and claims only keep its own tabs from deciding twice.
+ */
+import axios from 'axios';
+import config from '@/config/appConfig';
+import {
+    claimReview,
+    enqueueReview,
+    escalateReview,
+    getReviewQueue,
+    releaseReview,
+    resolveReview,
+    type ReviewClaimer,
+    type ReviewQueueEntry,
+} from '@/services/reviewQueue';
+import type { NormalizedDecision } from './payloadSchema';
+import { getGateWebSocket } from './sharedWebSocket';
+
+const STORAGE_KEY = 'review_queue';
+const CHANNEL_NAME = 'review-queue';
+const SYNC_INTERVAL_MS = 15000;
+/** How often waiting times are checked against the SLA */
+const SLA_CHECK_INTERVAL_MS = 5000;
+/** Claims older than this are treated as abandoned (e.g. the operator closed the tab) */
+const CLAIM_TTL_MS = 10 * 60 * 1000;
+/** Resolved entries are kept this long so other tabs see the outcome */
+const RESOLVED_RETENTION_MS = 60 * 60 * 1000;
+
+export interface ReviewSla {
+    /** Waiting time after which an entry is flagged */
+    warnAfterMs: number;
+    /** Waiting time after which an entry is escalated */
+    escalateAfterMs: number;
+}
+
+export type SlaLevel = 'ok' | 'warning' | 'escalated';
+
+export type ClaimResult =
+    | { ok: true; entry: ReviewQueueEntry }
+    | { ok: false; reason: string };
+
+type QueueListener = (entries: ReviewQueueEntry[]) => void;
+
+type ChannelMessage =
+    | { type: 'upsert'; entry: ReviewQueueEntry }
+    | { type: 'remove'; id: string };
+
+let sla: ReviewSla = {
+    warnAfterMs: config.reviewSlaWarnMinutes * 60 * 1000,
+    escalateAfterMs: config.reviewSlaEscalateMinutes * 60 * 1000,
+};
+
+let entries: ReviewQueueEntry[] | null = null;
+/** Entries changed locally that the server has not acknowledged yet */
+let unsynced: Set<string> = new Set();
+const listeners: Set<QueueListener> = new Set();
+let channel: BroadcastChannel | null = null;
+/** Set once the queue endpoints answer 404, to stop logging on every sync */
+let serverMissing = false;
+
+// ==================== INTERNALS ====================
+
+function loadEntries(): ReviewQueueEntry[] {
+    if (entries) return entries;
+    let loaded: ReviewQueueEntry[] = [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if (saved && Array.isArray(saved.entries)) {
+            loaded = saved.entries;
+            unsynced = new Set(Array.isArray(saved.unsynced) ? saved.unsynced : []);
+        }
+    } catch {
+        localStorage.removeItem(STORAGE_KEY);
+    }
+    entries = loaded;
+    return loaded;
+}
+
+function persist(): void {
+    const cutoff = Date.now() - RESOLVED_RETENTION_MS;
+    entries = loadEntries().filter(entry =>
+        entry.status !== 'resolved' || Date.parse(entry.resolved_at || '') > cutoff || unsynced.has(entry.id)
+    );
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ entries, unsynced: [...unsynced] }));
+    } catch (err) {
+        console.warn('[ReviewQueue] Failed to cache queue:', err);
+    }
+}
+
+function notify(): void {
+    const snapshot = loadEntries();
+    listeners.forEach(listener => listener(snapshot));
+}
+
+function getChannel(): BroadcastChannel | null {
+    if (channel || typeof BroadcastChannel === 'undefined') return channel;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    // Changes made by other tabs are applied without re-broadcasting
+    channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+        const msg = event.data;
+        if (msg.type === 'upsert') {
+            applyEntry(msg.entry);
+        } else {
+            entries = loadEntries().filter(entry => entry.id !== msg.id);
+        }
+        notify();
+    };
+    return channel;
+}
+
+function applyEntry(entry: ReviewQueueEntry): void {
+    const current = loadEntries();
+    const index = current.findIndex(existing => existing.id === entry.id);
+    entries = index === -1
+        ? [...current, entry]
+        : current.map((existing, i) => (i === index ? entry : existing));
+}
+
+/**
+ * Apply a change made in this tab, cache it and share it with other tabs
+ */
+function commit(entry: ReviewQueueEntry, synced: boolean): void {
+    applyEntry(entry);
+    if (synced) {
+        unsynced.delete(entry.id);
+    } else {
+        unsynced.add(entry.id);
+    }
+    persist();
+    notify();
+    getChannel()?.postMessage({ type: 'upsert', entry } satisfies ChannelMessage);
+}
+
+function isConflict(err: unknown): boolean {
+    return axios.isAxiosError(err) && err.response?.status === 409;
+}
+
+function logSyncFailure(action: string, err: unknown): void {
+    if (axios.isAxiosError(err) && err.response?.status === 404) {
+        if (!serverMissing) console.warn('[ReviewQueue] Queue endpoints not available, working locally');
+        serverMissing = true;
+        return;
+    }
+    console.warn(`[ReviewQueue] Failed to ${action}, will retry on next sync:`, err);
+}
+
+/**
+ * Push one unacknowledged local change to the server
+ */
+async function replay(entry: ReviewQueueEntry): Promise<void> {
+    let saved: ReviewQueueEntry;
+    if (entry.status === 'resolved' && entry.resolution) {
+        await enqueueReview(entry);
+        saved = await resolveReview(entry.id, entry.resolution);
+    } else if (entry.status === 'claimed' && entry.claimed_by) {
+        await enqueueReview(entry);
+        try {
+            saved = await claimReview(entry.id, { worker_id: entry.claimed_by, name: entry.claimed_by_name || '' });
+        } catch (err) {
+            if (!isConflict(err) || !axios.isAxiosError(err)) throw err;
+            // Someone else claimed it on the server while we were offline - theirs wins
+            saved = err.response?.data as ReviewQueueEntry;
+        }
+    } else {
+        saved = await enqueueReview(entry);
+    }
+    if (entry.escalated_at && !saved.escalated_at) {
+        saved = await escalateReview(entry.id);
+    }
+    commit(saved, true);
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Override the SLA thresholds from appConfig
+ */
+export function configureReviewSla(policy: Partial<ReviewSla>): void {
+    sla = { ...sla, ...policy };
+}
+
+export function getReviewSla(): ReviewSla {
+    return sla;
+}
+
+/**
+ * Deterministic entry ID, so every client enqueues a detection under the same key
+ */
+export function reviewIdFor(gateId: number, decision: NormalizedDecision): string {
+    return `${gateId}-${decision.timestampMs}-${decision.licensePlate.toUpperCase() || 'UNKNOWN'}`;
+}
+
+/**
+ * Build the queue entry for a MANUAL_REVIEW decision
+ */
+export function buildReviewEntry(gateId: number, decision: NormalizedDecision): ReviewQueueEntry {
+    return {
+        id: reviewIdFor(gateId, decision),
+        gate_id: gateId,
+        license_plate: decision.licensePlate.toUpperCase(),
+        status: 'pending',
+        detected_at: decision.timestamp,
+        payload: decision.raw,
+    };
+}
+
+/**
+ * The logged-in operator, as recorded on claims
+ */
+export function getCurrentClaimer(): ReviewClaimer {
+    const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+    return {
+        worker_id: String(userInfo.num_worker ?? userInfo.email ?? 'anonymous'),
+        name: userInfo.name || userInfo.email || 'Operator',
+    };
+}
+
+/**
+ * Whether an entry is claimed by anyone and the claim has not expired
+ */
+export function hasActiveClaim(entry: ReviewQueueEntry, now: number = Date.now()): boolean {
+    if (entry.status !== 'claimed' || !entry.claimed_by) return false;
+    const claimedAt = Date.parse(entry.claimed_at || '');
+    return Number.isNaN(claimedAt) || now - claimedAt < CLAIM_TTL_MS;
+}
+
+export function isClaimedByMe(entry: ReviewQueueEntry, now: number = Date.now()): boolean {
+    return hasActiveClaim(entry, now) && entry.claimed_by === getCurrentClaimer().worker_id;
+}
+
+/**
+ * How long the truck has been waiting for a decision
+ */
+export function getWaitMs(entry: ReviewQueueEntry, now: number = Date.now()): number {
+    const detectedAt = Date.parse(entry.detected_at);
+    return Number.isNaN(detectedAt) ? 0 : Math.max(0, now - detectedAt);
+}
+
+/**
+ * Compact waiting time for queue cards ("45s", "4m 05s")
+ */
+export function formatWaitTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+}
+
+export function getSlaLevel(entry: ReviewQueueEntry, now: number = Date.now()): SlaLevel {
+    const wait = getWaitMs(entry, now);
+    if (entry.escalated_at || wait >= sla.escalateAfterMs) return 'escalated';
+    return wait >= sla.warnAfterMs ? 'warning' : 'ok';
+}
+
+/**
+ * Current entries of every gate, including recently resolved ones
+ */
+export function getReviewQueueEntries(): ReviewQueueEntry[] {
+    return loadEntries();
+}
+
+/**
+ * Subscribe to queue changes; called immediately with the current entries
+ */
+export function subscribeReviewQueue(listener: QueueListener): () => void {
+    getChannel();
+    listeners.add(listener);
+    listener(loadEntries());
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Add an entry if it is not queued yet
+ */
+export async function enqueueEntry(entry: ReviewQueueEntry): Promise<void> {
+    if (loadEntries().some(existing => existing.id === entry.id)) return;
+    commit(entry, !config.reviewQueueApi);
+    if (!config.reviewQueueApi) return;
+    try {
+        commit(await enqueueReview(entry), true);
+    } catch (err) {
+        logSyncFailure('enqueue review', err);
+    }
+}
+
+/**
+ * Feed a decision received from the gate: MANUAL_REVIEW decisions are queued,
+ * later decisions for the same plate close the open entries they answer.
+ * Called by the tab that owns the gate's socket.
+ */
+export function trackDecision(gateId: number, decision: NormalizedDecision): void {
+    if (decision.decision === 'MANUAL_REVIEW') {
+        enqueueEntry(buildReviewEntry(gateId, decision));
+        return;
+    }
+
+    const plate = decision.licensePlate.toUpperCase();
+    loadEntries()
+        .filter(entry => entry.gate_id === gateId
+            && entry.status !== 'resolved'
+            && entry.license_plate === plate
+            && Date.parse(entry.detected_at) <= decision.timestampMs)
+        .forEach(entry => {
+            // The operator who decided already resolved it on the server
+            commit({
+                ...entry,
+                status: 'resolved',
+                resolution: decision.decision === 'ACCEPTED' ? 'accepted' : 'rejected',
+                resolved_at: decision.timestamp,
+            }, true);
+        });
+}
+
+/**
+ * Claim an entry for the current operator, queueing it first if needed.
+ * Fails when another operator holds an active claim.
+ */
+export async function claimEntry(entry: ReviewQueueEntry): Promise<ClaimResult> {
+    const current = loadEntries().find(existing => existing.id === entry.id) ?? entry;
+    if (current.status === 'resolved') {
+        return { ok: false, reason: `${current.license_plate || 'Truck'} was already ${current.resolution || 'decided'}` };
+    }
+    if (hasActiveClaim(current) && !isClaimedByMe(current)) {
+        return { ok: false, reason: `${current.license_plate || 'Truck'} is being reviewed by ${current.claimed_by_name || 'another operator'}` };
+    }
+
+    const claimer = getCurrentClaimer();
+    if (!config.reviewQueueApi) {
+        const claimed: ReviewQueueEntry = {
+            ...current,
+            status: 'claimed',
+            claimed_by: claimer.worker_id,
+            claimed_by_name: claimer.name,
+            claimed_at: new Date().toISOString(),
+        };
+        commit(claimed, true);
+        return { ok: true, entry: claimed };
+    }
+
+    try {
+        await enqueueReview(current);
+        const saved = await claimReview(current.id, claimer);
+        commit(saved, true);
+        return { ok: true, entry: saved };
+    } catch (err) {
+        if (isConflict(err) && axios.isAxiosError(err)) {
+            const theirs = err.response?.data as ReviewQueueEntry | undefined;
+            if (theirs?.id) commit(theirs, true);
+            return { ok: false, reason: `${current.license_plate || 'Truck'} is being reviewed by ${theirs?.claimed_by_name || 'another operator'}` };
+        }
+        // A local-only claim would let an operator on another PC decide the same truck
+        logSyncFailure('claim review', err);
+        return { ok: false, reason: 'Claim could not be confirmed' };
+    }
+}
+
+/**
+ * Return an entry claimed by the current operator to the queue
+ */
+export async function releaseEntry(entryId: string): Promise<void> {
+    const entry = loadEntries().find(existing => existing.id === entryId);
+    if (!entry || entry.status !== 'claimed' || entry.claimed_by !== getCurrentClaimer().worker_id) return;
+
+    commit({ ...entry, status: 'pending', claimed_by: null, claimed_by_name: null, claimed_at: null }, !config.reviewQueueApi);
+    if (!config.reviewQueueApi) return;
+    try {
+        commit(await releaseReview(entryId), true);
+    } catch (err) {
+        logSyncFailure('release review', err);
+    }
+}
+
+/**
+ * Release every claim held by the current operator (e.g. at the end of a shift)
+ */
+export async function releaseMyClaims(): Promise<void> {
+    const mine = loadEntries().filter(entry => isClaimedByMe(entry));
+    await Promise.all(mine.map(entry => releaseEntry(entry.id)));
+}
+
+/**
+ * Close an entry with the operator's decision
+ */
+export async function resolveEntry(entryId: string, resolution: 'accepted' | 'rejected'): Promise<void> {
+    const entry = loadEntries().find(existing => existing.id === entryId);
+    if (!entry || entry.status === 'resolved') return;
+
+    commit({ ...entry, status: 'resolved', resolution, resolved_at: new Date().toISOString() }, !config.reviewQueueApi);
+    if (!config.reviewQueueApi) return;
+    try {
+        commit(await resolveReview(entryId, resolution), true);
+    } catch (err) {
+        logSyncFailure('resolve review', err);
+    }
+}
+
+/**
+ * Merge the server's queue for the given gates and push local changes it has not seen
+ */
+export async function syncReviewQueue(gateIds: number[]): Promise<void> {
+    if (!config.reviewQueueApi) return;
+    for (const gateId of gateIds) {
+        let remote: ReviewQueueEntry[];
+        try {
+            remote = await getReviewQueue(gateId);
+            serverMissing = false;
+        } catch (err) {
+            logSyncFailure('fetch review queue', err);
+            continue;
+        }
+
+        const remoteIds = new Set(remote.map(entry => entry.id));
+        remote.forEach(entry => {
+            if (!unsynced.has(entry.id)) applyEntry(entry);
+        });
+        // Open entries the server no longer lists were resolved or removed elsewhere
+        const gone = loadEntries().filter(entry => entry.gate_id === gateId
+            && entry.status !== 'resolved'
+            && !remoteIds.has(entry.id)
+            && !unsynced.has(entry.id));
+        entries = loadEntries().filter(entry => !gone.includes(entry));
+        gone.forEach(entry => getChannel()?.postMessage({ type: 'remove', id: entry.id } satisfies ChannelMessage));
+        persist();
+        notify();
+
+        const pending = loadEntries().filter(entry => entry.gate_id === gateId && unsynced.has(entry.id));
+        for (const entry of pending) {
+            try {
+                await replay(entry);
+            } catch (err) {
+                logSyncFailure('replay review change', err);
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Whether this client escalates the gate's entries: only the gate's own
+ * operator PC, and there only the tab that leads the gate's socket
+ */
+function escalatesFor(gateId: number): boolean {
+    const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+    return Number(userInfo.gate_id || 1) === gateId && getGateWebSocket(gateId).isLeader();
+}
+
+/**
+ * Escalate open entries that have waited past the SLA
+ */
+function checkSla(gateIds: number[]): void {
+    const now = Date.now();
+    const escalating = gateIds.filter(escalatesFor);
+    if (escalating.length === 0) return;
+    loadEntries()
+        .filter(entry => escalating.includes(entry.gate_id)
+            && entry.status !== 'resolved'
+            && !entry.escalated_at
+            && getWaitMs(entry, now) >= sla.escalateAfterMs)
+        .forEach(entry => {
+            console.warn(`[ReviewQueue] ${entry.license_plate} at gate ${entry.gate_id} waited past the SLA, escalating`);
+            commit({ ...entry, escalated_at: new Date(now).toISOString() }, !config.reviewQueueApi);
+            if (!config.reviewQueueApi) return;
+            escalateReview(entry.id)
+                .then(saved => commit(saved, true))
+                .catch(err => logSyncFailure('escalate review', err));
+        });
+}
+
+/**
+ * Keep the queue for the given gates synced and SLA-checked until the returned stop function is called
+ */
+export function startReviewQueueSync(gateIds: number[]): () => void {
+    syncReviewQueue(gateIds);
+    checkSla(gateIds);
+    const syncTimer = setInterval(() => syncReviewQueue(gateIds), SYNC_INTERVAL_MS);
+    const slaTimer = setInterval(() => checkSla(gateIds), SLA_CHECK_INTERVAL_MS);
+    return () => {
+        clearInterval(syncTimer);
+        clearInterval(slaTimer);
+    };
+}
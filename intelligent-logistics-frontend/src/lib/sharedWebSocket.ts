@@ -0,0 +1,482 @@
+/**
+ * Cross-tab WebSocket sharing
+ * One tab per gate is elected leader over BroadcastChannel and owns the
+ * GateWebSocket. Every other tab receives its messages, connection events and
+ * state through the channel, behind the same subscription API.
+ */
+import GateWebSocket, {
+    type ConnectionHandler,
+    type ConnectionState,
+    type MessageHandler,
+    type MessageMeta,
+    type RecoveryHandler,
+    type RecoveryReport,
+    type StateHandler,
+} from './websocket';
+import { addDetection } from './eventStore';
+import { trackDecision } from './reviewQueue';
+import type { NormalizedDecision } from './payloadSchema';
+
+/** How often the leader announces itself */
+const LEADER_HEARTBEAT_MS = 1000;
+/** Followers start an election after this long without a leader heartbeat */
+const LEADER_TIMEOUT_MS = 5000;
+/** How long a candidate waits for competing claims before taking over */
+const CLAIM_WINDOW_MS = 300;
+
+type Role = 'follower' | 'candidate' | 'leader';
+
+type LeadershipHandler = (isLeader: boolean) => void;
+
+type ChannelMessage =
+    | { type: 'hello'; tabId: string }
+    | { type: 'heartbeat'; tabId: string; state: ConnectionState }
+    | { type: 'claim'; tabId: string }
+    | { type: 'resign'; tabId: string }
+    | { type: 'state'; tabId: string; state: ConnectionState }
+    | { type: 'message'; tabId: string; decision: NormalizedDecision; meta: MessageMeta }
+    | { type: 'recovery'; tabId: string; report: RecoveryReport }
+    | { type: 'connect'; tabId: string }
+    | { type: 'disconnect'; tabId: string };
+
+/**
+ * Tab IDs sort by creation time, so the oldest tab wins contested elections
+ */
+function createTabId(): string {
+    return `${Date.now().toString(36).padStart(10, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+class SharedGateWebSocket {
+    private gateId: string | number;
+    private tabId = createTabId();
+    private role: Role = 'follower';
+    private channel: BroadcastChannel | null = null;
+    private socket: GateWebSocket | null = null;
+    private socketUnsubscribers: Array<() => void> = [];
+    private leaderId: string | null = null;
+    private state: ConnectionState = 'connecting';
+    /** Newest payload seen by this tab, handed to the socket if this tab takes over */
+    private lastMessageAt: number | null = null;
+    private messageHandlers: Set<MessageHandler> = new Set();
+    private connectHandlers: Set<ConnectionHandler> = new Set();
+    private disconnectHandlers: Set<ConnectionHandler> = new Set();
+    private stateHandlers: Set<StateHandler> = new Set();
+    private recoveryHandlers: Set<RecoveryHandler> = new Set();
+    private leadershipHandlers: Set<LeadershipHandler> = new Set();
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private watchdogTimer: ReturnType<typeof setTimeout> | null = null;
+    private claimTimer: ReturnType<typeof setTimeout> | null = null;
+    private started = false;
+
+    constructor(gateId: string | number) {
+        this.gateId = gateId;
+    }
+
+    /**
+     * Join the election for this gate (or, as leader, make sure the socket is up)
+     */
+    connect(): void {
+        if (this.started) {
+            this.socket?.connect();
+            return;
+        }
+        this.started = true;
+
+        if (typeof BroadcastChannel === 'undefined') {
+            // No cross-tab support - every tab owns its own socket
+            this.becomeLeader();
+            return;
+        }
+
+        this.channel = new BroadcastChannel(`gate-ws-${this.gateId}`);
+        this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => this.handleChannelMessage(event.data);
+        window.addEventListener('pagehide', this.handlePageHide);
+
+        // A live leader answers with a heartbeat; otherwise the watchdog starts an election
+        this.post({ type: 'hello', tabId: this.tabId });
+        this.armWatchdog();
+    }
+
+    /**
+     * Leave the election, close the socket if this tab owns it and clear all handlers
+     */
+    disconnect(): void {
+        if (this.role === 'leader') {
+            this.post({ type: 'resign', tabId: this.tabId });
+        }
+        this.releaseSocket();
+        this.clearTimers();
+
+        if (this.channel) {
+            this.channel.close();
+            this.channel = null;
+            window.removeEventListener('pagehide', this.handlePageHide);
+        }
+
+        this.role = 'follower';
+        this.leaderId = null;
+        this.started = false;
+        this.setState('offline');
+
+        this.messageHandlers.clear();
+        this.connectHandlers.clear();
+        this.disconnectHandlers.clear();
+        this.stateHandlers.clear();
+        this.recoveryHandlers.clear();
+        this.leadershipHandlers.clear();
+    }
+
+    /**
+     * Reset the owned socket's backoff (no-op in follower tabs)
+     */
+    reset(): void {
+        this.socket?.reset();
+    }
+
+    /**
+     * Whether this tab currently owns the socket
+     */
+    isLeader(): boolean {
+        return this.role === 'leader';
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    onStateChange(handler: StateHandler): () => void {
+        this.stateHandlers.add(handler);
+        handler(this.state);
+        return () => this.stateHandlers.delete(handler);
+    }
+
+    onMessage(handler: MessageHandler): () => void {
+        this.messageHandlers.add(handler);
+        return () => this.messageHandlers.delete(handler);
+    }
+
+    onConnect(handler: ConnectionHandler): () => void {
+        this.connectHandlers.add(handler);
+        return () => this.connectHandlers.delete(handler);
+    }
+
+    onDisconnect(handler: ConnectionHandler): () => void {
+        this.disconnectHandlers.add(handler);
+        return () => this.disconnectHandlers.delete(handler);
+    }
+
+    onRecovery(handler: RecoveryHandler): () => void {
+        this.recoveryHandlers.add(handler);
+        return () => this.recoveryHandlers.delete(handler);
+    }
+
+    /**
+     * Called when this tab takes over or gives up the socket
+     */
+    onLeadershipChange(handler: LeadershipHandler): () => void {
+        this.leadershipHandlers.add(handler);
+        return () => this.leadershipHandlers.delete(handler);
+    }
+
+    // ==================== ELECTION ====================
+
+    private handleChannelMessage(msg: ChannelMessage): void {
+        if (!msg || msg.tabId === this.tabId) return;
+
+        switch (msg.type) {
+            case 'hello':
+                if (this.role === 'leader') this.postHeartbeat();
+                break;
+
+            case 'claim':
+                if (this.role === 'leader') {
+                    // Tell the candidate there is already a leader
+                    this.postHeartbeat();
+                } else if (this.role === 'candidate' && msg.tabId < this.tabId) {
+                    // An older tab is claiming - back off
+                    this.becomeFollower(null);
+                }
+                break;
+
+            case 'heartbeat':
+                if (this.role === 'leader') {
+                    // Split brain: the older tab keeps the socket
+                    if (msg.tabId < this.tabId) {
+                        this.becomeFollower(msg.tabId);
+                        this.setState(msg.state);
+                    } else {
+                        this.postHeartbeat();
+                    }
+                } else {
+                    this.becomeFollower(msg.tabId);
+                    this.setState(msg.state);
+                }
+                break;
+
+            case 'resign':
+                if (this.leaderId === msg.tabId) {
+                    this.leaderId = null;
+                    this.startElection();
+                }
+                break;
+
+            case 'state':
+                if (this.role !== 'leader') this.setState(msg.state);
+                break;
+
+            case 'message':
+                if (this.role !== 'leader') this.dispatchMessage(msg.decision, msg.meta);
+                break;
+
+            case 'recovery':
+                if (this.role !== 'leader') this.recoveryHandlers.forEach(handler => handler(msg.report));
+                break;
+
+            case 'connect':
+                if (this.role !== 'leader') this.connectHandlers.forEach(handler => handler());
+                break;
+
+            case 'disconnect':
+                if (this.role !== 'leader') this.disconnectHandlers.forEach(handler => handler());
+                break;
+        }
+    }
+
+    private startElection(): void {
+        if (this.role !== 'follower') return;
+        this.role = 'candidate';
+        this.post({ type: 'claim', tabId: this.tabId });
+
+        this.claimTimer = setTimeout(() => {
+            this.claimTimer = null;
+            if (this.role === 'candidate') this.becomeLeader();
+        }, CLAIM_WINDOW_MS);
+    }
+
+    private becomeFollower(leaderId: string | null): void {
+        const wasLeader = this.role === 'leader';
+        if (wasLeader) {
+            this.releaseSocket();
+        }
+        if (this.claimTimer) {
+            clearTimeout(this.claimTimer);
+            this.claimTimer = null;
+        }
+        this.role = 'follower';
+        this.leaderId = leaderId;
+        this.armWatchdog();
+        if (wasLeader) this.leadershipHandlers.forEach(handler => handler(false));
+    }
+
+    private becomeLeader(): void {
+        this.role = 'leader';
+        this.leaderId = this.tabId;
+        if (this.watchdogTimer) {
+            clearTimeout(this.watchdogTimer);
+            this.watchdogTimer = null;
+        }
+
+        const socket = new GateWebSocket(this.gateId);
+        if (this.lastMessageAt !== null) {
+            // Backfill whatever the previous leader missed before it went away
+            socket.resumeFrom(this.lastMessageAt);
+        }
+        this.socket = socket;
+
+        this.socketUnsubscribers = [
+            socket.onMessage((decision, meta) => {
+                // Only the leader persists, so the event store and review queue get each payload once
+                trackDecision(Number(this.gateId), decision);
+                addDetection(Number(this.gateId), decision, { recovered: meta.recovered }).catch((err) => {
+                    console.warn('[WS] Failed to save payload to event store:', err);
+                });
+                this.post({ type: 'message', tabId: this.tabId, decision, meta });
+                this.dispatchMessage(decision, meta);
+            }),
+            socket.onConnect(() => {
+                this.post({ type: 'connect', tabId: this.tabId });
+                this.connectHandlers.forEach(handler => handler());
+            }),
+            socket.onDisconnect(() => {
+                this.post({ type: 'disconnect', tabId: this.tabId });
+                this.disconnectHandlers.forEach(handler => handler());
+            }),
+            socket.onStateChange((state) => {
+                this.post({ type: 'state', tabId: this.tabId, state });
+                this.setState(state);
+            }),
+            socket.onRecovery((report) => {
+                this.post({ type: 'recovery', tabId: this.tabId, report });
+                this.recoveryHandlers.forEach(handler => handler(report));
+            }),
+        ];
+
+        socket.connect();
+
+        if (this.channel) {
+            this.postHeartbeat();
+            this.heartbeatTimer = setInterval(() => this.postHeartbeat(), LEADER_HEARTBEAT_MS);
+        }
+        this.leadershipHandlers.forEach(handler => handler(true));
+    }
+
+    private releaseSocket(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        this.socketUnsubscribers.forEach(unsubscribe => unsubscribe());
+        this.socketUnsubscribers = [];
+        this.socket?.disconnect();
+        this.socket = null;
+    }
+
+    private armWatchdog(): void {
+        if (this.watchdogTimer) clearTimeout(this.watchdogTimer);
+        this.watchdogTimer = setTimeout(() => {
+            this.watchdogTimer = null;
+            this.leaderId = null;
+            this.startElection();
+        }, LEADER_TIMEOUT_MS);
+    }
+
+    private clearTimers(): void {
+        [this.watchdogTimer, this.claimTimer].forEach(timer => {
+            if (timer) clearTimeout(timer);
+        });
+        this.watchdogTimer = null;
+        this.claimTimer = null;
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    private handlePageHide = (): void => {
+        // Let followers fail over immediately instead of waiting for the watchdog
+        if (this.role === 'leader') {
+            this.post({ type: 'resign', tabId: this.tabId });
+        }
+    };
+
+    // ==================== FAN-OUT ====================
+
+    private post(msg: ChannelMessage): void {
+        try {
+            this.channel?.postMessage(msg);
+        } catch (err) {
+            console.warn('[WS] Failed to post to tab channel:', err);
+        }
+    }
+
+    private postHeartbeat(): void {
+        this.post({ type: 'heartbeat', tabId: this.tabId, state: this.state });
+    }
+
+    private dispatchMessage(decision: NormalizedDecision, meta: MessageMeta): void {
+        this.lastMessageAt = Math.max(this.lastMessageAt ?? 0, decision.timestampMs);
+        this.messageHandlers.forEach(handler => handler(decision, meta));
+    }
+
+    private setState(next: ConnectionState): void {
+        if (this.state === next) return;
+        this.state = next;
+        this.stateHandlers.forEach(handler => handler(next));
+    }
+}
+
+// One shared socket per gate, so supervision views can follow several gates at once
+const wsPool: Map<string, SharedGateWebSocket> = new Map();
+
+interface PoolSubscription {
+    handler: MessageHandler;
+    /** Unsubscribes from the instance currently in the pool */
+    detach: () => void;
+}
+
+/** Message subscriptions that follow a gate across released and re-created instances */
+const poolSubscriptions: Map<string, Set<PoolSubscription>> = new Map();
+
+/**
+ * Get or create the shared WebSocket connection for a gate
+ */
+export function getGateWebSocket(gateId: string | number): SharedGateWebSocket {
+    const key = String(gateId);
+    let ws = wsPool.get(key);
+    if (!ws) {
+        const created = new SharedGateWebSocket(gateId);
+        poolSubscriptions.get(key)?.forEach(sub => {
+            sub.detach = created.onMessage(sub.handler);
+        });
+        ws = created;
+        wsPool.set(key, ws);
+    }
+    // Don't call reset() here - it causes issues with React Strict Mode
+    // Pooled instances persist and should maintain their connection state
+    return ws;
+}
+
+/**
+ * Subscribe to a gate's messages for as long as the caller needs them. Unlike
+ * onMessage on a pooled instance, the subscription survives
+ * releaseGateWebSocket and moves to the gate's next instance.
+ */
+export function subscribeGateMessages(gateId: string | number, handler: MessageHandler): () => void {
+    const key = String(gateId);
+    const sub: PoolSubscription = { handler, detach: getGateWebSocket(gateId).onMessage(handler) };
+    let subs = poolSubscriptions.get(key);
+    if (!subs) {
+        subs = new Set();
+        poolSubscriptions.set(key, subs);
+    }
+    subs.add(sub);
+    return () => {
+        sub.detach();
+        subs.delete(sub);
+        if (subs.size === 0) poolSubscriptions.delete(key);
+    };
+}
+
+/**
+ * Disconnect a gate's shared WebSocket and drop it from the pool
+ */
+export function releaseGateWebSocket(gateId: string | number): void {
+    const key = String(gateId);
+    const ws = wsPool.get(key);
+    if (!ws) return;
+    ws.disconnect();
+    wsPool.delete(key);
+}
+
+/**
+ * Gates that currently have a pooled WebSocket
+ */
+export function getPooledGateIds(): string[] {
+    return [...wsPool.keys()];
+}
+
+/**
+ * React hook for WebSocket connection
+ */
+export function useGateWebSocket(
+    gateId: string | number
+) {
+    const ws = getGateWebSocket(gateId);
+
+    // Effect should be handled in component
+    return {
+        connect: () => ws.connect(),
+        disconnect: () => ws.disconnect(),
+        getState: () => ws.getState(),
+        isLeader: () => ws.isLeader(),
+        onStateChange: ws.onStateChange.bind(ws),
+        onMessage: ws.onMessage.bind(ws),
+        onConnect: ws.onConnect.bind(ws),
+        onDisconnect: ws.onDisconnect.bind(ws),
+        onRecovery: ws.onRecovery.bind(ws),
+        onLeadershipChange: ws.onLeadershipChange.bind(ws),
+        extractCrops: GateWebSocket.extractCrops,
+    };
+}
+
+export { SharedGateWebSocket };
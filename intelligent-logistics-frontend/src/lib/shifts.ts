@@ -0,0 +1,56 @@
+/**
+ * Gate shift helpers
+ * Shifts follow ShiftTypeEnum: 06:00-14:00, 14:00-22:00 and 22:00-06:00
+ */
+
+export interface ShiftInfo {
+    name: string;
+    startTime: string;
+    endTime: string;
+    startHour: number;
+    endHour: number;
+}
+
+/**
+ * Get the shift that contains the given moment
+ */
+export function getShiftInfo(date: Date = new Date()): ShiftInfo {
+    const hour = date.getHours();
+    if (hour >= 6 && hour < 14) return { name: "Morning Shift", startTime: "06:00", endTime: "14:00", startHour: 6, endHour: 14 };
+    if (hour >= 14 && hour < 22) return { name: "Afternoon Shift", startTime: "14:00", endTime: "22:00", startHour: 14, endHour: 22 };
+    return { name: "Night Shift", startTime: "22:00", endTime: "06:00", startHour: 22, endHour: 6 };
+}
+
+/**
+ * Get the start of the shift that contains the given moment.
+ * The night shift started the previous day when it's before 06:00.
+ */
+export function getShiftStart(date: Date = new Date()): Date {
+    const shift = getShiftInfo(date);
+    const start = new Date(date);
+    start.setHours(shift.startHour, 0, 0, 0);
+    if (start > date) {
+        start.setDate(start.getDate() - 1);
+    }
+    return start;
+}
+
+/**
+ * Shift type as expected by the visits API
+ */
+export function getShiftType(date: Date = new Date()): "MORNING" | "AFTERNOON" | "NIGHT" {
+    const { startHour } = getShiftInfo(date);
+    if (startHour === 6) return "MORNING";
+    if (startHour === 14) return "AFTERNOON";
+    return "NIGHT";
+}
+
+/**
+ * Calendar date (YYYY-MM-DD, local time) the shift started on
+ */
+export function getShiftDate(date: Date = new Date()): string {
+    const start = getShiftStart(date);
+    const month = String(start.getMonth() + 1).padStart(2, "0");
+    const day = String(start.getDate()).padStart(2, "0");
+    return `${start.getFullYear()}-${month}-${day}`;
+}
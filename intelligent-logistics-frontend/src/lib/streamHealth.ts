@@ -0,0 +1,105 @@
+/**
+ * Stream health telemetry
+ * HLSPlayer records a playback snapshot per camera feed every few seconds;
+ * the latest snapshot per feed is kept here for local display and pushed to
+ * the API periodically so managers can see camera feed quality. Reporting
+ * only runs when the backend takes telemetry (appConfig.streamHealthApi).
+ */
+import axios from 'axios';
+import config from '@/config/appConfig';
+import { reportStreamHealth, type StreamHealthReport } from '@/services/streams';
+
+/** How often the latest snapshots are sent to the server */
+const REPORT_INTERVAL_MS = 30000;
+const CLIENT_ID_KEY = 'stream_client_id';
+
+export type StreamHealthLevel = 'good' | 'degraded' | 'poor';
+
+type HealthListener = (reports: StreamHealthReport[]) => void;
+
+const latest: Map<string, StreamHealthReport> = new Map();
+const listeners: Set<HealthListener> = new Set();
+let reportTimer: ReturnType<typeof setInterval> | null = null;
+/** Set once the health endpoint answers 404, to stop reporting */
+let serverMissing = false;
+
+// ==================== INTERNALS ====================
+
+function notify(): void {
+    const reports = Array.from(latest.values());
+    listeners.forEach(listener => listener(reports));
+}
+
+async function flush(): Promise<void> {
+    if (serverMissing) return;
+    for (const report of latest.values()) {
+        try {
+            await reportStreamHealth(report);
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response?.status === 404) {
+                console.warn('[StreamHealth] Health endpoint not available, reporting disabled');
+                serverMissing = true;
+                return;
+            }
+            console.warn('[StreamHealth] Failed to report stream health:', err);
+        }
+    }
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Stable id for this browser session, so reports from one PC replace each other
+ */
+export function getStreamClientId(): string {
+    let id = sessionStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+        const userInfo = JSON.parse(localStorage.getItem('user_info') || '{}');
+        id = `${userInfo.num_worker ?? 'anon'}-${Math.random().toString(36).slice(2, 8)}`;
+        sessionStorage.setItem(CLIENT_ID_KEY, id);
+    }
+    return id;
+}
+
+/**
+ * Store the latest snapshot for a feed and start periodic reporting
+ */
+export function recordStreamHealth(report: StreamHealthReport): void {
+    latest.set(report.gate_id, report);
+    notify();
+    if (config.streamHealthApi && !reportTimer) {
+        reportTimer = setInterval(flush, REPORT_INTERVAL_MS);
+    }
+}
+
+/**
+ * Forget a feed (player unmounted); reporting stops when none are left
+ */
+export function clearStreamHealth(gateId: string): void {
+    latest.delete(gateId);
+    notify();
+    if (latest.size === 0 && reportTimer) {
+        clearInterval(reportTimer);
+        reportTimer = null;
+    }
+}
+
+export function subscribeStreamHealth(listener: HealthListener): () => void {
+    listeners.add(listener);
+    listener(Array.from(latest.values()));
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Classify a snapshot for display (thresholds tuned for gate cameras)
+ */
+export function getStreamHealthLevel(report: StreamHealthReport): StreamHealthLevel {
+    const droppedRatio = report.total_frames > 0 ? report.dropped_frames / report.total_frames : 0;
+    const latency = report.latency_s ?? 0;
+
+    if (latency > 10 || report.rebuffer_count >= 3 || droppedRatio > 0.05) return 'poor';
+    if (latency > 5 || report.rebuffer_count >= 1 || droppedRatio > 0.01) return 'degraded';
+    return 'good';
+}
@@ -0,0 +1,175 @@
+/**
+ * Camera/gate registry
+ * Single source for gates, cameras, HLS variants and labels. Loaded from the
+ * API when the backend serves it (appConfig.streamRegistryApi) and cached in
+ * localStorage, so adding a gate is a data change rather than a code change.
+ * Otherwise the built-in gate list is used, and streams resolve through the
+ * per-gate endpoints.
+ */
+import config from '@/config/appConfig';
+import { DEFAULT_STREAM_REGISTRY } from '@/config/streams';
+import {
+    getStreamRegistry,
+    getStreamRenditions,
+    type CameraInfo,
+    type GateInfo,
+    type StreamRegistry,
+    type StreamRenditions,
+} from '@/services/streams';
+
+const CACHE_KEY = 'stream_registry';
+/** A cached registry newer than this is used without asking the API */
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+export type RegistrySource = 'api' | 'cache' | 'default';
+
+type RegistryListener = (registry: StreamRegistry) => void;
+
+let current: StreamRegistry | null = null;
+let currentSource: RegistrySource = 'default';
+let loading: Promise<StreamRegistry> | null = null;
+const listeners: Set<RegistryListener> = new Set();
+
+// ==================== INTERNALS ====================
+
+function isRegistry(value: unknown): value is StreamRegistry {
+    const gates = (value as StreamRegistry | null)?.gates;
+    return Array.isArray(gates) && gates.every(gate =>
+        Number.isInteger(gate.id) && typeof gate.key === 'string' && Array.isArray(gate.cameras)
+    );
+}
+
+function readCache(): { registry: StreamRegistry; fetchedAt: number } | null {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+        if (saved && isRegistry(saved.registry)) return saved;
+    } catch {
+        // Corrupt cache; ignore it
+    }
+    return null;
+}
+
+function setRegistry(registry: StreamRegistry, source: RegistrySource): StreamRegistry {
+    // Keep gates in id order so lists and selectors are stable
+    current = { ...registry, gates: [...registry.gates].sort((a, b) => a.id - b.id) };
+    currentSource = source;
+    listeners.forEach(listener => listener(current!));
+    return current;
+}
+
+async function fetchRegistry(): Promise<StreamRegistry> {
+    if (!config.streamRegistryApi) return setRegistry(DEFAULT_STREAM_REGISTRY, 'default');
+
+    try {
+        const registry = await getStreamRegistry();
+        if (!isRegistry(registry)) throw new Error('Malformed registry');
+        localStorage.setItem(CACHE_KEY, JSON.stringify({ registry, fetchedAt: Date.now() }));
+        return setRegistry(registry, 'api');
+    } catch (err) {
+        console.warn('[Registry] API registry unavailable, falling back:', err);
+    }
+
+    const cached = readCache();
+    if (cached) return setRegistry(cached.registry, 'cache');
+
+    return setRegistry(DEFAULT_STREAM_REGISTRY, 'default');
+}
+
+function toAbsolute(registry: StreamRegistry, path?: string): string | undefined {
+    if (!path) return undefined;
+    if (/^https?:\/\//.test(path) || !registry.stream_base_url) return path;
+    return `${registry.stream_base_url.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+}
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Registry available right now without waiting: last loaded, else cached, else defaults
+ */
+export function getRegistrySnapshot(): StreamRegistry {
+    if (current) return current;
+    const cached = readCache();
+    return cached ? cached.registry : DEFAULT_STREAM_REGISTRY;
+}
+
+export function getRegistrySource(): RegistrySource {
+    return currentSource;
+}
+
+/**
+ * Load the registry (once per session unless forced or the cache expired)
+ */
+export function loadStreamRegistry(force: boolean = false): Promise<StreamRegistry> {
+    if (current && !force) return Promise.resolve(current);
+
+    const cached = readCache();
+    if (!force && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return Promise.resolve(setRegistry(cached.registry, 'cache'));
+    }
+
+    if (!loading) {
+        loading = fetchRegistry().finally(() => {
+            loading = null;
+        });
+    }
+    return loading;
+}
+
+export function subscribeStreamRegistry(listener: RegistryListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getGate(gateId: number, registry: StreamRegistry = getRegistrySnapshot()): GateInfo | undefined {
+    return registry.gates.find(gate => gate.id === gateId);
+}
+
+/**
+ * Stream server key for a gate ("gate1"); also the player capture/replay key
+ */
+export function getGateKey(gateId: number): string {
+    return getGate(gateId)?.key || `gate${gateId}`;
+}
+
+export function getGateLabel(gateId: number): string {
+    return getGate(gateId)?.label || `Gate ${gateId}`;
+}
+
+export function getGateCameras(gateId: number, registry: StreamRegistry = getRegistrySnapshot()): CameraInfo[] {
+    return getGate(gateId, registry)?.cameras || [];
+}
+
+/**
+ * Resolve a camera's HLS variants to absolute URLs. Cameras without variants
+ * in the registry are looked up through the per-gate stream endpoints.
+ */
+export async function resolveRenditions(gateId: number, cameraId?: string): Promise<StreamRenditions> {
+    const registry = await loadStreamRegistry();
+    const gate = getGate(gateId, registry);
+    const cameras = gate?.cameras || [];
+    const camera = cameras.find(c => c.id === cameraId)
+        || cameras.find(c => c.primary)
+        || cameras[0];
+
+    const renditions: StreamRenditions = {
+        low: toAbsolute(registry, camera?.variants?.low),
+        high: toAbsolute(registry, camera?.variants?.high),
+    };
+    if (renditions.low || renditions.high) return renditions;
+
+    return getStreamRenditions(gate?.key || `gate${gateId}`);
+}
+
+/**
+ * One variant's URL, falling back to the other when it is missing
+ */
+export async function resolveStreamUrl(
+    gateId: number,
+    quality: 'low' | 'high' = 'high',
+    cameraId?: string
+): Promise<string> {
+    const renditions = await resolveRenditions(gateId, cameraId);
+    return (quality === 'low' ? renditions.low || renditions.high : renditions.high || renditions.low)!;
+}
@@ -0,0 +1,136 @@
+/**
+ * Visit lifecycle
+ * Gate-in, unloading and gate-out for an appointment's visit. Each step
+ * updates the visit and, where the status state machine allows it, moves the
+ * appointment along (gate-in -> in_process, gate-out -> completed).
+ */
+import { getErrorMessage } from '@/lib/api';
+import { createVisit, updateArrivalStatus, updateVisit } from '@/services/arrivals';
+import { canTransition } from '@shared/appointmentStatus';
+import { getShiftDate, getShiftType } from './shifts';
+import type { Appointment, AppointmentStatusEnum, Visit } from '@/types/types';
+
+export type VisitStage = 'scheduled' | 'gate_in' | 'unloading' | 'gate_out';
+
+export type VisitResult =
+    | { ok: true; visit: Visit; appointment: Appointment }
+    | { ok: false; reason: string };
+
+export interface VisitTimelineStep {
+    stage: VisitStage;
+    label: string;
+    /** ISO time of the step, when known */
+    time?: string | null;
+    done: boolean;
+}
+
+// ==================== INTERNALS ====================
+
+async function moveAppointment(appointment: Appointment, to: AppointmentStatusEnum): Promise<Appointment> {
+    if (appointment.status === to || !canTransition(appointment.status, to, 'operator')) return appointment;
+    return updateArrivalStatus(appointment.id, { status: to }, { from: appointment.status });
+}
+
+// ==================== STAGES ====================
+
+export function getVisitStage(visit: Visit | null): VisitStage {
+    if (!visit) return 'scheduled';
+    if (visit.out_time || visit.state === 'completed') return 'gate_out';
+    if (visit.state === 'unloading') return 'unloading';
+    return 'gate_in';
+}
+
+/**
+ * Timeline from schedule to gate-out. Unloading has no timestamp in the visit
+ * record, so only whether it was reached is shown.
+ */
+export function getVisitTimeline(appointment: Appointment, visit: Visit | null): VisitTimelineStep[] {
+    const order: VisitStage[] = ['scheduled', 'gate_in', 'unloading', 'gate_out'];
+    const reached = order.indexOf(getVisitStage(visit));
+    return [
+        { stage: 'scheduled', label: 'Scheduled', time: appointment.scheduled_start_time, done: true },
+        { stage: 'gate_in', label: 'Gate-in', time: visit?.entry_time, done: reached >= 1 },
+        { stage: 'unloading', label: 'Unloading', done: reached >= 2 },
+        { stage: 'gate_out', label: 'Gate-out', time: visit?.out_time, done: reached >= 3 },
+    ];
+}
+
+/**
+ * Time spent inside the terminal, up to now while the truck is still in
+ */
+export function getDwellMs(visit: Visit | null, now: number = Date.now()): number | null {
+    if (!visit?.entry_time) return null;
+    const end = visit.out_time ? new Date(visit.out_time).getTime() : now;
+    return Math.max(0, end - new Date(visit.entry_time).getTime());
+}
+
+/**
+ * Minutes between the scheduled time and gate-in; negative when early
+ */
+export function getEntryDelayMinutes(appointment: Appointment, visit: Visit | null): number | null {
+    if (!appointment.scheduled_start_time || !visit?.entry_time) return null;
+    const diff = new Date(visit.entry_time).getTime() - new Date(appointment.scheduled_start_time).getTime();
+    return Math.round(diff / 60000);
+}
+
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${String(minutes % 60).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+// ==================== ACTIONS ====================
+
+/**
+ * Register the truck entering through a gate, against the current shift
+ */
+export async function registerGateIn(appointment: Appointment, gateId: number, now: Date = new Date()): Promise<VisitResult> {
+    if (appointment.status !== 'in_process' && !canTransition(appointment.status, 'in_process', 'operator')) {
+        return { ok: false, reason: `A ${appointment.status.replace('_', ' ')} appointment cannot enter the terminal` };
+    }
+    try {
+        let visit = await createVisit(appointment.id, {
+            shift_gate_id: gateId,
+            shift_type: getShiftType(now),
+            shift_date: getShiftDate(now),
+        });
+        if (!visit.entry_time) {
+            visit = await updateVisit(appointment.id, { state: 'not_started', entry_time: now.toISOString() });
+        }
+        const updated = await moveAppointment(appointment, 'in_process');
+        return { ok: true, visit, appointment: updated };
+    } catch (err) {
+        console.error('[Visit] Gate-in failed:', err);
+        return { ok: false, reason: getErrorMessage(err) };
+    }
+}
+
+export async function startUnloading(appointment: Appointment, visit: Visit): Promise<VisitResult> {
+    if (getVisitStage(visit) !== 'gate_in') {
+        return { ok: false, reason: 'Unloading can only start after gate-in' };
+    }
+    try {
+        const updated = await updateVisit(appointment.id, { state: 'unloading' });
+        return { ok: true, visit: updated, appointment };
+    } catch (err) {
+        console.error('[Visit] Start unloading failed:', err);
+        return { ok: false, reason: getErrorMessage(err) };
+    }
+}
+
+/**
+ * Register the truck leaving; completes the appointment
+ */
+export async function registerGateOut(appointment: Appointment, visit: Visit, now: Date = new Date()): Promise<VisitResult> {
+    if (getVisitStage(visit) === 'gate_out') {
+        return { ok: false, reason: 'Gate-out is already registered' };
+    }
+    try {
+        const updated = await updateVisit(appointment.id, { state: 'completed', out_time: now.toISOString() });
+        const completed = await moveAppointment(appointment, 'completed');
+        return { ok: true, visit: updated, appointment: completed };
+    } catch (err) {
+        console.error('[Visit] Gate-out failed:', err);
+        return { ok: false, reason: getErrorMessage(err) };
+    }
+}
@@ -3,8 +3,45 @@
  * Handles connection to /ws/gate/{gate_id} for decision updates
  */
 
-type MessageHandler = (data: DecisionUpdatePayload) => void;
-type ConnectionHandler = () => void;
+import { fetchMissedPayloads, type RecoveryWindow } from './gapRecovery';
+import { validateDecisionPayload, type NormalizedDecision } from './payloadSchema';
+import { quarantinePayload } from './quarantine';
+
+/** Handlers receive the validated, normalised decision; the original payload is on `raw` */
+export type MessageHandler = (decision: NormalizedDecision, meta: MessageMeta) => void;
+export type ConnectionHandler = () => void;
+export type StateHandler = (state: ConnectionState) => void;
+export type RecoveryHandler = (report: RecoveryReport) => void;
+
+/**
+ * Connection lifecycle as seen by the UI.
+ * - connecting: socket is being opened (initial connect or reconnect backoff)
+ * - open:       socket is open and the last heartbeat was answered
+ * - stale:      socket reports OPEN but the heartbeat went unanswered (half-open)
+ * - offline:    browser reports no network; reconnect resumes on the `online` event
+ */
+export type ConnectionState = 'connecting' | 'open' | 'stale' | 'offline';
+
+/**
+ * Delivery metadata passed alongside each payload.
+ * `recovered` is true for payloads replayed from event history after a reconnect.
+ */
+export interface MessageMeta {
+    recovered: boolean;
+}
+
+/**
+ * Outcome of a gap recovery after a reconnect.
+ * When `complete` is false, decisions made between `window.since` and
+ * `coveredSince` may be missing from the replay.
+ */
+export interface RecoveryReport {
+    window: RecoveryWindow;
+    /** Decisions replayed from history */
+    recovered: number;
+    complete: boolean;
+    coveredSince: number;
+}
 
 /**
  * Payload structure from the API Gateway via Kafka.
@@ -15,7 +52,7 @@ export interface DecisionUpdatePayload {
     // Message type identifier (e.g. "decision_results")
     message_type: string;
 
-    // Timestamp (Unix epoch in seconds)
+    // Timestamp (Unix epoch in seconds; validated and normalised by payloadSchema)
     timestamp: number;
 
     // License plate detection
@@ -53,6 +90,18 @@ export interface CropUpdate {
     timestamp: string;
 }
 
+/** Interval between application-level pings */
+const HEARTBEAT_INTERVAL_MS = 15000;
+/** How long to wait for any inbound frame after a ping before declaring the socket stale */
+const HEARTBEAT_TIMEOUT_MS = 10000;
+/** First reconnect delay; doubles per attempt up to RECONNECT_MAX_DELAY_MS */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+/** Two payloads for the same plate and decision this close in time are the same event */
+const DEDUPE_TOLERANCE_MS = 5000;
+/** How many delivered payloads are remembered for deduplication */
+const DEDUPE_HISTORY_SIZE = 200;
+
 class GateWebSocket {
     private ws: WebSocket | null = null;
     private gateId: string | number;
@@ -60,10 +109,22 @@ class GateWebSocket {
     private messageHandlers: Set<MessageHandler> = new Set();
     private connectHandlers: Set<ConnectionHandler> = new Set();
     private disconnectHandlers: Set<ConnectionHandler> = new Set();
+    private stateHandlers: Set<StateHandler> = new Set();
+    private recoveryHandlers: Set<RecoveryHandler> = new Set();
+    private state: ConnectionState = 'connecting';
     private reconnectAttempts = 0;
-    private maxReconnectAttempts = 5;
-    private reconnectDelay = 3000;
     private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+    private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+    /** False once disconnect() is called; stops every automatic reconnect path */
+    private shouldReconnect = true;
+    private browserListenersAttached = false;
+    /** Epoch ms of the newest payload delivered, used as the start of the recovery window */
+    private lastMessageAt: number | null = null;
+    /** When the previous socket was lost; null until the first disconnect */
+    private disconnectedAt: number | null = null;
+    private hasConnected = false;
+    private deliveredHistory: Array<{ key: string; at: number }> = [];
 
     constructor(gateId: string | number, baseUrl?: string) {
         this.gateId = gateId;
@@ -75,6 +136,9 @@ class GateWebSocket {
      * Connect to the WebSocket
      */
     connect(): void {
+        this.shouldReconnect = true;
+        this.attachBrowserListeners();
+
         // Prevent duplicate connections - check both OPEN and CONNECTING states
         if (this.ws) {
             if (this.ws.readyState === WebSocket.OPEN) {
@@ -92,36 +156,58 @@ class GateWebSocket {
             }
         }
 
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            this.setState('offline');
+            return;
+        }
+
         const url = `${this.baseUrl}/ws/decisions/${this.gateId}`;
         console.log(`[WS] Connecting to ${url}...`);
+        this.setState('connecting');
 
         try {
-            this.ws = new WebSocket(url);
+            const socket = new WebSocket(url);
+            this.ws = socket;
 
-            this.ws.onopen = () => {
+            socket.onopen = () => {
                 console.log('[WS] Connected successfully');
                 this.reconnectAttempts = 0;
+                this.setState('open');
+                this.startHeartbeat();
                 this.connectHandlers.forEach(handler => handler());
+                if (this.hasConnected) {
+                    this.recoverGap();
+                }
+                this.hasConnected = true;
             };
 
-            this.ws.onmessage = (event) => {
+            socket.onmessage = (event) => {
+                // Any inbound frame proves the socket is alive
+                this.markAlive();
+                let data: unknown;
                 try {
-                    const data = JSON.parse(event.data) as DecisionUpdatePayload;
-                    console.log('[WS] Message received:', data.message_type);
-                    this.messageHandlers.forEach(handler => handler(data));
+                    data = JSON.parse(event.data);
                 } catch (err) {
                     console.error('[WS] Failed to parse message:', err);
+                    quarantinePayload(this.gateId, event.data, [{ path: '', message: 'Invalid JSON' }]);
+                    return;
                 }
+                if (GateWebSocket.isHeartbeat(data)) return;
+                this.deliver(data, { recovered: false });
             };
 
-            this.ws.onclose = (event) => {
+            socket.onclose = (event) => {
                 console.log(`[WS] Connection closed: ${event.code} ${event.reason}`);
+                // Ignore late close events from a socket we already replaced
+                if (this.ws !== socket) return;
                 this.ws = null;
+                this.disconnectedAt ??= Date.now();
+                this.stopHeartbeat();
                 this.disconnectHandlers.forEach(handler => handler());
                 this.attemptReconnect();
             };
 
-            this.ws.onerror = (error) => {
+            socket.onerror = (error) => {
                 console.error('[WS] Error:', error);
             };
         } catch (err) {
@@ -131,44 +217,244 @@ class GateWebSocket {
     }
 
     /**
-     * Attempt to reconnect with exponential backoff
+     * Schedule a reconnect with capped exponential backoff and full jitter.
+     * Never gives up: a gate PC must recover on its own after any outage.
      */
     private attemptReconnect(): void {
-        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-            console.log('[WS] Max reconnect attempts reached');
+        if (!this.shouldReconnect) return;
+        if (this.reconnectTimer) return;
+
+        if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+            // The `online` listener will trigger the next attempt
+            this.setState('offline');
             return;
         }
 
+        const ceiling = Math.min(
+            RECONNECT_MAX_DELAY_MS,
+            RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts)
+        );
+        const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
         this.reconnectAttempts++;
-        const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
 
-        console.log(`[WS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+        console.log(`[WS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+        // Keep 'stale' visible during backoff; connect() moves to 'connecting'
+        if (this.state === 'open') this.setState('connecting');
 
         this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
             this.connect();
         }, delay);
     }
 
+    /**
+     * Skip any pending backoff and reconnect now (used on network/visibility recovery)
+     */
+    private reconnectNow(): void {
+        if (!this.shouldReconnect) return;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    /**
+     * Send a ping on a fixed interval; if nothing comes back in time the socket is
+     * half-open (e.g. NAT dropped it) and is force-closed so onclose reconnects.
+     */
+    private startHeartbeat(): void {
+        this.stopHeartbeat();
+        this.heartbeatTimer = setInterval(() => this.sendPing(), HEARTBEAT_INTERVAL_MS);
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        if (this.heartbeatTimeout) {
+            clearTimeout(this.heartbeatTimeout);
+            this.heartbeatTimeout = null;
+        }
+    }
+
+    private sendPing(): void {
+        if (this.ws?.readyState !== WebSocket.OPEN) return;
+        // A ping is already outstanding - let its timeout decide
+        if (this.heartbeatTimeout) return;
+
+        try {
+            this.ws.send(JSON.stringify({ type: 'ping', timestamp: Date.now() }));
+        } catch (err) {
+            console.warn('[WS] Failed to send ping:', err);
+        }
+
+        this.heartbeatTimeout = setTimeout(() => {
+            this.heartbeatTimeout = null;
+            console.warn('[WS] Heartbeat timed out, connection is stale');
+            this.setState('stale');
+            this.dropSocket();
+        }, HEARTBEAT_TIMEOUT_MS);
+    }
+
+    /**
+     * Abandon a half-open socket without waiting for its close handshake,
+     * which may never complete when the peer is unreachable.
+     */
+    private dropSocket(): void {
+        const socket = this.ws;
+        if (!socket) return;
+        this.ws = null;
+        this.disconnectedAt ??= Date.now();
+        this.stopHeartbeat();
+        try {
+            socket.close(4000, 'Heartbeat timeout');
+        } catch (err) {
+            console.warn('[WS] Failed to close stale socket:', err);
+        }
+        this.disconnectHandlers.forEach(handler => handler());
+        this.attemptReconnect();
+    }
+
+    private markAlive(): void {
+        if (this.heartbeatTimeout) {
+            clearTimeout(this.heartbeatTimeout);
+            this.heartbeatTimeout = null;
+        }
+        if (this.state !== 'open') {
+            this.setState('open');
+        }
+    }
+
+    private handleOnline = (): void => {
+        this.reconnectNow();
+    };
+
+    private handleOffline = (): void => {
+        this.setState('offline');
+    };
+
+    private handleVisibilityChange = (): void => {
+        if (document.visibilityState !== 'visible') return;
+        // Background tabs get their timers throttled; verify the socket right away
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            this.sendPing();
+        } else {
+            this.reconnectNow();
+        }
+    };
+
+    private attachBrowserListeners(): void {
+        if (this.browserListenersAttached || typeof window === 'undefined') return;
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        this.browserListenersAttached = true;
+    }
+
+    private detachBrowserListeners(): void {
+        if (!this.browserListenersAttached) return;
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        this.browserListenersAttached = false;
+    }
+
+    /**
+     * Validate a payload and hand it to subscribers, quarantining invalid ones
+     * and dropping duplicates of one already delivered
+     */
+    private deliver(input: unknown, meta: MessageMeta): void {
+        const result = validateDecisionPayload(input);
+        if (!result.ok) {
+            quarantinePayload(this.gateId, input, result.errors, result.warnings);
+            return;
+        }
+        if (result.warnings.length > 0) {
+            console.warn('[WS] Payload accepted with warnings:', result.warnings);
+        }
+
+        const decision = result.value;
+        const at = decision.timestampMs;
+        const key = `${decision.licensePlate.toUpperCase()}|${decision.decision}`;
+
+        if (meta.recovered) {
+            const seen = this.deliveredHistory.some(
+                entry => entry.key === key && Math.abs(entry.at - at) <= DEDUPE_TOLERANCE_MS
+            );
+            if (seen) return;
+        }
+
+        this.deliveredHistory.push({ key, at });
+        if (this.deliveredHistory.length > DEDUPE_HISTORY_SIZE) {
+            this.deliveredHistory.shift();
+        }
+        this.lastMessageAt = Math.max(this.lastMessageAt ?? 0, at);
+
+        this.messageHandlers.forEach(handler => handler(decision, meta));
+    }
+
+    /**
+     * Replay decisions broadcast while the socket was down. The window starts at
+     * the last payload seen (or the disconnect time if none was ever received).
+     */
+    private async recoverGap(): Promise<void> {
+        const since = this.lastMessageAt ?? this.disconnectedAt;
+        this.disconnectedAt = null;
+        if (since === null) return;
+
+        const window = { since, until: Date.now() };
+        let report: RecoveryReport;
+        try {
+            const { payloads, complete, coveredSince } = await fetchMissedPayloads(this.gateId, window);
+            if (!complete) {
+                console.warn(`[WS] Gap recovery incomplete, history only reached ${new Date(coveredSince).toISOString()}`);
+            }
+            payloads.forEach(payload => this.deliver(payload, { recovered: true }));
+            report = { window, recovered: payloads.length, complete, coveredSince };
+        } catch (err) {
+            console.error('[WS] Gap recovery failed:', err);
+            report = { window, recovered: 0, complete: false, coveredSince: window.until };
+        }
+        this.recoveryHandlers.forEach(handler => handler(report));
+    }
+
+    private setState(next: ConnectionState): void {
+        if (this.state === next) return;
+        this.state = next;
+        this.stateHandlers.forEach(handler => handler(next));
+    }
+
     /**
      * Disconnect from the WebSocket
      */
     disconnect(): void {
+        this.shouldReconnect = false; // Prevent auto-reconnect
+
         if (this.reconnectTimer) {
             clearTimeout(this.reconnectTimer);
             this.reconnectTimer = null;
         }
 
+        this.stopHeartbeat();
+        this.detachBrowserListeners();
+
         if (this.ws) {
-            this.ws.close();
+            const socket = this.ws;
             this.ws = null;
+            socket.close();
         }
 
-        this.reconnectAttempts = this.maxReconnectAttempts; // Prevent auto-reconnect
+        this.setState('offline');
 
         // Clear all handlers to prevent accumulation
         this.messageHandlers.clear();
         this.connectHandlers.clear();
         this.disconnectHandlers.clear();
+        this.stateHandlers.clear();
+        this.recoveryHandlers.clear();
 
         console.log('[WS] Disconnected and handlers cleared');
     }
@@ -186,10 +472,29 @@ class GateWebSocket {
     }
 
     /**
-     * Check if connected
+     * Treat the next open as a reconnect and backfill from the given moment.
+     * Used when this socket takes over from another owner (e.g. a closed leader tab).
+     */
+    resumeFrom(lastMessageAt: number): void {
+        this.lastMessageAt = Math.max(this.lastMessageAt ?? 0, lastMessageAt);
+        this.hasConnected = true;
+    }
+
+    /**
+     * Current connection state
      */
-    isConnected(): boolean {
-        return this.ws?.readyState === WebSocket.OPEN;
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Subscribe to connection state changes. The handler is called immediately
+     * with the current state so subscribers never render a stale value.
+     */
+    onStateChange(handler: StateHandler): () => void {
+        this.stateHandlers.add(handler);
+        handler(this.state);
+        return () => this.stateHandlers.delete(handler);
     }
 
     /**
@@ -217,53 +522,34 @@ class GateWebSocket {
     }
 
     /**
-     * Extract crop URLs from decision payload
+     * Subscribe to the outcome of each gap recovery after a reconnect
      */
-    static extractCrops(payload: DecisionUpdatePayload): CropUpdate {
-        return {
-            lpCrop: payload.license_crop_url,
-            hzCrop: payload.hazard_crop_url,
-            lpResult: payload.license_plate,
-            hzResult: payload.un || payload.kemler || undefined,
-            timestamp: payload.timestamp ? new Date(payload.timestamp * 1000).toISOString() : new Date().toISOString(),
-        };
+    onRecovery(handler: RecoveryHandler): () => void {
+        this.recoveryHandlers.add(handler);
+        return () => this.recoveryHandlers.delete(handler);
     }
-}
 
-// Singleton instance holder
-let wsInstance: GateWebSocket | null = null;
-
-/**
- * Get or create WebSocket connection for a gate
- */
-export function getGateWebSocket(gateId: string | number): GateWebSocket {
-    if (!wsInstance || wsInstance['gateId'] !== gateId) {
-        wsInstance?.disconnect();
-        wsInstance = new GateWebSocket(gateId);
+    /**
+     * Heartbeat replies are consumed internally and never reach message handlers
+     */
+    private static isHeartbeat(data: unknown): boolean {
+        if (!data || typeof data !== 'object') return false;
+        const record = data as Record<string, unknown>;
+        return record.type === 'pong' || record.message_type === 'pong';
     }
-    // Don't call reset() here - it causes issues with React Strict Mode
-    // The singleton persists and should maintain its connection state
-    return wsInstance;
-}
 
-/**
- * React hook for WebSocket connection
- */
-export function useGateWebSocket(
-    gateId: string | number
-) {
-    const ws = getGateWebSocket(gateId);
-
-    // Effect should be handled in component
-    return {
-        connect: () => ws.connect(),
-        disconnect: () => ws.disconnect(),
-        isConnected: () => ws.isConnected(),
-        onMessage: ws.onMessage.bind(ws),
-        onConnect: ws.onConnect.bind(ws),
-        onDisconnect: ws.onDisconnect.bind(ws),
-        extractCrops: GateWebSocket.extractCrops,
-    };
+    /**
+     * Extract crop URLs from a decision
+     */
+    static extractCrops(decision: NormalizedDecision): CropUpdate {
+        return {
+            lpCrop: decision.licenseCropUrl,
+            hzCrop: decision.hazardCropUrl,
+            lpResult: decision.licensePlate,
+            hzResult: decision.un?.code || decision.kemler?.code,
+            timestamp: decision.timestamp,
+        };
+    }
 }
 
 export { GateWebSocket };
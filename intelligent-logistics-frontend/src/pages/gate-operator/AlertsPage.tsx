@@ -1,116 +1,50 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import {
     ArrowLeft,
     Bell,
     AlertTriangle,
+    Check,
     CheckCircle,
     Clock,
     Loader2,
-    Trash2,
     RefreshCw,
-    X
 } from "lucide-react";
+import { useNotifications } from "@/hooks/useNotifications";
+import { getShiftStart } from "@/lib/shifts";
 
-interface Alert {
-    id: string;
-    type: "warning" | "info" | "danger";
-    title: string;
-    message: string;
-    timestamp: string;
-    read: boolean;
-    licensePlate?: string;
-    decision?: string;
+type TimeRange = "shift" | "24h" | "all";
+
+function getRangeStart(range: TimeRange): number | undefined {
+    if (range === "shift") return getShiftStart().getTime();
+    if (range === "24h") return Date.now() - 24 * 60 * 60 * 1000;
+    return undefined;
 }
 
 export default function AlertsPage() {
     const navigate = useNavigate();
-    const [alerts, setAlerts] = useState<Alert[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
     const [filter, setFilter] = useState<"all" | "unread" | "danger" | "warning" | "info">("all");
+    const [timeRange, setTimeRange] = useState<TimeRange>("shift");
+    const [plateQuery, setPlateQuery] = useState("");
 
-    // Load alerts from localStorage (ws_payloads)
-    const loadAlerts = useCallback(() => {
-        try {
-            const saved = localStorage.getItem('ws_payloads');
-            if (!saved) {
-                setAlerts([]);
-                return;
-            }
-
-            const messages = JSON.parse(saved) as Array<{ id: string; timestamp: string; data: any }>;
-
-            const parsedAlerts: Alert[] = messages.map((msg) => {
-                const payload = msg.data?.payload;
-                const decision = payload?.decision || "UNKNOWN";
-                const licensePlate = payload?.licensePlate || "N/A";
-
-                let type: "warning" | "info" | "danger" = "info";
-                if (decision === "REJECTED") type = "danger";
-                else if (decision === "MANUAL_REVIEW") type = "warning";
-
-                // Get alerts from payload or create message from decision
-                const alertMessages = payload?.alerts || [];
-                const alertText = alertMessages.length > 0
-                    ? alertMessages.join(", ")
-                    : `${decision}: ${licensePlate}`;
-
-                return {
-                    id: msg.id,
-                    type,
-                    title: `Detection - ${licensePlate}`,
-                    message: alertText,
-                    timestamp: new Date(msg.timestamp).toLocaleString(),
-                    read: false,
-                    licensePlate,
-                    decision,
-                };
-            });
-
-            // Sort by timestamp descending (newest first)
-            parsedAlerts.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-
-            setAlerts(parsedAlerts);
-        } catch (e) {
-            console.error("Failed to load alerts:", e);
-            setAlerts([]);
-        } finally {
-            setIsLoading(false);
-        }
-    }, []);
-
-    useEffect(() => {
-        loadAlerts();
-    }, [loadAlerts]);
-
-    const handleClearAll = () => {
-        localStorage.removeItem('ws_payloads');
-        setAlerts([]);
-    };
+    const userInfo = JSON.parse(localStorage.getItem("user_info") || "{}");
+    const gateId = Number(userInfo.gate_id || 1);
 
-    const handleMarkAllRead = () => {
-        setAlerts(prev => prev.map(a => ({ ...a, read: true })));
-    };
+    const { notifications, unreadCount, isLoading, error, markRead, markAllRead, refresh } = useNotifications(gateId);
 
     const handleRefresh = () => {
-        setIsLoading(true);
-        loadAlerts();
+        setIsRefreshing(true);
+        refresh().finally(() => setIsRefreshing(false));
     };
 
-    const handleDeleteAlert = (id: string) => {
-        setAlerts(prev => prev.filter(a => a.id !== id));
-        // Also update localStorage
-        try {
-            const saved = localStorage.getItem('ws_payloads');
-            if (saved) {
-                const messages = JSON.parse(saved);
-                const filtered = messages.filter((m: any) => m.id !== id);
-                localStorage.setItem('ws_payloads', JSON.stringify(filtered));
-            }
-        } catch (e) {
-            console.error("Failed to update storage:", e);
-        }
-    };
+    // Notifications come back newest first
+    const rangeStart = getRangeStart(timeRange);
+    const plate = plateQuery.trim().toUpperCase();
+    const alerts = notifications.filter(notification => {
+        if (rangeStart !== undefined && Date.parse(notification.created_at) < rangeStart) return false;
+        return !plate || (notification.license_plate || "").toUpperCase().includes(plate);
+    });
 
     const filteredAlerts = alerts.filter(alert => {
         if (filter === "all") return true;
@@ -139,7 +73,7 @@ export default function AlertsPage() {
                     All Notifications
                 </h1>
                 <span style={{ color: "var(--text-muted)" }}>
-                    {alerts.length} total alerts
+                    {alerts.length} alerts · {unreadCount} unread
                 </span>
             </div>
 
@@ -157,20 +91,34 @@ export default function AlertsPage() {
                     <option value="info">Info</option>
                 </select>
 
-                <button className="btn-icon-only" onClick={handleRefresh} title="Refresh" disabled={isLoading}>
-                    {isLoading ? <Loader2 size={18} className="spin" /> : <RefreshCw size={18} />}
+                <select
+                    value={timeRange}
+                    onChange={(e) => setTimeRange(e.target.value as TimeRange)}
+                    className="filter-select"
+                >
+                    <option value="shift">Current Shift</option>
+                    <option value="24h">Last 24 Hours</option>
+                    <option value="all">All Loaded</option>
+                </select>
+
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="License plate..."
+                    value={plateQuery}
+                    onChange={(e) => setPlateQuery(e.target.value)}
+                    style={{ flex: "0 1 200px" }}
+                />
+
+                <button className="btn-icon-only" onClick={handleRefresh} title="Refresh" disabled={isRefreshing}>
+                    {isRefreshing ? <Loader2 size={18} className="spin" /> : <RefreshCw size={18} />}
                 </button>
 
                 <div style={{ flex: 1 }} />
 
-                <button className="btn-secondary" onClick={handleMarkAllRead}>
+                <button className="btn-secondary" onClick={() => markAllRead()} disabled={unreadCount === 0}>
                     Mark All Read
                 </button>
-
-                <button className="btn-secondary" onClick={handleClearAll} style={{ color: "var(--danger)" }}>
-                    <Trash2 size={16} />
-                    Clear All
-                </button>
             </div>
 
             {/* Alerts List */}
@@ -183,7 +131,7 @@ export default function AlertsPage() {
                 ) : filteredAlerts.length === 0 ? (
                     <div className="empty-state" style={{ padding: "3rem", textAlign: "center" }}>
                         <Bell size={48} style={{ color: "var(--text-muted)", marginBottom: "1rem" }} />
-                        <p>No alerts found.</p>
+                        <p>{error ? `${error}.` : "No alerts found."}</p>
                     </div>
                 ) : (
                     filteredAlerts.map((alert) => (
@@ -198,22 +146,24 @@ export default function AlertsPage() {
                             <div className="alert-content">
                                 <div className="alert-header">
                                     <span className="alert-title">{alert.title}</span>
-                                    <span className="alert-time">{alert.timestamp}</span>
+                                    <span className="alert-time">{new Date(alert.created_at).toLocaleString()}</span>
                                 </div>
                                 <p className="alert-message">{alert.message}</p>
-                                {alert.decision && (
-                                    <span className={`decision-badge decision-${alert.decision.toLowerCase().replace("_", "-")}`} style={{ marginTop: "0.5rem", display: "inline-block" }}>
-                                        {alert.decision}
+                                {alert.license_plate && (
+                                    <span className="alert-plate">
+                                        {alert.license_plate}
                                     </span>
                                 )}
                             </div>
-                            <button
-                                onClick={() => handleDeleteAlert(alert.id)}
-                                className="alert-delete-btn"
-                                title="Delete alert"
-                            >
-                                <X size={16} />
-                            </button>
+                            {!alert.read && (
+                                <button
+                                    onClick={() => markRead(alert.id)}
+                                    className="alert-read-btn"
+                                    title="Mark as read"
+                                >
+                                    <Check size={16} />
+                                </button>
+                            )}
                         </div>
                     ))
                 )}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   ArrowLeft,
@@ -10,9 +10,35 @@ import {
   Package,
   ShieldAlert,
   FileText,
+  LogIn,
+  LogOut,
+  PackageOpen,
+  Timer,
+  Bell,
+  CheckCircle,
+  Circle,
+  History,
 } from "lucide-react";
-import { getArrival } from "@/services/arrivals";
-import type { Appointment } from "@/types/types";
+import { getArrival, getVisit } from "@/services/arrivals";
+import { createAlert, getVisitAlerts } from "@/services/alerts";
+import { getErrorMessage } from "@/lib/api";
+import {
+  formatDuration,
+  getDwellMs,
+  getEntryDelayMinutes,
+  getVisitStage,
+  getVisitTimeline,
+  registerGateIn,
+  registerGateOut,
+  startUnloading,
+  type VisitResult,
+} from "@/lib/visitLifecycle";
+import {
+  TIMELINE_SOURCE_LABELS,
+  loadArrivalTimeline,
+  type ArrivalTimeline,
+} from "@/lib/arrivalTimeline";
+import type { Alert, AlertTypeEnum, Appointment, Visit } from "@/types/types";
 import "./ArrivalDetail.css";
 
 function statusLabel(s: string): string {
@@ -26,6 +52,17 @@ function statusLabel(s: string): string {
   return map[s] ?? s;
 }
 
+const ALERT_TYPES: { value: AlertTypeEnum; label: string }[] = [
+  { value: "operational", label: "Operational" },
+  { value: "safety", label: "Safety" },
+  { value: "problem", label: "Problem" },
+  { value: "generic", label: "Generic" },
+];
+
+function formatDateTime(iso?: string | null): string | undefined {
+  return iso ? new Date(iso).toLocaleString("en-GB") : undefined;
+}
+
 function Row({ label, value }: { label: string; value?: string | null }) {
   if (!value) return null;
   return (
@@ -55,13 +92,128 @@ export default function ArrivalDetail() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Visit lifecycle
+  const [visit, setVisit] = useState<Visit | null>(null);
+  const [visitStatus, setVisitStatus] = useState<"loading" | "ready" | "error">("loading");
+  const [visitAlerts, setVisitAlerts] = useState<Alert[]>([]);
+  const [alertsStatus, setAlertsStatus] = useState<"idle" | "loading" | "ready" | "error">("idle");
+  const [actionBusy, setActionBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [alertType, setAlertType] = useState<AlertTypeEnum>("operational");
+  const [alertDescription, setAlertDescription] = useState("");
+  const [now, setNow] = useState(Date.now());
+
+  const [timeline, setTimeline] = useState<ArrivalTimeline | null>(null);
+
+  const userInfo = JSON.parse(localStorage.getItem("user_info") || "{}");
+  const gateId = Number(userInfo.gate_id || 1);
+
+  const loadVisitAlerts = useCallback(async (visitId: number) => {
+    setAlertsStatus("loading");
+    try {
+      setVisitAlerts(await getVisitAlerts(visitId));
+      setAlertsStatus("ready");
+    } catch (err) {
+      console.error("[Visit] Failed to load visit alerts:", err);
+      setAlertsStatus("error");
+    }
+  }, []);
+
   useEffect(() => {
     if (!id) return;
-    getArrival(Number(id))
+    const appointmentId = Number(id);
+    getArrival(appointmentId)
       .then(setAppointment)
       .catch(() => setError("Failed to load arrival details."))
       .finally(() => setIsLoading(false));
-  }, [id]);
+
+    // Loaded on its own so a failing visit endpoint only affects the lifecycle section
+    getVisit(appointmentId)
+      .then((currentVisit) => {
+        setVisit(currentVisit);
+        setVisitStatus("ready");
+        // A visit is keyed by its appointment
+        if (currentVisit) loadVisitAlerts(appointmentId);
+      })
+      .catch((err) => {
+        console.error("[Visit] Failed to load visit:", err);
+        setVisitStatus("error");
+      });
+  }, [id, loadVisitAlerts]);
+
+  // Dwell time keeps counting while the truck is inside
+  const stage = getVisitStage(visit);
+  useEffect(() => {
+    if (stage !== "gate_in" && stage !== "unloading") return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  // Rebuild the activity timeline whenever the appointment, visit or its alerts change
+  useEffect(() => {
+    if (!appointment || visitStatus === "loading" || alertsStatus === "loading") return;
+    let cancelled = false;
+    loadArrivalTimeline(appointment, visit, {
+      alerts: alertsStatus === "error" ? null : visitAlerts,
+      visitUnavailable: visitStatus === "error",
+    })
+      .then((result) => {
+        if (!cancelled) setTimeline(result);
+      })
+      .catch((err) => console.error("[Timeline] Failed to build timeline:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [appointment, visit, visitStatus, visitAlerts, alertsStatus]);
+
+  const runVisitAction = async (action: () => Promise<VisitResult>) => {
+    setActionBusy(true);
+    setActionError(null);
+    const result = await action();
+    if (result.ok) {
+      setVisit(result.visit);
+      setAppointment(result.appointment);
+      setNow(Date.now());
+    } else {
+      setActionError(result.reason);
+    }
+    setActionBusy(false);
+  };
+
+  const handleGateIn = () => {
+    if (!appointment) return;
+    runVisitAction(() => registerGateIn(appointment, gateId));
+  };
+
+  const handleStartUnloading = () => {
+    if (!appointment || !visit) return;
+    runVisitAction(() => startUnloading(appointment, visit));
+  };
+
+  const handleGateOut = () => {
+    if (!appointment || !visit) return;
+    runVisitAction(() => registerGateOut(appointment, visit));
+  };
+
+  const handleCreateAlert = async () => {
+    const description = alertDescription.trim();
+    if (!appointment || !visit || !description) return;
+    setActionBusy(true);
+    setActionError(null);
+    try {
+      await createAlert({ visit_id: appointment.id, type: alertType, description });
+      setAlertDescription("");
+      await loadVisitAlerts(appointment.id);
+    } catch (err) {
+      console.error("[Visit] Failed to create alert:", err);
+      setActionError(getErrorMessage(err));
+    } finally {
+      setActionBusy(false);
+    }
+  };
+
+  const dwellMs = getDwellMs(visit, now);
+  const entryDelay = appointment ? getEntryDelayMinutes(appointment, visit) : null;
 
   return (
     <div className="ad-page">
@@ -133,6 +285,96 @@ export default function ArrivalDetail() {
             )}
           </Section>
 
+          {/* ── Visit ── */}
+          <Section icon={<Timer size={18} />} title="Visit">
+            {visitStatus === "loading" ? (
+              <div className="ad-empty"><Loader2 size={16} className="spin" /> Loading visit...</div>
+            ) : visitStatus === "error" ? (
+              <div className="ad-empty">
+                <AlertTriangle size={14} /> Visit lifecycle is unavailable right now.
+              </div>
+            ) : (
+              <>
+                <div className="ad-timeline">
+                  {getVisitTimeline(appointment, visit).map((step) => (
+                    <div key={step.stage} className={`ad-timeline-step ${step.done ? "done" : ""}`}>
+                      {step.done ? <CheckCircle size={18} /> : <Circle size={18} />}
+                      <span className="ad-timeline-label">{step.label}</span>
+                      <span className="ad-timeline-time">{step.time ? formatDateTime(step.time) : step.done ? "" : "—"}</span>
+                    </div>
+                  ))}
+                </div>
+                <Row label="Dwell Time" value={dwellMs !== null ? formatDuration(dwellMs) : undefined} />
+                <Row
+                  label="Entry vs Schedule"
+                  value={entryDelay !== null ? (entryDelay > 0 ? `${entryDelay} min late` : entryDelay < 0 ? `${-entryDelay} min early` : "On time") : undefined}
+                />
+
+                {actionError && (
+                  <div className="error-banner ad-action-error">
+                    <AlertTriangle size={16} />
+                    <span>{actionError}</span>
+                  </div>
+                )}
+
+                <div className="ad-actions">
+                  {stage === "scheduled" && (
+                    <button className="btn-primary" onClick={handleGateIn} disabled={actionBusy}>
+                      <LogIn size={16} /> Register Gate-in
+                    </button>
+                  )}
+                  {stage === "gate_in" && (
+                    <button className="btn-primary" onClick={handleStartUnloading} disabled={actionBusy}>
+                      <PackageOpen size={16} /> Start Unloading
+                    </button>
+                  )}
+                  {(stage === "gate_in" || stage === "unloading") && (
+                    <button className="btn-secondary" onClick={handleGateOut} disabled={actionBusy}>
+                      <LogOut size={16} /> Register Gate-out
+                    </button>
+                  )}
+                  {actionBusy && <Loader2 size={16} className="spin" />}
+                </div>
+              </>
+            )}
+          </Section>
+
+          {/* ── Visit Alerts ── */}
+          {visit && (
+            <Section icon={<Bell size={18} />} title="Visit Alerts">
+              {alertsStatus === "error" ? (
+                <div className="ad-empty">Could not load alerts for this visit.</div>
+              ) : visitAlerts.length === 0 ? (
+                <div className="ad-empty">No alerts for this visit.</div>
+              ) : (
+                visitAlerts.map((alert) => (
+                  <Row
+                    key={alert.id}
+                    label={`${alert.type} · ${new Date(alert.timestamp).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}`}
+                    value={alert.description || "Alert without description"}
+                  />
+                ))
+              )}
+              <div className="ad-alert-form">
+                <select value={alertType} onChange={(e) => setAlertType(e.target.value as AlertTypeEnum)}>
+                  {ALERT_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Describe the issue..."
+                  value={alertDescription}
+                  onChange={(e) => setAlertDescription(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleCreateAlert(); }}
+                />
+                <button className="btn-secondary" onClick={handleCreateAlert} disabled={actionBusy || !alertDescription.trim()}>
+                  Add Alert
+                </button>
+              </div>
+            </Section>
+          )}
+
           {/* ── Driver ── */}
           {appointment.driver && (
             <Section icon={<User size={18} />} title="Driver">
@@ -180,6 +422,54 @@ export default function ArrivalDetail() {
             </Section>
           )}
 
+          {/* ── Activity ── */}
+          <Section icon={<History size={18} />} title="Activity">
+            {!timeline ? (
+              <div className="ad-empty">
+                <Loader2 size={16} className="spin" /> Loading activity...
+              </div>
+            ) : (
+              <>
+                {timeline.failedSources.length > 0 && (
+                  <div className="ad-empty">
+                    <AlertTriangle size={14} /> Could not load {timeline.failedSources.map((source) => TIMELINE_SOURCE_LABELS[source].toLowerCase()).join(", ")} events; the timeline may be incomplete.
+                  </div>
+                )}
+                {timeline.entries.length === 0 ? (
+                  <div className="ad-empty">No activity recorded for this arrival.</div>
+                ) : (
+                  <ol className="ad-activity">
+                    {timeline.entries.map((entry) => (
+                      <li key={`${entry.source}-${entry.id}`} className="ad-activity-item">
+                        <span className="ad-activity-time">
+                          {Number.isNaN(entry.time) ? "—" : new Date(entry.time).toLocaleString("en-GB")}
+                        </span>
+                        <div className="ad-activity-body">
+                          <div className="ad-activity-title">
+                            <span className={`ad-source ad-source-${entry.source}`}>
+                              {TIMELINE_SOURCE_LABELS[entry.source]}
+                            </span>
+                            {entry.title}
+                          </div>
+                          {entry.detail && <div className="ad-activity-detail">{entry.detail}</div>}
+                          {entry.images.length > 0 && (
+                            <div className="ad-activity-images">
+                              {entry.images.map((url) => (
+                                <a key={url} href={url} target="_blank" rel="noreferrer">
+                                  <img src={url} alt={`${entry.title} crop`} loading="lazy" />
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+          </Section>
+
         </div>
       )}
     </div>
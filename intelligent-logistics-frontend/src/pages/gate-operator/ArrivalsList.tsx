@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import {
   Clock,
   Truck,
@@ -18,11 +18,43 @@ import {
   ChevronRight,
   ShieldAlert,
   Pin,
-  PinOff
+  PinOff,
+  ArrowUp,
+  ArrowDown,
+  Bookmark,
+  Columns3,
+  ExternalLink,
+  Download,
+  Undo2
 } from "lucide-react";
 import { getArrivals, getArrivalsStats, getArrival } from "@/services/arrivals";
 import { getActiveAlerts } from "@/services/alerts";
+import { exportArrivalsToCSV } from "@/services/exportService";
 import type { Appointment, AppointmentStatusEnum, Alert, ArrivalsQueryParams } from "@/types/types";
+import {
+  ARRIVAL_COLUMNS,
+  deleteView,
+  getSavedViews,
+  getVisibleColumns,
+  matchesView,
+  parseViewState,
+  saveView,
+  saveVisibleColumns,
+  toSearchParams,
+  type ArrivalColumnKey,
+  type ArrivalSortKey,
+  type ArrivalsViewState,
+  type SavedArrivalsView,
+} from "@/lib/arrivalViews";
+import {
+  UNDO_WINDOW_MS,
+  bulkAddNote,
+  bulkSetStatus,
+  revertBulkOutcome,
+  type BulkOutcome,
+  type BulkTarget,
+} from "@/lib/bulkArrivals";
+import { APPOINTMENT_STATUSES, canTransition } from "@shared/appointmentStatus";
 
 // Map API severity to UI
 function mapAlertSeverity(type: string): "warning" | "danger" | "info" {
@@ -50,20 +82,6 @@ function mapStatusToLabel(status: AppointmentStatusEnum): string {
   return statusMap[status] || status;
 }
 
-// Map English status back to API status
-function mapStatusToAPI(status: string): AppointmentStatusEnum {
-  const statusMap: Record<string, AppointmentStatusEnum> = {
-    "Pending": "in_transit",
-    "In Transit": "in_transit",
-    "In Process": "in_process",
-    "Unloading": "in_process",
-    "Delayed": "delayed",
-    "Completed": "completed",
-    "Canceled": "canceled",
-  };
-  return statusMap[status] || "in_transit";
-}
-
 // UI types for component state
 type UIAlert = {
   id: string;
@@ -80,6 +98,9 @@ type UIArrival = {
   dock: string;
   arrivalTime: string;
   cargo: string;
+  driver: string;
+  company: string;
+  notes: string;
   status: string;
   apiStatus: AppointmentStatusEnum;
   highwayInfraction?: boolean;
@@ -87,9 +108,14 @@ type UIArrival = {
 
 export const ITEMS_PER_PAGE = 10;
 
+function toBulkTarget(arrival: UIArrival): BulkTarget {
+  return { id: arrival.id, plate: arrival.plate, status: arrival.apiStatus, notes: arrival.notes || null };
+}
+
 function ArrivalsList() {
   const navigate = useNavigate();
   const [currentTime, setCurrentTime] = useState(new Date().toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }));
+  const [now, setNow] = useState(Date.now());
 
   // API data states
   const [arrivals, setArrivals] = useState<UIArrival[]>([]);
@@ -98,10 +124,26 @@ function ArrivalsList() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Filter states
-  const [dockFilter, setDockFilter] = useState("all");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [searchQuery, setSearchQuery] = useState("");
+  // Filters, sort and page live in the URL so views can be bookmarked and restored
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = parseViewState(searchParams);
+  const { status: statusFilter, dock: dockFilter, sort: sortKey, order: sortOrder, hazmat: hazmatOnly, page: currentPage } = view;
+  const [searchQuery, setSearchQuery] = useState(view.search);
+
+  // Filter changes go back to the first page unless the page itself is being set
+  const updateView = useCallback((patch: Partial<ArrivalsViewState>) => {
+    setSearchParams((prev) => {
+      const current = parseViewState(prev);
+      return toSearchParams({ ...current, page: 1, ...patch });
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Saved views and visible columns
+  const [savedViews, setSavedViews] = useState<SavedArrivalsView[]>(getSavedViews);
+  const [newViewName, setNewViewName] = useState("");
+  const [visibleColumns, setVisibleColumns] = useState<ArrivalColumnKey[]>(getVisibleColumns);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const activeView = savedViews.find((saved) => matchesView(view, saved));
 
   // Pinned state caching full objects
   const [pinnedArrivals, setPinnedArrivals] = useState<UIArrival[]>(() => {
@@ -128,23 +170,17 @@ function ArrivalsList() {
     });
   };
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
+  // Pagination state (current page comes from the URL)
   const [serverPages, setServerPages] = useState(1);
   const [serverTotal, setServerTotal] = useState(0);
 
-  // Debounced search (400ms delay)
-  const [debouncedSearch, setDebouncedSearch] = useState("");
+  // Debounced search (400ms delay); writing it to the URL also resets the page
+  const debouncedSearch = view.search;
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedSearch(searchQuery);
-      // Reset page when search query changes to prevent empty pages
-      if (searchQuery !== debouncedSearch) {
-        setCurrentPage(1);
-      }
-    }, 400);
+    if (searchQuery === debouncedSearch) return;
+    const timer = setTimeout(() => updateView({ search: searchQuery }), 400);
     return () => clearTimeout(timer);
-  }, [searchQuery, debouncedSearch]);
+  }, [searchQuery, debouncedSearch, updateView]);
 
   // Sidebar collapse state
   const [sidebarCollapsed, setSidebarCollapsed] = useState(() => {
@@ -152,6 +188,13 @@ function ArrivalsList() {
     return saved === 'true';
   });
 
+  // Multi-select and bulk actions
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkStatus, setBulkStatus] = useState<AppointmentStatusEnum | "">("");
+  const [bulkNote, setBulkNote] = useState("");
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [bulkOutcome, setBulkOutcome] = useState<BulkOutcome | null>(null);
+
   // Modal states
   const [selectedArrival, setSelectedArrival] = useState<UIArrival | null>(null);
 
@@ -168,6 +211,9 @@ function ArrivalsList() {
       ? new Date(arrival.scheduled_start_time).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })
       : "--:--",
     cargo: arrival.booking?.reference || "N/A",
+    driver: arrival.driver?.name || "N/A",
+    company: arrival.truck?.company?.name || arrival.driver?.company?.name || "N/A",
+    notes: arrival.notes || "",
     status: arrival.status ? mapStatusToLabel(arrival.status) : "Unknown",
     apiStatus: arrival.status || "unknown" as any,
     highwayInfraction: arrival.highway_infraction || false,
@@ -192,11 +238,16 @@ function ArrivalsList() {
         page: currentPage,
         limit: ITEMS_PER_PAGE,
       };
-      // statusFilter "Violators" has no backend param — filter client-side after fetch
-      if (statusFilter !== "all" && statusFilter !== "Violators") {
-        arrivalsParams.status = mapStatusToAPI(statusFilter);
+      // statusFilter "violators" has no backend param — filter client-side after fetch
+      if (statusFilter !== "all" && statusFilter !== "violators") {
+        arrivalsParams.status = statusFilter;
       }
       if (debouncedSearch) arrivalsParams.search = debouncedSearch;
+      if (hazmatOnly) arrivalsParams.hazmat = true;
+      if (sortKey) {
+        arrivalsParams.sort_by = sortKey;
+        arrivalsParams.sort_order = sortOrder;
+      }
 
       const [arrivalsData, alertsData, statsData] = await Promise.all([
         getArrivals(arrivalsParams),
@@ -231,7 +282,7 @@ function ArrivalsList() {
         mapped = [...mapped, ...mappedMissing];
       }
 
-      if (statusFilter === "Violators") {
+      if (statusFilter === "violators") {
         mapped = mapped.filter(a => a.highwayInfraction || pinnedArrivals.some(p => p.id === a.id));
       }
 
@@ -246,12 +297,13 @@ function ArrivalsList() {
     } finally {
       setIsLoading(false);
     }
-  }, [gateId, currentPage, debouncedSearch, statusFilter, pinnedArrivals]);
+  }, [gateId, currentPage, debouncedSearch, statusFilter, hazmatOnly, sortKey, sortOrder, pinnedArrivals]);
 
   // Time update effect
   useEffect(() => {
     const timer = setInterval(() => {
       setCurrentTime(new Date().toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" }));
+      setNow(Date.now());
     }, 1000);
     return () => clearInterval(timer);
   }, []);
@@ -280,9 +332,6 @@ function ArrivalsList() {
   });
   const totalPages = serverPages;
 
-  // Reset page when server-side filter status changes
-  useEffect(() => { setCurrentPage(1); }, [statusFilter]);
-
   // All stats come from the /stats endpoint (full gate population, not current page)
   const statsTotal = (stats.in_transit ?? 0) + (stats.in_process ?? 0) + (stats.delayed ?? 0) + (stats.completed ?? 0);
   const dynamicStats = {
@@ -303,10 +352,139 @@ function ArrivalsList() {
   };
 
   const handleClearFilters = () => {
-    setDockFilter("all");
-    setStatusFilter("all");
     setSearchQuery("");
-    setCurrentPage(1);
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  const setStatusFilter = (status: ArrivalsViewState["status"]) => updateView({ status });
+  const setCurrentPage = (page: number) => updateView({ page });
+
+  // Click a sortable header: ascending, then descending, then back to the server default
+  const handleSort = (key: ArrivalSortKey) => {
+    if (sortKey !== key) updateView({ sort: key, order: "asc" });
+    else if (sortOrder === "asc") updateView({ sort: key, order: "desc" });
+    else updateView({ sort: null, order: "asc" });
+  };
+
+  const handleApplyView = (id: string) => {
+    const saved = savedViews.find((item) => item.id === id);
+    if (!saved) return;
+    setSearchQuery(saved.state.search);
+    setSearchParams(toSearchParams({ ...saved.state, page: 1 }), { replace: true });
+  };
+
+  const handleSaveView = () => {
+    const name = newViewName.trim();
+    if (!name) return;
+    setSavedViews(saveView(name, { ...view, search: searchQuery }));
+    setNewViewName("");
+  };
+
+  const handleDeleteView = () => {
+    if (activeView) setSavedViews(deleteView(activeView.id));
+  };
+
+  // Selection only covers rows on screen, so a bulk action never hits hidden rows
+  const selectedArrivals = displayArrivals.filter((a) => selectedIds.includes(a.id));
+  const allSelected = displayArrivals.length > 0 && selectedArrivals.length === displayArrivals.length;
+  const undoSecondsLeft = bulkOutcome ? Math.ceil((bulkOutcome.finishedAt + UNDO_WINDOW_MS - now) / 1000) : 0;
+  // Only offer statuses at least one selected arrival can legally move to
+  const bulkStatusOptions = APPOINTMENT_STATUSES.filter((status) =>
+    selectedArrivals.some((a) => a.apiStatus !== status && canTransition(a.apiStatus, status, "operator"))
+  );
+  const canUndo = !!bulkOutcome?.undoable && bulkOutcome.succeeded.length > 0 && undoSecondsLeft > 0;
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) => prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : displayArrivals.map((a) => a.id));
+  };
+
+  // Apply the change to the rows straight away, then roll back the rows the server refused
+  const runBulk = async (
+    targets: UIArrival[],
+    optimistic: (arrival: UIArrival) => UIArrival,
+    run: (targets: BulkTarget[]) => Promise<BulkOutcome>
+  ) => {
+    if (targets.length === 0 || bulkBusy) return;
+    const before = new Map(targets.map((a) => [a.id, a]));
+    setBulkBusy(true);
+    setArrivals((prev) => prev.map((a) => before.has(a.id) ? optimistic(a) : a));
+    try {
+      const outcome = await run(targets.map(toBulkTarget));
+      const failedIds = new Set(outcome.failed.map((failure) => failure.id));
+      setArrivals((prev) => prev.map((a) => failedIds.has(a.id) ? before.get(a.id)! : a));
+      setBulkOutcome(outcome);
+      // Keep the failures selected so they can be retried
+      setSelectedIds([...failedIds]);
+      fetchData();
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkStatus = () => {
+    if (!bulkStatus) return;
+    const status = bulkStatus;
+    runBulk(
+      selectedArrivals,
+      (a) => canTransition(a.apiStatus, status, "operator") ? { ...a, apiStatus: status, status: mapStatusToLabel(status) } : a,
+      (targets) => bulkSetStatus(targets, status)
+    );
+    setBulkStatus("");
+  };
+
+  const handleBulkNote = () => {
+    const note = bulkNote.trim();
+    if (!note) return;
+    runBulk(
+      selectedArrivals,
+      (a) => ({ ...a, notes: a.notes ? `${a.notes}\n${note}` : note }),
+      (targets) => bulkAddNote(targets, note)
+    );
+    setBulkNote("");
+  };
+
+  const handleUndo = async () => {
+    if (!bulkOutcome || !canUndo) return;
+    const previous = new Map(bulkOutcome.succeeded.map((target) => [target.id, target]));
+    setBulkBusy(true);
+    setArrivals((prev) => prev.map((a) => {
+      const target = previous.get(a.id);
+      return target ? { ...a, apiStatus: target.status, status: mapStatusToLabel(target.status), notes: target.notes || "" } : a;
+    }));
+    try {
+      setBulkOutcome(await revertBulkOutcome(bulkOutcome));
+      fetchData();
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkExport = () => {
+    exportArrivalsToCSV(selectedArrivals.map((a) => ({
+      id: a.id,
+      plate: a.plate,
+      dock: a.dock,
+      arrivalTime: a.arrivalTime,
+      reference: a.cargo,
+      driver: a.driver,
+      company: a.company,
+      status: a.status,
+      highwayInfraction: a.highwayInfraction,
+      notes: a.notes,
+    })));
+  };
+
+  const toggleColumn = (key: ArrivalColumnKey) => {
+    setVisibleColumns((prev) => {
+      const next = prev.includes(key) ? prev.filter((column) => column !== key) : [...prev, key];
+      const ordered = ARRIVAL_COLUMNS.map((column) => column.key).filter((column) => next.includes(column));
+      saveVisibleColumns(ordered);
+      return ordered;
+    });
   };
 
   const handleRefresh = () => {
@@ -322,8 +500,43 @@ function ArrivalsList() {
     });
   };
 
-  // Get unique docks from arrivals
-  const availableDocks = [...new Set(arrivals.map(a => a.dock))].filter(d => d !== "N/A");
+  // Get unique docks from arrivals, keeping a dock from the URL selectable even if this page lacks it
+  const availableDocks = [...new Set([...arrivals.map(a => a.dock), ...(dockFilter !== "all" ? [dockFilter] : [])])].filter(d => d !== "N/A");
+  const shownColumns = ARRIVAL_COLUMNS.filter((column) => visibleColumns.includes(column.key));
+
+  const renderSortHeader = (label: string, key?: ArrivalSortKey) => {
+    if (!key) return <th key={label}>{label}</th>;
+    const active = sortKey === key;
+    return (
+      <th key={label} className={`sortable ${active ? "sorted" : ""}`} onClick={() => handleSort(key)}>
+        {label}
+        {active && (sortOrder === "asc" ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+      </th>
+    );
+  };
+
+  const renderCell = (arrival: UIArrival, key: ArrivalColumnKey) => {
+    switch (key) {
+      case "dock": return <td key={key}>{arrival.dock}</td>;
+      case "arrivalTime": return <td key={key}>{arrival.arrivalTime}</td>;
+      case "reference": return <td key={key}>{arrival.cargo}</td>;
+      case "driver": return <td key={key}>{arrival.driver}</td>;
+      case "company": return <td key={key}>{arrival.company}</td>;
+      case "status":
+        return (
+          <td key={key}>
+            <span className={`status-badge status-${(arrival.status || 'unknown').toLowerCase().replace(/\s/g, "-")}`}>
+              {arrival.status || 'Unknown'}
+            </span>
+            {arrival.highwayInfraction && (
+              <span className="status-badge status-highway-infraction" style={{ marginLeft: '4px' }}>
+                Infraction
+              </span>
+            )}
+          </td>
+        );
+    }
+  };
 
   return (
     <div className="arrivals-list-page">
@@ -416,8 +629,8 @@ function ArrivalsList() {
             </div>
           </div>
           <div
-            className={`stat-card ${statusFilter === 'Delayed' ? 'active' : ''}`}
-            onClick={() => setStatusFilter("Delayed")}
+            className={`stat-card ${statusFilter === 'delayed' ? 'active' : ''}`}
+            onClick={() => setStatusFilter("delayed")}
           >
             <div className="stat-icon"><AlertTriangle size={20} /></div>
             <div className="stat-content">
@@ -426,8 +639,8 @@ function ArrivalsList() {
             </div>
           </div>
           <div
-            className={`stat-card violators ${statusFilter === 'Violators' ? 'active' : ''}`}
-            onClick={() => setStatusFilter("Violators")}
+            className={`stat-card violators ${statusFilter === 'violators' ? 'active' : ''}`}
+            onClick={() => setStatusFilter("violators")}
           >
             <div className="stat-icon"><ShieldAlert size={20} /></div>
             <div className="stat-content">
@@ -437,8 +650,8 @@ function ArrivalsList() {
           </div>
           {/* Row 2: In Transit · In Process · Completed */}
           <div
-            className={`stat-card ${statusFilter === 'In Transit' ? 'active' : ''}`}
-            onClick={() => setStatusFilter("In Transit")}
+            className={`stat-card ${statusFilter === 'in_transit' ? 'active' : ''}`}
+            onClick={() => setStatusFilter("in_transit")}
           >
             <div className="stat-icon"><Clock size={20} /></div>
             <div className="stat-content">
@@ -447,8 +660,8 @@ function ArrivalsList() {
             </div>
           </div>
           <div
-            className={`stat-card ${statusFilter === 'In Process' ? 'active' : ''}`}
-            onClick={() => setStatusFilter("In Process")}
+            className={`stat-card ${statusFilter === 'in_process' ? 'active' : ''}`}
+            onClick={() => setStatusFilter("in_process")}
           >
             <div className="stat-icon"><Truck size={20} /></div>
             <div className="stat-content">
@@ -457,8 +670,8 @@ function ArrivalsList() {
             </div>
           </div>
           <div
-            className={`stat-card ${statusFilter === 'Completed' ? 'active' : ''}`}
-            onClick={() => setStatusFilter("Completed")}
+            className={`stat-card ${statusFilter === 'completed' ? 'active' : ''}`}
+            onClick={() => setStatusFilter("completed")}
           >
             <div className="stat-icon"><CheckCircle size={20} /></div>
             <div className="stat-content">
@@ -483,7 +696,7 @@ function ArrivalsList() {
             <div className="filters-grid" style={{ marginBottom: 0 }}>
               <div className="filter-group">
                 <label htmlFor="dock-filter">Dock</label>
-                <select id="dock-filter" value={dockFilter} onChange={(e) => setDockFilter(e.target.value)}>
+                <select id="dock-filter" value={dockFilter} onChange={(e) => updateView({ dock: e.target.value })}>
                   <option value="all">All Docks</option>
                   {availableDocks.map((dock) => (
                     <option key={dock} value={dock}>Dock {dock}</option>
@@ -513,8 +726,140 @@ function ArrivalsList() {
                 </div>
               </div>
             </div>
+
+            {/* Saved views, hazmat filter and column picker */}
+            <div className="view-toolbar">
+              <div className="view-toolbar-group">
+                <Bookmark size={16} />
+                <select
+                  value={activeView?.id || ""}
+                  onChange={(e) => handleApplyView(e.target.value)}
+                  aria-label="Saved views"
+                >
+                  <option value="" disabled>{savedViews.length > 0 ? "Saved views..." : "No saved views"}</option>
+                  {savedViews.map((saved) => (
+                    <option key={saved.id} value={saved.id}>{saved.name}</option>
+                  ))}
+                </select>
+                {activeView && (
+                  <button className="btn-icon" onClick={handleDeleteView} title={`Delete "${activeView.name}"`}>
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+              <div className="view-toolbar-group">
+                <input
+                  type="text"
+                  placeholder="Name this view..."
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleSaveView(); }}
+                />
+                <button className="btn-secondary" onClick={handleSaveView} disabled={!newViewName.trim()}>
+                  Save View
+                </button>
+              </div>
+              <label className="view-toolbar-group view-toolbar-check">
+                <input
+                  type="checkbox"
+                  checked={hazmatOnly}
+                  onChange={(e) => updateView({ hazmat: e.target.checked })}
+                />
+                Hazmat only
+              </label>
+              <div className="view-toolbar-group column-picker">
+                <button className="btn-secondary" onClick={() => setShowColumnMenu((prev) => !prev)}>
+                  <Columns3 size={16} />
+                  Columns
+                </button>
+                {showColumnMenu && (
+                  <div className="column-menu">
+                    {ARRIVAL_COLUMNS.map((column) => (
+                      <label key={column.key}>
+                        <input
+                          type="checkbox"
+                          checked={visibleColumns.includes(column.key)}
+                          onChange={() => toggleColumn(column.key)}
+                        />
+                        {column.label}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
 
+          {/* Bulk actions for the selected rows */}
+          {selectedArrivals.length > 0 && (
+            <div className="bulk-bar">
+              <span className="bulk-count">{selectedArrivals.length} selected</span>
+              <div className="bulk-group">
+                <select
+                  value={bulkStatus}
+                  onChange={(e) => setBulkStatus(e.target.value as AppointmentStatusEnum | "")}
+                  aria-label="New status"
+                >
+                  <option value="">Set status...</option>
+                  {bulkStatusOptions.map((status) => (
+                    <option key={status} value={status}>{mapStatusToLabel(status)}</option>
+                  ))}
+                </select>
+                <button className="btn-secondary" onClick={handleBulkStatus} disabled={!bulkStatus || bulkBusy}>
+                  Apply
+                </button>
+              </div>
+              <div className="bulk-group">
+                <input
+                  type="text"
+                  placeholder="Add a note..."
+                  value={bulkNote}
+                  onChange={(e) => setBulkNote(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === "Enter") handleBulkNote(); }}
+                />
+                <button className="btn-secondary" onClick={handleBulkNote} disabled={!bulkNote.trim() || bulkBusy}>
+                  Add Note
+                </button>
+              </div>
+              <button className="btn-secondary" onClick={handleBulkExport}>
+                <Download size={16} />
+                Export
+              </button>
+              <button className="btn-icon" onClick={() => setSelectedIds([])} title="Clear selection">
+                <X size={16} />
+              </button>
+              {bulkBusy && <Loader2 size={16} className="spin" />}
+            </div>
+          )}
+
+          {/* Result of the last bulk action, with undo while the window is open */}
+          {bulkOutcome && (
+            <div className={`bulk-result ${bulkOutcome.failed.length > 0 ? "has-failures" : ""}`}>
+              <div className="bulk-result-summary">
+                <span>
+                  {bulkOutcome.label}: {bulkOutcome.succeeded.length} updated
+                  {bulkOutcome.failed.length > 0 && `, ${bulkOutcome.failed.length} failed`}
+                </span>
+                {canUndo && (
+                  <button className="btn-secondary" onClick={handleUndo} disabled={bulkBusy}>
+                    <Undo2 size={16} />
+                    Undo ({undoSecondsLeft}s)
+                  </button>
+                )}
+                <button className="btn-icon" onClick={() => setBulkOutcome(null)} title="Dismiss">
+                  <X size={16} />
+                </button>
+              </div>
+              {bulkOutcome.failed.length > 0 && (
+                <ul className="bulk-failures">
+                  {bulkOutcome.failed.map((failure) => (
+                    <li key={failure.id}><strong>{failure.plate}</strong>: {failure.reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
           {isLoading && arrivals.length === 0 ? (
             <div className="loading-state">
               <Loader2 size={32} className="spin" />
@@ -535,11 +880,11 @@ function ArrivalsList() {
                 <table>
                   <thead>
                     <tr>
-                      <th>License Plate</th>
-                      <th>Dock</th>
-                      <th>Arrival Time</th>
-                      <th>Reference</th>
-                      <th>Status</th>
+                      <th className="select-col">
+                        <input type="checkbox" checked={allSelected} onChange={toggleSelectAll} aria-label="Select all" />
+                      </th>
+                      {renderSortHeader("License Plate", "truck_license_plate")}
+                      {shownColumns.map((column) => renderSortHeader(column.label, column.sortKey))}
                       <th>Actions</th>
                     </tr>
                   </thead>
@@ -553,27 +898,24 @@ function ArrivalsList() {
                             arrival.highwayInfraction ? 'row-violation' : '',
                             arrival.apiStatus === 'delayed' ? 'row-delayed' : '',
                             isPinned ? 'row-pinned' : '',
+                            selectedIds.includes(arrival.id) ? 'row-selected' : '',
                           ].filter(Boolean).join(' ')}
                         >
+                          <td className="select-col">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(arrival.id)}
+                              onChange={() => toggleSelected(arrival.id)}
+                              aria-label={`Select ${arrival.plate}`}
+                            />
+                          </td>
                           <td>
                             <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
                               {isPinned && <Pin fill="currentColor" size={14} style={{ opacity: 0.6 }} />}
                               <span>{arrival.plate}</span>
                             </div>
                           </td>
-                          <td>{arrival.dock}</td>
-                          <td>{arrival.arrivalTime}</td>
-                          <td>{arrival.cargo}</td>
-                          <td>
-                            <span className={`status-badge status-${(arrival.status || 'unknown').toLowerCase().replace(/\s/g, "-")}`}>
-                              {arrival.status || 'Unknown'}
-                            </span>
-                            {arrival.highwayInfraction && (
-                              <span className="status-badge status-highway-infraction" style={{ marginLeft: '4px' }}>
-                                Infraction
-                              </span>
-                            )}
-                          </td>
+                          {shownColumns.map((column) => renderCell(arrival, column.key))}
                           <td>
                             <button
                               className="btn-icon"
@@ -598,7 +940,7 @@ function ArrivalsList() {
                 <div className="pagination-controls">
                   <button
                     className="pagination-btn"
-                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                    onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
                     disabled={currentPage <= 1}
                   >
                     <ChevronLeft size={16} />
@@ -609,7 +951,7 @@ function ArrivalsList() {
                   </span>
                   <button
                     className="pagination-btn"
-                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                    onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
                     disabled={currentPage >= totalPages}
                   >
                     Next
@@ -673,6 +1015,10 @@ function ArrivalsList() {
             </div>
 
             <div className="modal-footer">
+              <button className="btn-secondary" onClick={() => navigate(`/gate/arrival/${selectedArrival.id}`)}>
+                <ExternalLink size={16} />
+                Open Arrival
+              </button>
               <button className="btn-secondary" onClick={closeModal}>
                 Close
               </button>
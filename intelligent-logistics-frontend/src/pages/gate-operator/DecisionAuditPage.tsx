@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback, useMemo, Fragment } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+    ArrowLeft,
+    ChevronDown,
+    ChevronRight,
+    Download,
+    FileJson,
+    History,
+    Loader2,
+    RefreshCw,
+    UserCheck,
+} from "lucide-react";
+import { filterAuditTrail, getAuditOperators, loadAuditTrail, type AuditEntry } from "@/lib/decisionAudit";
+import { getRecordDecision, subscribeDetections } from "@/lib/eventStore";
+import { exportAuditTrailToCSV, exportAuditTrailToJSON } from "@/services/exportService";
+import { useStreamRegistry } from "@/hooks/useStreamRegistry";
+
+type DecisionFilter = "all" | "ACCEPTED" | "REJECTED";
+
+function formatTime(ms?: number): string {
+    return ms && !Number.isNaN(ms) ? new Date(ms).toLocaleString() : "—";
+}
+
+function decisionClass(decision?: string): string {
+    return `decision-badge decision-${(decision || "unknown").toLowerCase().replace("_", "-")}`;
+}
+
+export default function DecisionAuditPage() {
+    const navigate = useNavigate();
+    const userInfo = JSON.parse(localStorage.getItem("user_info") || "{}");
+    const registry = useStreamRegistry();
+    const [gateFilter, setGateFilter] = useState<string>(String(userInfo.gate_id || 1));
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [complete, setComplete] = useState(true);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [plateQuery, setPlateQuery] = useState("");
+    const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>("all");
+    const [operatorFilter, setOperatorFilter] = useState("");
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const loadEntries = useCallback(async () => {
+        try {
+            const gateId = gateFilter === "all" ? undefined : Number(gateFilter);
+            const trail = await loadAuditTrail(gateId);
+            setEntries(trail.entries);
+            setComplete(trail.complete);
+            setError(null);
+        } catch (e) {
+            console.error("Failed to load decision audit:", e);
+            setError("Could not load operator decisions.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [gateFilter]);
+
+    // Reload when an operator decision comes back through the gate WebSocket
+    useEffect(() => {
+        loadEntries();
+        return subscribeDetections((change) => {
+            if (change.type === "added" && getRecordDecision(change.record)?.decisionSource === "operator") {
+                loadEntries();
+            }
+        });
+    }, [loadEntries]);
+
+    const operators = useMemo(() => getAuditOperators(entries), [entries]);
+
+    const filteredEntries = useMemo(() => filterAuditTrail(entries, {
+        plate: plateQuery,
+        decision: decisionFilter,
+        operator: operatorFilter,
+    }), [entries, plateQuery, decisionFilter, operatorFilter]);
+
+    const handleRefresh = () => {
+        setIsLoading(true);
+        loadEntries();
+    };
+
+    return (
+        <div className="alerts-page audit-page">
+            {/* Header */}
+            <div className="page-header">
+                <button className="btn-secondary" onClick={() => navigate("/gate")}>
+                    <ArrowLeft size={18} />
+                    Back to Dashboard
+                </button>
+                <h1 className="page-title">
+                    <History size={24} />
+                    Decision Audit
+                </h1>
+                <span style={{ color: "var(--text-muted)" }}>
+                    {filteredEntries.length} of {entries.length} decisions
+                </span>
+            </div>
+
+            {/* Filters Bar */}
+            <div className="filters-bar">
+                <select
+                    value={gateFilter}
+                    onChange={(e) => setGateFilter(e.target.value)}
+                    className="filter-select"
+                >
+                    <option value="all">All Gates</option>
+                    {registry.gates.map((gate) => (
+                        <option key={gate.id} value={String(gate.id)}>{gate.label}</option>
+                    ))}
+                </select>
+
+                <select
+                    value={decisionFilter}
+                    onChange={(e) => setDecisionFilter(e.target.value as DecisionFilter)}
+                    className="filter-select"
+                >
+                    <option value="all">All Decisions</option>
+                    <option value="ACCEPTED">Accepted</option>
+                    <option value="REJECTED">Rejected</option>
+                </select>
+
+                <select
+                    value={operatorFilter}
+                    onChange={(e) => setOperatorFilter(e.target.value)}
+                    className="filter-select"
+                >
+                    <option value="">All Operators</option>
+                    {operators.map((name) => (
+                        <option key={name} value={name}>{name}</option>
+                    ))}
+                </select>
+
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="License plate..."
+                    value={plateQuery}
+                    onChange={(e) => setPlateQuery(e.target.value)}
+                    style={{ flex: "0 1 200px" }}
+                />
+
+                <button className="btn-icon-only" onClick={handleRefresh} title="Refresh" disabled={isLoading}>
+                    {isLoading ? <Loader2 size={18} className="spin" /> : <RefreshCw size={18} />}
+                </button>
+
+                <div style={{ flex: 1 }} />
+
+                <button
+                    className="btn-secondary"
+                    onClick={() => exportAuditTrailToCSV(filteredEntries)}
+                    disabled={filteredEntries.length === 0}
+                >
+                    <Download size={16} />
+                    Export CSV
+                </button>
+
+                <button
+                    className="btn-secondary"
+                    onClick={() => exportAuditTrailToJSON(filteredEntries)}
+                    disabled={filteredEntries.length === 0}
+                >
+                    <FileJson size={16} />
+                    Export JSON
+                </button>
+            </div>
+
+            {error && <div className="error-banner">{error}</div>}
+            {!error && !complete && (
+                <div className="error-banner">
+                    Only part of the decision log could be loaded; older operator decisions are missing.
+                </div>
+            )}
+
+            {/* Audit Table */}
+            <div className="arrivals-table audit-table">
+                {isLoading ? (
+                    <div className="empty-state" style={{ padding: "3rem", textAlign: "center" }}>
+                        <Loader2 size={32} className="spin" />
+                        <span style={{ marginLeft: "0.5rem" }}>Loading decisions...</span>
+                    </div>
+                ) : filteredEntries.length === 0 ? (
+                    <div className="empty-state" style={{ padding: "3rem", textAlign: "center" }}>
+                        <UserCheck size={48} style={{ color: "var(--text-muted)", marginBottom: "1rem" }} />
+                        <p>No operator decisions found.</p>
+                    </div>
+                ) : (
+                    <table>
+                        <thead>
+                            <tr>
+                                <th />
+                                <th>Decided</th>
+                                <th>Gate</th>
+                                <th>Plate</th>
+                                <th>AI Decision</th>
+                                <th>Operator Decision</th>
+                                <th>Operator</th>
+                                <th>Reason</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filteredEntries.map((entry) => {
+                                const expanded = expandedId === entry.id;
+                                return (
+                                    <Fragment key={entry.id}>
+                                        <tr
+                                            className="audit-row"
+                                            onClick={() => setExpandedId(expanded ? null : entry.id)}
+                                        >
+                                            <td>{expanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}</td>
+                                            <td>{formatTime(entry.decidedAt)}</td>
+                                            <td>{entry.gateId}</td>
+                                            <td className="audit-plate">{entry.licensePlate || "N/A"}</td>
+                                            <td>
+                                                {entry.originalDecision ? (
+                                                    <span className={decisionClass(entry.originalDecision)}>
+                                                        {entry.originalDecision}
+                                                    </span>
+                                                ) : (
+                                                    <span className="audit-muted">Not found</span>
+                                                )}
+                                            </td>
+                                            <td>
+                                                <span className={decisionClass(entry.decision)}>{entry.decision}</span>
+                                            </td>
+                                            <td>{entry.operatorName || entry.operatorId || <span className="audit-muted">Unknown</span>}</td>
+                                            <td>{entry.reasonLabel || entry.reasonCode || entry.decisionReason || "—"}</td>
+                                        </tr>
+                                        {expanded && (
+                                            <tr className="audit-detail-row">
+                                                <td colSpan={8}>
+                                                    <AuditDetail entry={entry} />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function AuditDetail({ entry }: { entry: AuditEntry }) {
+    return (
+        <div className="audit-detail">
+            <dl className="audit-fields">
+                <dt>Detected</dt>
+                <dd>{formatTime(entry.detectedAt)}</dd>
+                <dt>AI Source</dt>
+                <dd>{entry.originalSource || "—"}</dd>
+                <dt>AI Reason</dt>
+                <dd>{entry.originalReason || "—"}</dd>
+                <dt>Operator ID</dt>
+                <dd>{entry.operatorId || "—"}</dd>
+                <dt>Decision Reason</dt>
+                <dd>{entry.decisionReason || "—"}</dd>
+                <dt>Note</dt>
+                <dd>{entry.reasonNote || "—"}</dd>
+                <dt>Appointment</dt>
+                <dd>{entry.appointmentId !== undefined ? `#${entry.appointmentId}` : "—"}</dd>
+                <dt>Hazmat</dt>
+                <dd>{entry.un || entry.kemler ? `UN ${entry.un || "—"} / Kemler ${entry.kemler || "—"}` : "—"}</dd>
+            </dl>
+
+            <div className="crops-row">
+                {entry.licenseCropUrl && (
+                    <div className="crop-container">
+                        <span className="crop-label">License Plate Crop</span>
+                        <img src={entry.licenseCropUrl} alt="License plate" className="crop-image" />
+                    </div>
+                )}
+                {entry.hazardCropUrl && (
+                    <div className="crop-container hazmat">
+                        <span className="crop-label">Hazmat Crop</span>
+                        <img src={entry.hazardCropUrl} alt="Hazmat placard" className="crop-image" />
+                    </div>
+                )}
+                {entry.evidenceUrls.map((url, index) => (
+                    <a key={url} className="crop-container" href={url} target="_blank" rel="noreferrer">
+                        <span className="crop-label">Evidence {index + 1}</span>
+                        <img src={url} alt={`Evidence ${index + 1}`} className="crop-image" />
+                    </a>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+    AlertTriangle,
+    ArrowLeft,
+    BookOpen,
+    Droplets,
+    Loader2,
+    RefreshCw,
+    ShieldAlert,
+    WifiOff,
+} from "lucide-react";
+import {
+    decodeKemler,
+    findAdrCode,
+    getEmergencyCard,
+    loadHazmatReference,
+    normalizeKemler,
+    normalizeUn,
+    searchReference,
+    type HazmatReferenceData,
+} from "@/lib/hazmatReference";
+
+/** Results listed per table; searching narrows the rest down */
+const MAX_ROWS = 200;
+
+const KEMLER_PATTERN = /^X?\d{2,3}$/;
+
+function formatFetchedAt(ms: number | null): string {
+    return ms ? new Date(ms).toLocaleString("en-GB") : "never";
+}
+
+export default function HazmatReferencePage() {
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [data, setData] = useState<HazmatReferenceData | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [query, setQuery] = useState(searchParams.get("q") || "");
+
+    const selectedUn = normalizeUn(searchParams.get("un"));
+    const selectedKemler = normalizeKemler(searchParams.get("kemler"));
+
+    useEffect(() => {
+        loadHazmatReference()
+            .then(setData)
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const results = useMemo(
+        () => (data ? searchReference(data, query) : { adr: [], kemler: [] }),
+        [data, query]
+    );
+
+    // Selection lives in the URL so the detection modal can link straight to a code
+    const select = (un: string | null, kemler: string | null) => {
+        const next = new URLSearchParams(searchParams);
+        if (un) next.set("un", un); else next.delete("un");
+        if (kemler) next.set("kemler", kemler); else next.delete("kemler");
+        setSearchParams(next, { replace: true });
+    };
+
+    const handleRefresh = () => {
+        setIsLoading(true);
+        loadHazmatReference(true)
+            .then(setData)
+            .finally(() => setIsLoading(false));
+    };
+
+    const adr = data && selectedUn ? findAdrCode(data, selectedUn) : undefined;
+    // A Kemler number typed into search is decoded even if nothing is selected
+    const kemlerToDecode = selectedKemler || (KEMLER_PATTERN.test(normalizeKemler(query)) ? normalizeKemler(query) : "") || adr?.kemler || "";
+    const decoding = kemlerToDecode ? decodeKemler(kemlerToDecode, data ?? undefined) : null;
+    const card = selectedUn || kemlerToDecode ? getEmergencyCard(adr, kemlerToDecode) : undefined;
+
+    return (
+        <div className="alerts-page hazmat-ref-page">
+            {/* Header */}
+            <div className="page-header">
+                <button className="btn-secondary" onClick={() => navigate(-1)}>
+                    <ArrowLeft size={18} />
+                    Back
+                </button>
+                <h1 className="page-title">
+                    <BookOpen size={24} />
+                    ADR / Kemler Reference
+                </h1>
+                <span style={{ color: "var(--text-muted)" }}>
+                    {data ? `${data.adr.length} UN numbers · ${data.kemler.length} Kemler codes` : ""}
+                </span>
+            </div>
+
+            {/* Filters Bar */}
+            <div className="filters-bar">
+                <input
+                    type="text"
+                    className="search-input"
+                    placeholder="UN number, substance or Kemler code..."
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    style={{ flex: "0 1 320px" }}
+                    autoFocus
+                />
+
+                <button className="btn-icon-only" onClick={handleRefresh} title="Refresh from server" disabled={isLoading}>
+                    {isLoading ? <Loader2 size={18} className="spin" /> : <RefreshCw size={18} />}
+                </button>
+
+                <div style={{ flex: 1 }} />
+
+                {data && data.source !== "api" && (
+                    <span className="hazmat-ref-offline">
+                        <WifiOff size={14} />
+                        {data.source === "cache"
+                            ? `Offline copy from ${formatFetchedAt(data.fetchedAt)}`
+                            : "Reference data unavailable"}
+                    </span>
+                )}
+            </div>
+
+            <div className="hazmat-ref-layout">
+                {/* Lists */}
+                <div className="hazmat-ref-lists">
+                    <div className="arrivals-table">
+                        {isLoading && !data ? (
+                            <div className="empty-state" style={{ padding: "3rem", textAlign: "center" }}>
+                                <Loader2 size={32} className="spin" />
+                                <span style={{ marginLeft: "0.5rem" }}>Loading reference...</span>
+                            </div>
+                        ) : (
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>UN</th>
+                                        <th>Substance</th>
+                                        <th>Class</th>
+                                        <th>Kemler</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {results.adr.slice(0, MAX_ROWS).map((entry) => (
+                                        <tr
+                                            key={entry.un_number}
+                                            className={`hazmat-ref-row ${entry.un_number === selectedUn ? "selected" : ""}`}
+                                            onClick={() => select(entry.un_number, entry.kemler ?? null)}
+                                        >
+                                            <td className="hazmat-ref-code">{entry.un_number}</td>
+                                            <td>{entry.name}</td>
+                                            <td>{entry.hazard_class || "—"}</td>
+                                            <td>{entry.kemler || "—"}</td>
+                                        </tr>
+                                    ))}
+                                    {results.adr.length === 0 && (
+                                        <tr>
+                                            <td colSpan={4} className="hazmat-ref-empty">No UN numbers match.</td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {results.kemler.length > 0 && (
+                        <div className="arrivals-table">
+                            <table>
+                                <thead>
+                                    <tr>
+                                        <th>Kemler</th>
+                                        <th>Hazard</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {results.kemler.slice(0, MAX_ROWS).map((entry) => (
+                                        <tr
+                                            key={entry.code}
+                                            className={`hazmat-ref-row ${entry.code === selectedKemler ? "selected" : ""}`}
+                                            onClick={() => select(null, entry.code)}
+                                        >
+                                            <td className="hazmat-ref-code">{entry.code}</td>
+                                            <td>{entry.description}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+
+                {/* Details */}
+                <div className="hazmat-ref-details">
+                    {!selectedUn && !decoding && (
+                        <div className="hazmat-ref-card hazmat-ref-hint">
+                            Select a UN number or Kemler code, or type a Kemler code to decode it.
+                        </div>
+                    )}
+
+                    {selectedUn && (
+                        <div className="hazmat-ref-card">
+                            <h3>UN {selectedUn}</h3>
+                            {adr ? (
+                                <>
+                                    <p className="hazmat-ref-name">{adr.name}</p>
+                                    <div className="hazmat-ref-facts">
+                                        <span>Class {adr.hazard_class || "—"}</span>
+                                        <span>Packing group {adr.packing_group || "—"}</span>
+                                        <span>Kemler {adr.kemler || "—"}</span>
+                                    </div>
+                                </>
+                            ) : (
+                                <p className="hazmat-ref-warning">
+                                    <AlertTriangle size={14} /> Not in the ADR reference list. Check the placard again.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {decoding && (
+                        <div className="hazmat-ref-card">
+                            <h3>Kemler {decoding.code}</h3>
+                            {decoding.description && <p className="hazmat-ref-name">{decoding.description}</p>}
+                            {decoding.reactsWithWater && (
+                                <p className="hazmat-ref-warning">
+                                    <Droplets size={14} /> X — reacts dangerously with water. Do not use water.
+                                </p>
+                            )}
+                            <ol className="hazmat-ref-digits">
+                                {decoding.digits.map((digit, index) => (
+                                    <li key={index}>
+                                        <span className="hazmat-ref-digit">{digit.digit}</span>
+                                        <span>{digit.meaning}</span>
+                                    </li>
+                                ))}
+                            </ol>
+                        </div>
+                    )}
+
+                    {card && (
+                        <div className="hazmat-ref-card hazmat-ref-emergency">
+                            <h3>
+                                <ShieldAlert size={18} />
+                                Emergency response — {card.title}
+                            </h3>
+                            {card.ergGuide && <p className="hazmat-ref-name">ERG guide {card.ergGuide}</p>}
+                            <ul>
+                                {card.actions.map((action) => (
+                                    <li key={action}>{action}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -15,8 +15,10 @@ import {
     Clock,
     CheckCircle,
     Gauge,
+    Video,
 } from "lucide-react";
 import KPICard from "@/components/logistics-manager/KPICard";
+import appConfig from "@/config/appConfig";
 import {
     getDashboardSummary,
     getVolumeData,
@@ -26,9 +28,14 @@ import {
 import { getActiveAlerts } from "@/services/alerts";
 import type { Alert } from "@/types/types";
 import { exportToPDF, exportToCSV } from "@/services/exportService";
+import { getStreamHealth, type StreamHealthReport } from "@/services/streams";
+import { getStreamHealthLevel } from "@/lib/streamHealth";
 
 type TimeRange = "today" | "week" | "month" | "year";
 
+// Feed reports older than this are shown as stale (the gate PC stopped reporting)
+const FEED_STALE_MS = 2 * 60 * 1000;
+
 // Alert type → icon + color map
 const alertConfig: Record<string, { icon: React.ReactNode; color: string; label: string }> = {
     safety: { icon: <Shield size={16} />, color: "#ef4444", label: "Safety" },
@@ -42,6 +49,7 @@ export default function ManagerDashboard() {
     const [summary, setSummary] = useState<DashboardSummary | null>(null);
     const [alerts, setAlerts] = useState<Alert[]>([]);
     const [volumeData, setVolumeData] = useState<VolumeDataPoint[]>([]);
+    const [feedHealth, setFeedHealth] = useState<StreamHealthReport[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isExporting, setIsExporting] = useState(false);
     const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
@@ -52,10 +60,11 @@ export default function ManagerDashboard() {
         setIsLoading(true);
         setFetchError(false);
         try {
-            const [summaryData, alertsData, volumeResult] = await Promise.allSettled([
+            const [summaryData, alertsData, volumeResult, feedResult] = await Promise.allSettled([
                 getDashboardSummary(),
                 getActiveAlerts(5),
                 getVolumeData(undefined, undefined, "hour"),
+                appConfig.streamHealthApi ? getStreamHealth() : Promise.resolve([]),
             ]);
 
             if (summaryData.status === "fulfilled") setSummary(summaryData.value);
@@ -67,6 +76,10 @@ export default function ManagerDashboard() {
             if (volumeResult.status === "fulfilled") setVolumeData(volumeResult.value);
             else setVolumeData([]);
 
+            if (feedResult.status === "fulfilled") {
+                setFeedHealth([...feedResult.value].sort((a, b) => a.gate_id.localeCompare(b.gate_id)));
+            } else setFeedHealth([]);
+
             setLastUpdate(new Date());
         } catch (error) {
             console.error("Failed to fetch dashboard data:", error);
@@ -307,6 +320,60 @@ export default function ManagerDashboard() {
                     )}
                 </div>
             </div>
+
+            {/* Camera Feed Quality (reported by gate PCs) */}
+            <div className="dashboard-card">
+                <div className="dashboard-card-header">
+                    <div className="dashboard-card-header-left">
+                        <Video size={18} />
+                        <h3>Camera Feeds</h3>
+                    </div>
+                </div>
+                {feedHealth.length === 0 ? (
+                    <div className="alerts-empty">
+                        <Video size={28} />
+                        <span>{appConfig.streamHealthApi ? "No feed health reports" : "Feed health reporting is not enabled"}</span>
+                    </div>
+                ) : (
+                    <table className="feed-health-table">
+                        <thead>
+                            <tr>
+                                <th>Gate</th>
+                                <th>Client</th>
+                                <th>Quality</th>
+                                <th>Startup</th>
+                                <th>Rebuffers</th>
+                                <th>Latency</th>
+                                <th>Dropped</th>
+                                <th>Bandwidth</th>
+                                <th>Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {feedHealth.map((feed) => {
+                                const stale = Date.now() - Date.parse(feed.reported_at) > FEED_STALE_MS;
+                                const level = stale ? "stale" : getStreamHealthLevel(feed);
+                                const droppedPct = feed.total_frames > 0
+                                    ? ((feed.dropped_frames / feed.total_frames) * 100).toFixed(1)
+                                    : "0.0";
+                                return (
+                                    <tr key={`${feed.gate_id}-${feed.client_id}`}>
+                                        <td>{feed.gate_id}</td>
+                                        <td>{feed.client_id}</td>
+                                        <td>{feed.rendition.toUpperCase()}{feed.mode !== "auto" ? " (forced)" : ""}</td>
+                                        <td>{feed.startup_ms !== null ? `${(feed.startup_ms / 1000).toFixed(1)}s` : "--"}</td>
+                                        <td>{feed.rebuffer_count}</td>
+                                        <td>{feed.latency_s !== null ? `${feed.latency_s}s` : "--"}</td>
+                                        <td>{droppedPct}%</td>
+                                        <td>{feed.bandwidth_kbps !== null ? `${(feed.bandwidth_kbps / 1000).toFixed(1)} Mbps` : "--"}</td>
+                                        <td><span className={`feed-status feed-${level}`}>{level}</span></td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
         </div>
     );
 }
@@ -1,10 +1,13 @@
 /**
  * Settings Page
- * Streamlined: profile info, theme toggle, port info, and support contact.
+ * Streamlined: profile info, theme toggle, delay detection rules, port info, and support contact.
  * Removed unnecessary technical details (API/WS/Grafana URLs, version, language).
  */
+import { useEffect, useState } from "react";
 import { useTheme } from "@/contexts/ThemeContext";
 import config from "@/config/appConfig";
+import { getErrorMessage } from "@/lib/api";
+import { getDelayRules, loadDelayRules, saveDelayRules, type DelayRules } from "@/services/delayDetection";
 import {
     User,
     Sun,
@@ -12,6 +15,8 @@ import {
     Monitor,
     Anchor,
     Mail,
+    Clock,
+    Trash2,
 } from "lucide-react";
 
 export default function SettingsPage() {
@@ -23,6 +28,60 @@ export default function SettingsPage() {
     const userEmail = userInfo.email || "—";
     const userRole = userInfo.role || "Logistics Manager";
 
+    const [delayRules, setDelayRules] = useState<DelayRules>(getDelayRules);
+    const [defaultGraceInput, setDefaultGraceInput] = useState(String(delayRules.defaultGraceMinutes));
+    const [rulesError, setRulesError] = useState<string | null>(null);
+    const [newTerminalId, setNewTerminalId] = useState("");
+    const [newGrace, setNewGrace] = useState("");
+
+    // The rules live on the server so every gate PC applies the same ones; without
+    // a rules endpoint they are the installation defaults and can't be edited here
+    const rulesEditable = config.delayRulesApi;
+    useEffect(() => {
+        loadDelayRules().then((rules) => {
+            setDelayRules(rules);
+            setDefaultGraceInput(String(rules.defaultGraceMinutes));
+        });
+    }, []);
+
+    const updateDelayRules = (patch: Partial<DelayRules>) => {
+        const previous = delayRules;
+        setDelayRules({ ...previous, ...patch });
+        setRulesError(null);
+        saveDelayRules({ ...previous, ...patch })
+            .then(setDelayRules)
+            .catch((err) => {
+                console.error("[Delay] Failed to save delay rules:", err);
+                setRulesError(getErrorMessage(err));
+                setDelayRules(previous);
+                setDefaultGraceInput(String(previous.defaultGraceMinutes));
+            });
+    };
+
+    const commitDefaultGrace = () => {
+        const minutes = Number(defaultGraceInput);
+        if (defaultGraceInput.trim() === "" || !Number.isFinite(minutes) || minutes < 0) {
+            setDefaultGraceInput(String(delayRules.defaultGraceMinutes));
+            return;
+        }
+        if (minutes !== delayRules.defaultGraceMinutes) updateDelayRules({ defaultGraceMinutes: minutes });
+    };
+
+    const addTerminalGrace = () => {
+        const terminalId = Number(newTerminalId);
+        const minutes = Number(newGrace);
+        if (!Number.isInteger(terminalId) || terminalId <= 0 || !Number.isFinite(minutes) || minutes < 0) return;
+        updateDelayRules({ terminalGraceMinutes: { ...delayRules.terminalGraceMinutes, [terminalId]: minutes } });
+        setNewTerminalId("");
+        setNewGrace("");
+    };
+
+    const removeTerminalGrace = (terminalId: string) => {
+        const rest = { ...delayRules.terminalGraceMinutes };
+        delete rest[terminalId];
+        updateDelayRules({ terminalGraceMinutes: rest });
+    };
+
     return (
         <div className="settings-page">
             {/* Header */}
@@ -86,6 +145,122 @@ export default function SettingsPage() {
                 </div>
             </div>
 
+            {/* Delay Detection Section */}
+            <div className="settings-section">
+                <div className="settings-section-header">
+                    <Clock size={20} />
+                    <h2 className="settings-section-title">Delay Detection</h2>
+                </div>
+                <div className="settings-card">
+                    {!rulesEditable && (
+                        <>
+                            <div className="settings-row">
+                                <span className="settings-hint">
+                                    Delay rules are set per installation (VITE_DELAY_GRACE_MINUTES, VITE_DELAY_AUTO_APPLY) and apply to every gate
+                                </span>
+                            </div>
+                            <div className="settings-divider" />
+                        </>
+                    )}
+                    {rulesError && (
+                        <>
+                            <div className="settings-row">
+                                <span className="settings-hint" style={{ color: "var(--danger)" }}>
+                                    Could not save delay rules: {rulesError}
+                                </span>
+                            </div>
+                            <div className="settings-divider" />
+                        </>
+                    )}
+                    <div className="settings-row">
+                        <div className="settings-label-group">
+                            <span className="settings-label">Default grace period</span>
+                            <span className="settings-hint">
+                                Minutes after the scheduled time before an arrival counts as delayed
+                            </span>
+                        </div>
+                        <input
+                            type="number"
+                            min={0}
+                            className="settings-input"
+                            value={defaultGraceInput}
+                            disabled={!rulesEditable}
+                            onChange={(e) => setDefaultGraceInput(e.target.value)}
+                            onBlur={commitDefaultGrace}
+                            onKeyDown={(e) => e.key === "Enter" && commitDefaultGrace()}
+                        />
+                    </div>
+                    <div className="settings-divider" />
+                    <div className="settings-row">
+                        <div className="settings-label-group">
+                            <span className="settings-label">Apply automatically</span>
+                            <span className="settings-hint">
+                                Mark overdue arrivals delayed and notify drivers without asking the gate operator. Applies to every gate.
+                            </span>
+                        </div>
+                        <button
+                            className="theme-toggle-btn"
+                            disabled={!rulesEditable}
+                            onClick={() => updateDelayRules({ autoApply: !delayRules.autoApply })}
+                        >
+                            {delayRules.autoApply ? "On" : "Off"}
+                        </button>
+                    </div>
+                    {Object.entries(delayRules.terminalGraceMinutes).map(([terminalId, minutes]) => (
+                        <div key={terminalId}>
+                            <div className="settings-divider" />
+                            <div className="settings-row">
+                                <span className="settings-label">Terminal {terminalId}</span>
+                                <span className="settings-value settings-inline">
+                                    {minutes} min
+                                    {rulesEditable && (
+                                        <button
+                                            className="settings-icon-btn"
+                                            title="Remove override"
+                                            onClick={() => removeTerminalGrace(terminalId)}
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    )}
+                                </span>
+                            </div>
+                        </div>
+                    ))}
+                    {rulesEditable && (
+                        <>
+                            <div className="settings-divider" />
+                            <div className="settings-row">
+                                <div className="settings-label-group">
+                                    <span className="settings-label">Terminal override</span>
+                                    <span className="settings-hint">Grace period for one terminal</span>
+                                </div>
+                                <span className="settings-inline">
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        placeholder="Terminal ID"
+                                        className="settings-input"
+                                        value={newTerminalId}
+                                        onChange={(e) => setNewTerminalId(e.target.value)}
+                                    />
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        placeholder="Minutes"
+                                        className="settings-input"
+                                        value={newGrace}
+                                        onChange={(e) => setNewGrace(e.target.value)}
+                                    />
+                                    <button className="theme-toggle-btn" onClick={addTerminalGrace}>
+                                        Add
+                                    </button>
+                                </span>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+
             {/* Port Info Section */}
             <div className="settings-section">
                 <div className="settings-section-header">
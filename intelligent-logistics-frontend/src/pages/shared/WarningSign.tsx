@@ -1,9 +1,18 @@
 import { useState, useEffect } from 'react';
 import HLSPlayer from '@/components/gate-operator/HLSPlayer';
-import { getStreamUrl } from '@/config/streams';
+import { getRegistrySnapshot, resolveStreamUrl } from '@/lib/streamRegistry';
 
 export default function WarningSign() {
   const [isActive, setIsActive] = useState(false);
+  const [streamUrl, setStreamUrl] = useState<string | null>(null);
+
+  // The sign watches the first registered gate's camera
+  useEffect(() => {
+    const gateId = getRegistrySnapshot().gates[0]?.id ?? 1;
+    resolveStreamUrl(gateId, 'high')
+      .then(setStreamUrl)
+      .catch((err) => console.error('Failed to resolve stream URL:', err));
+  }, []);
 
   // Auto-turn off the sign after 10 seconds to simulate a passing truck (simulates triggering the alert and then returning to normal)
   useEffect(() => {
@@ -43,10 +52,12 @@ export default function WarningSign() {
                             .stream-wrapper .stream-overlay { position: absolute; inset: 0; display: flex; align-items: center; justify-content: center; background: rgba(0,0,0,0.7); z-index: 10; color: white; }
                         `}</style>
             <div className="absolute inset-0 pointer-events-none opacity-80 mix-blend-screen scale-105 stream-wrapper">
-              <HLSPlayer
-                streamUrl={getStreamUrl("gate01", "high")}
-                autoPlay={true}
-              />
+              {streamUrl && (
+                <HLSPlayer
+                  streamUrl={streamUrl}
+                  autoPlay={true}
+                />
+              )}
             </div>
 
             {/* Overlay Grid */}
@@ -6,9 +6,12 @@ import Login from '@/pages/Login/Login';
 const GateQuickLayout = React.lazy(() => import('@/components/layout/gate-operator/OperatorQuick'));
 const GateDetailLayout = React.lazy(() => import('@/components/layout/gate-operator/OperatorDetail'));
 const Dashboard = React.lazy(() => import('@/components/gate-operator/Dashboard'));
+const SupervisionDashboard = React.lazy(() => import('@/components/gate-operator/SupervisionDashboard'));
 const ArrivalsList = React.lazy(() => import('@/pages/gate-operator/ArrivalsList'));
 const ArrivalDetail = React.lazy(() => import('@/pages/gate-operator/ArrivalDetail'));
 const AlertsPage = React.lazy(() => import('@/pages/gate-operator/AlertsPage'));
+const DecisionAuditPage = React.lazy(() => import('@/pages/gate-operator/DecisionAuditPage'));
+const HazmatReferencePage = React.lazy(() => import('@/pages/gate-operator/HazmatReferencePage'));
 
 // Componentes do Gestor Logístico
 const ManagerLayout = React.lazy(() => import('@/components/layout/logistics-manager/ManagerLayout'));
@@ -41,6 +44,13 @@ const gateRoutes = [
       { index: true, element: <Dashboard /> },
     ],
   },
+  {
+    path: '/gate/supervision',
+    element: <GateQuickLayout />,
+    children: [
+      { index: true, element: <SupervisionDashboard /> },
+    ],
+  },
   {
     path: '/gate/arrivals',
     element: <GateDetailLayout />,
@@ -62,6 +72,20 @@ const gateRoutes = [
       { index: true, element: <AlertsPage /> },
     ],
   },
+  {
+    path: '/gate/audit',
+    element: <GateDetailLayout />,
+    children: [
+      { index: true, element: <DecisionAuditPage /> },
+    ],
+  },
+  {
+    path: '/gate/hazmat',
+    element: <GateDetailLayout />,
+    children: [
+      { index: true, element: <HazmatReferencePage /> },
+    ],
+  },
   // Redireciona qualquer rota desconhecida para /gate
   { path: '*', element: <Navigate to="/gate" replace /> }
 ];
@@ -4,14 +4,44 @@
  */
 import api from '@/lib/api';
 import type {
+    AdrCode,
     Alert,
     AlertsQueryParams,
     CreateAlertRequest,
-    CreateHazmatAlertRequest
+    CreateHazmatAlertRequest,
+    KemlerCode
 } from '@/types/types';
 
 const BASE_PATH = '/alerts';
 
+/**
+ * Reference endpoints have answered both with a list of records and with a
+ * code -> text map (optionally wrapped in { codes }); turn either into records
+ */
+function toRecords(data: unknown): Record<string, unknown>[] {
+    const wrapped = data && typeof data === 'object' && !Array.isArray(data) ? (data as { codes?: unknown }).codes : undefined;
+    const list = Array.isArray(data) ? data : Array.isArray(wrapped) ? wrapped : null;
+    if (list) {
+        return list.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+    }
+    if (data && typeof data === 'object') {
+        return Object.entries(data as Record<string, unknown>).map(([code, value]) =>
+            value && typeof value === 'object'
+                ? { code, ...(value as Record<string, unknown>) }
+                : { code, description: value }
+        );
+    }
+    return [];
+}
+
+function pickString(record: Record<string, unknown>, ...keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = record[key];
+        if (value !== undefined && value !== null && String(value).trim()) return String(value).trim();
+    }
+    return undefined;
+}
+
 /**
  * List alerts with optional filters
  */
@@ -73,17 +103,32 @@ export async function createHazmatAlert(
 }
 
 /**
- * Get ADR codes reference
+ * Get ADR codes reference (dangerous goods by UN number)
  */
-export async function getAdrCodes(): Promise<unknown> {
+export async function getAdrCodes(): Promise<AdrCode[]> {
     const response = await api.get(`${BASE_PATH}/reference/adr-codes`);
-    return response.data;
+    return toRecords(response.data).flatMap((record) => {
+        const un = pickString(record, 'un_number', 'un', 'code');
+        if (!un) return [];
+        return [{
+            un_number: un.toUpperCase().replace(/^UN\s*/, ''),
+            name: pickString(record, 'name', 'description', 'proper_shipping_name') || '',
+            hazard_class: pickString(record, 'hazard_class', 'class') ?? null,
+            packing_group: pickString(record, 'packing_group') ?? null,
+            kemler: pickString(record, 'kemler', 'hazard_id', 'hazard_identification_number') ?? null,
+            erg_guide: pickString(record, 'erg_guide', 'guide') ?? null,
+        }];
+    });
 }
 
 /**
- * Get Kemler codes reference
+ * Get Kemler codes reference (hazard identification numbers)
  */
-export async function getKemlerCodes(): Promise<unknown> {
+export async function getKemlerCodes(): Promise<KemlerCode[]> {
     const response = await api.get(`${BASE_PATH}/reference/kemler-codes`);
-    return response.data;
+    return toRecords(response.data).flatMap((record) => {
+        const code = pickString(record, 'kemler', 'code');
+        if (!code) return [];
+        return [{ code: code.toUpperCase(), description: pickString(record, 'description', 'name', 'meaning') || '' }];
+    });
 }
@@ -2,9 +2,12 @@
  * Arrivals API Service
  * Handles all arrival/appointment related API calls
  */
+import axios from 'axios';
 import api from '@/lib/api';
+import { checkTransition, type StatusActor } from '@shared/appointmentStatus';
 import type {
     Appointment,
+    AppointmentStatusEnum,
     AppointmentStatusUpdate,
     ArrivalsQueryParams,
     PaginatedResponse,
@@ -95,13 +98,29 @@ export async function queryArrivalsByLicensePlate(
     return response.data;
 }
 
+/** Current status and who is changing it, checked against the status state machine */
+export interface StatusChangeContext {
+    from: AppointmentStatusEnum;
+    actor?: StatusActor;
+    /** Rolling back a change that was just applied (bulk undo) */
+    reverting?: boolean;
+}
+
 /**
- * Update appointment status
+ * Update appointment status. When the caller passes the current status,
+ * illegal transitions are refused here, before reaching the API.
  */
 export async function updateArrivalStatus(
     appointmentId: number,
-    update: AppointmentStatusUpdate
+    update: AppointmentStatusUpdate,
+    context?: StatusChangeContext
 ): Promise<Appointment> {
+    if (context) {
+        const check = checkTransition(context.from, update.status, context.actor ?? 'operator', context.reverting);
+        if (!check.ok) {
+            throw new Error(check.reason);
+        }
+    }
     const response = await api.patch<Appointment>(
         `${BASE_PATH}/${appointmentId}/status`,
         update
@@ -123,6 +142,19 @@ export async function createVisit(
     return response.data;
 }
 
+/**
+ * Get the visit for an appointment, or null when the truck hasn't entered yet
+ */
+export async function getVisit(appointmentId: number): Promise<Visit | null> {
+    try {
+        const response = await api.get<Visit>(`${BASE_PATH}/${appointmentId}/visit`);
+        return response.data;
+    } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) return null;
+        throw err;
+    }
+}
+
 /**
  * Update visit status (e.g., to 'completed' when truck leaves)
  */
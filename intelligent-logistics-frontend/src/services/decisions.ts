@@ -2,6 +2,7 @@
  * Decisions API Service
  * Handles detection and decision event queries
  */
+import config from '@/config/appConfig';
 import api from '@/lib/api';
 import type {
     DetectionEvent,
@@ -72,6 +73,8 @@ export async function queryAppointments(
  * 
  * Sends a DecisionResultsMessage via Kafka with the operator's decision.
  * All fields are sent as query params matching the backend's FastAPI signature.
+ * The reason, evidence and operator fields are only sent when the backend
+ * accepts them (appConfig.reviewAuditApi).
  */
 export async function submitManualReview(params: {
     license_plate: string;
@@ -85,6 +88,14 @@ export async function submitManualReview(params: {
     alerts?: string[];
     route?: string;
     truck_id?: string;
+    /** Code from the review reason taxonomy (config/reviewReasons) */
+    reason_code?: string;
+    reason_note?: string;
+    /** URLs of evidence uploaded with uploadReviewEvidence */
+    evidence_urls?: string[];
+    /** Operator who made the decision, recorded for the audit trail */
+    operator_id?: string;
+    operator_name?: string;
 }): Promise<void> {
     const queryParams: Record<string, unknown> = {
         license_plate: params.license_plate,
@@ -98,11 +109,43 @@ export async function submitManualReview(params: {
         route: params.route || '',
         ...(params.truck_id ? { truck_id: params.truck_id } : {}),
     };
+    if (config.reviewAuditApi) {
+        Object.assign(queryParams, {
+            ...(params.reason_code ? { reason_code: params.reason_code } : {}),
+            ...(params.reason_note ? { reason_note: params.reason_note } : {}),
+            ...(params.operator_id ? { operator_id: params.operator_id } : {}),
+            ...(params.operator_name ? { operator_name: params.operator_name } : {}),
+        });
+    }
 
     // FastAPI expects repeated query params for lists
     if (params.alerts && params.alerts.length > 0) {
         queryParams.alerts = params.alerts;
     }
+    if (config.reviewAuditApi && params.evidence_urls && params.evidence_urls.length > 0) {
+        queryParams.evidence_urls = params.evidence_urls;
+    }
 
     await api.post('/manual-review/', null, { params: queryParams });
 }
+
+/**
+ * Upload an evidence image (annotated frame capture) for a manual review.
+ * Stored alongside the detection crops; returns its URL. Needs
+ * appConfig.reviewAuditApi.
+ */
+export async function uploadReviewEvidence(
+    image: Blob,
+    meta: { license_plate: string; caption?: string; captured_at: string }
+): Promise<{ url: string }> {
+    const form = new FormData();
+    form.append('file', image, `evidence-${Date.now()}.png`);
+    form.append('license_plate', meta.license_plate);
+    form.append('captured_at', meta.captured_at);
+    if (meta.caption) form.append('caption', meta.caption);
+
+    const response = await api.post<{ url: string }>('/manual-review/evidence', form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+}
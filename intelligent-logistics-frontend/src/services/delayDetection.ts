@@ -0,0 +1,248 @@
+/**
+ * Delay Detection Service
+ * Watches upcoming appointments against their scheduled time plus a grace
+ * period, and proposes or applies the in_transit -> delayed transition. Each
+ * applied delay raises an operational alert and, when the backend accepts
+ * recipient notifications (appConfig.recipientNotificationsApi), notifies the
+ * driver and the company contact.
+ *
+ * Grace periods default to appConfig.delayGraceMinutes and can be overridden
+ * per terminal. When the backend stores the rules (appConfig.delayRulesApi) they
+ * are edited in the manager's Settings so every gate PC applies the same ones,
+ * and the last copy fetched is cached in localStorage for when the settings
+ * endpoint is unreachable. Without it every PC uses the installation defaults
+ * (VITE_DELAY_GRACE_MINUTES, VITE_DELAY_AUTO_APPLY) and the rules are read-only.
+ */
+import config from '@/config/appConfig';
+import api, { getErrorMessage } from '@/lib/api';
+import { canTransition } from '@shared/appointmentStatus';
+import { getArrival, getArrivals, updateArrivalStatus } from './arrivals';
+import { createAlert } from './alerts';
+import { createNotification, type CreateNotificationRequest } from './notifications';
+import type { Appointment } from '@/types/types';
+
+export interface DelayRules {
+    defaultGraceMinutes: number;
+    /** Grace minutes per terminal id, overriding the default */
+    terminalGraceMinutes: Record<string, number>;
+    /** Apply delays automatically instead of proposing them */
+    autoApply: boolean;
+}
+
+export interface DelayCandidate {
+    appointment: Appointment;
+    graceMinutes: number;
+    /** Minutes past scheduled time plus grace */
+    overdueMinutes: number;
+}
+
+export type DelayResult =
+    | { ok: true; appointment: Appointment; notified: number }
+    | { ok: false; reason: string };
+
+export interface DelayRunResult {
+    /** Overdue appointments waiting for an operator (autoApply off) */
+    proposed: DelayCandidate[];
+    applied: Appointment[];
+    failed: { appointment: Appointment; reason: string }[];
+}
+
+const RULES_PATH = '/settings/delay-rules';
+const CACHE_KEY = 'delay_rules_cache';
+/** Page size when walking the gate's in-transit appointments */
+const ARRIVALS_PAGE_SIZE = 100;
+
+// ==================== RULES ====================
+
+function normalizeRules(saved: Partial<DelayRules> | null | undefined): DelayRules {
+    return {
+        defaultGraceMinutes: Number.isFinite(saved?.defaultGraceMinutes) ? saved!.defaultGraceMinutes! : config.delayGraceMinutes,
+        terminalGraceMinutes: saved?.terminalGraceMinutes && typeof saved.terminalGraceMinutes === 'object'
+            ? saved.terminalGraceMinutes
+            : {},
+        autoApply: typeof saved?.autoApply === 'boolean' ? saved.autoApply : config.delayAutoApply,
+    };
+}
+
+function cacheRules(rules: DelayRules): DelayRules {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(rules));
+    return rules;
+}
+
+/**
+ * Last rules fetched from the server, or the app defaults
+ */
+export function getDelayRules(): DelayRules {
+    if (!config.delayRulesApi) return normalizeRules(null);
+    try {
+        return normalizeRules(JSON.parse(localStorage.getItem(CACHE_KEY) || 'null'));
+    } catch {
+        return normalizeRules(null);
+    }
+}
+
+/**
+ * Fetch the rules from the server, falling back to the cached copy
+ */
+export async function loadDelayRules(): Promise<DelayRules> {
+    if (!config.delayRulesApi) return normalizeRules(null);
+    try {
+        const response = await api.get<Partial<DelayRules>>(RULES_PATH);
+        return cacheRules(normalizeRules(response.data));
+    } catch (err) {
+        console.warn('[Delay] Delay rules unavailable, using cached copy:', err);
+        return getDelayRules();
+    }
+}
+
+/**
+ * Store the rules on the server for every gate; throws if the server rejects them
+ */
+export async function saveDelayRules(rules: DelayRules): Promise<DelayRules> {
+    if (!config.delayRulesApi) {
+        throw new Error('Delay rules are set per installation on this backend');
+    }
+    const response = await api.put<Partial<DelayRules>>(RULES_PATH, rules);
+    return cacheRules(normalizeRules(response.data));
+}
+
+export function getGraceMinutes(terminalId: number, rules: DelayRules = getDelayRules()): number {
+    return rules.terminalGraceMinutes[String(terminalId)] ?? rules.defaultGraceMinutes;
+}
+
+// ==================== DETECTION ====================
+
+/**
+ * In-transit appointments whose scheduled time plus grace has passed, most overdue first
+ */
+export function findOverdueAppointments(
+    appointments: Appointment[],
+    rules: DelayRules = getDelayRules(),
+    now: number = Date.now()
+): DelayCandidate[] {
+    return appointments
+        .filter(appointment => appointment.scheduled_start_time && canTransition(appointment.status, 'delayed', 'system'))
+        .map((appointment) => {
+            const graceMinutes = getGraceMinutes(appointment.terminal_id, rules);
+            const deadline = Date.parse(appointment.scheduled_start_time!) + graceMinutes * 60000;
+            return { appointment, graceMinutes, overdueMinutes: Math.floor((now - deadline) / 60000) };
+        })
+        .filter(candidate => candidate.overdueMinutes >= 0)
+        .sort((a, b) => b.overdueMinutes - a.overdueMinutes);
+}
+
+function delayMessage(candidate: DelayCandidate): string {
+    const { appointment, graceMinutes } = candidate;
+    const scheduled = new Date(appointment.scheduled_start_time!).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+    const late = candidate.overdueMinutes + graceMinutes;
+    return `Truck ${appointment.truck_license_plate} (booking ${appointment.booking_reference}) was due at ${scheduled} and is ${late} min late.`;
+}
+
+/**
+ * Notification records for the driver and the company contact, when known
+ */
+function buildNotifications(candidate: DelayCandidate, gateId: number): CreateNotificationRequest[] {
+    const { appointment } = candidate;
+    const message = delayMessage(candidate);
+    const base = {
+        gate_id: gateId,
+        type: 'warning' as const,
+        appointment_id: appointment.id,
+        license_plate: appointment.truck_license_plate,
+    };
+    const notifications: CreateNotificationRequest[] = [{
+        ...base,
+        title: 'Your arrival is marked as delayed',
+        message: `${message} Please contact the terminal if you can no longer make it.`,
+        recipient_type: 'driver',
+        recipient: appointment.driver?.drivers_license || appointment.driver_license,
+    }];
+
+    const company = appointment.truck?.company ?? appointment.driver?.company;
+    if (company?.contact) {
+        notifications.push({
+            ...base,
+            title: `Delayed arrival for ${company.name}`,
+            message,
+            recipient_type: 'company',
+            recipient: company.contact,
+        });
+    }
+    return notifications;
+}
+
+/**
+ * Mark one overdue appointment delayed, raise an operational alert and notify the
+ * driver and company. The appointment is re-read first so a truck that arrived,
+ * or was already handled on another gate PC, is left alone.
+ */
+export async function applyDelay(
+    candidate: DelayCandidate,
+    gateId: number,
+    actor: 'operator' | 'system' = 'system'
+): Promise<DelayResult> {
+    let appointment: Appointment;
+    try {
+        const current = await getArrival(candidate.appointment.id);
+        if (!canTransition(current.status, 'delayed', actor)) {
+            return { ok: false, reason: `Appointment is already ${current.status.replace('_', ' ')}` };
+        }
+        appointment = await updateArrivalStatus(current.id, { status: 'delayed' }, { from: current.status, actor });
+    } catch (err) {
+        console.error(`[Delay] Failed to mark appointment ${candidate.appointment.id} delayed:`, err);
+        return { ok: false, reason: getErrorMessage(err) };
+    }
+
+    // The status change stands even if the alert or notifications fail
+    const followUps = await Promise.allSettled([
+        createAlert({ type: 'operational', description: delayMessage(candidate) }),
+        ...(config.recipientNotificationsApi ? buildNotifications(candidate, gateId).map(createNotification) : []),
+    ]);
+    followUps.forEach((result) => {
+        if (result.status === 'rejected') console.warn('[Delay] Follow-up failed:', result.reason);
+    });
+    const notified = followUps.slice(1).filter(result => result.status === 'fulfilled').length;
+
+    return { ok: true, appointment, notified };
+}
+
+/**
+ * Every in-transit appointment for the gate, across all pages
+ */
+async function fetchInTransit(gateId: number): Promise<Appointment[]> {
+    const appointments: Appointment[] = [];
+    for (let page = 1; ; page++) {
+        const response = await getArrivals({ gate_id: gateId, status: 'in_transit', page, limit: ARRIVALS_PAGE_SIZE });
+        appointments.push(...response.items);
+        if (page >= response.pages || response.items.length === 0) return appointments;
+    }
+}
+
+/**
+ * Check the gate's in-transit appointments. With autoApply every overdue one is
+ * marked delayed, but only by the tab that leads the gate's shared socket, so
+ * the alert and notifications go out once; otherwise they are returned as
+ * proposals for the operator.
+ */
+export async function runDelayDetection(gateId: number, isLeader: boolean): Promise<DelayRunResult> {
+    const result: DelayRunResult = { proposed: [], applied: [], failed: [] };
+    const rules = await loadDelayRules();
+    if (rules.autoApply && !isLeader) return result;
+
+    const candidates = findOverdueAppointments(await fetchInTransit(gateId), rules);
+
+    if (!rules.autoApply) {
+        result.proposed = candidates;
+        return result;
+    }
+
+    for (const candidate of candidates) {
+        const outcome = await applyDelay(candidate, gateId);
+        if (outcome.ok) {
+            result.applied.push(outcome.appointment);
+        } else {
+            result.failed.push({ appointment: candidate.appointment, reason: outcome.reason });
+        }
+    }
+    return result;
+}
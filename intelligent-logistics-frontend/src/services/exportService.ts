@@ -1,8 +1,24 @@
 /**
  * Export Service
- * PDF and CSV report generation for manager dashboard
+ * PDF and CSV report generation for manager dashboard, and audit trail and
+ * arrivals exports for the gate UI
  */
 import type { DashboardSummary, TransportStats } from './statistics';
+import type { AuditEntry } from '@/lib/decisionAudit';
+
+/** One arrivals-list row, as shown to the operator */
+export interface ArrivalExportRow {
+    id: number;
+    plate: string;
+    dock: string;
+    arrivalTime: string;
+    reference: string;
+    driver: string;
+    company: string;
+    status: string;
+    highwayInfraction?: boolean;
+    notes?: string;
+}
 
 interface ExportData {
     summary: DashboardSummary;
@@ -132,16 +148,110 @@ export function exportToCSV(data: ExportData): void {
         ]);
     });
 
-    // Convert to CSV string
+    downloadCSV(rows, `relatorio-logistica-${formatDateForFilename(data.generatedAt)}.csv`);
+}
+
+/**
+ * Export selected arrivals to CSV (one row per appointment)
+ */
+export function exportArrivalsToCSV(arrivals: ArrivalExportRow[], generatedAt: Date = new Date()): void {
+    const rows: string[][] = [[
+        'ID', 'License Plate', 'Dock', 'Arrival Time', 'Reference', 'Driver', 'Company', 'Status', 'Infraction', 'Notes',
+    ]];
+    arrivals.forEach(arrival => {
+        rows.push([
+            String(arrival.id),
+            arrival.plate,
+            arrival.dock,
+            arrival.arrivalTime,
+            arrival.reference,
+            arrival.driver,
+            arrival.company,
+            arrival.status,
+            arrival.highwayInfraction ? 'yes' : 'no',
+            arrival.notes || '',
+        ]);
+    });
+
+    downloadCSV(rows, `arrivals-${formatDateForFilename(generatedAt)}.csv`);
+}
+
+/**
+ * Export operator decisions to CSV (one row per decision)
+ */
+export function exportAuditTrailToCSV(entries: AuditEntry[], generatedAt: Date = new Date()): void {
+    const formatTime = (ms?: number) => (ms && !Number.isNaN(ms) ? new Date(ms).toISOString() : '');
+    const rows: string[][] = [[
+        'Decided At', 'Gate', 'License Plate', 'Decision', 'Operator', 'Operator ID',
+        'Reason Code', 'Reason', 'Note', 'Decision Reason', 'Appointment',
+        'Detected At', 'AI Decision', 'AI Source', 'AI Reason',
+        'UN', 'Kemler', 'License Crop', 'Hazard Crop', 'Evidence',
+    ]];
+
+    entries.forEach(entry => {
+        rows.push([
+            formatTime(entry.decidedAt),
+            String(entry.gateId),
+            entry.licensePlate,
+            entry.decision,
+            entry.operatorName || '',
+            entry.operatorId || '',
+            entry.reasonCode || '',
+            entry.reasonLabel || '',
+            entry.reasonNote || '',
+            entry.decisionReason || '',
+            entry.appointmentId !== undefined ? String(entry.appointmentId) : '',
+            formatTime(entry.detectedAt),
+            entry.originalDecision || '',
+            entry.originalSource || '',
+            entry.originalReason || '',
+            entry.un || '',
+            entry.kemler || '',
+            entry.licenseCropUrl || '',
+            entry.hazardCropUrl || '',
+            entry.evidenceUrls.join(' '),
+        ]);
+    });
+
+    downloadCSV(rows, `decision-audit-${formatDateForFilename(generatedAt)}.csv`);
+}
+
+/**
+ * Export operator decisions as JSON, for attaching to incident investigations
+ */
+export function exportAuditTrailToJSON(entries: AuditEntry[], generatedAt: Date = new Date()): void {
+    const content = JSON.stringify({ generatedAt: generatedAt.toISOString(), count: entries.length, entries }, null, 2);
+    downloadBlob(
+        new Blob([content], { type: 'application/json' }),
+        `decision-audit-${formatDateForFilename(generatedAt)}.json`
+    );
+}
+
+/**
+ * Quote a CSV cell. Cells a spreadsheet would read as a formula are prefixed
+ * with an apostrophe so plates, notes or reasons can't inject one; plain
+ * numbers (e.g. negative deltas) are left as they are.
+ */
+function csvCell(value: string): string {
+    const formula = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value);
+    const safe = formula ? `'${value}` : value;
+    return `"${safe.replace(/"/g, '""')}"`;
+}
+
+function downloadCSV(rows: string[][], filename: string): void {
     const csvContent = rows
-        .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+        .map(row => row.map(csvCell).join(','))
         .join('\n');
+    downloadBlob(new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' }), filename);
+}
 
-    // Create and download file
-    const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
-    link.download = `relatorio-logistica-${formatDateForFilename(data.generatedAt)}.csv`;
+    link.download = filename;
     link.click();
     URL.revokeObjectURL(link.href);
 }
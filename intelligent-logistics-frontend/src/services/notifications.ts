@@ -14,16 +14,34 @@ export interface Notification {
     created_at: string;
     appointment_id?: number;
     license_plate?: string;
+    /** Missing on older records, which were all operator notifications */
+    recipient_type?: NotificationRecipient;
     [key: string]: unknown;
 }
 
+/** Who a notification is addressed to; operator notifications are shown per gate */
+export type NotificationRecipient = 'operator' | 'driver' | 'company';
+
+export interface CreateNotificationRequest {
+    gate_id: number;
+    title: string;
+    message: string;
+    type: Notification['type'];
+    recipient_type: NotificationRecipient;
+    /** Driver's license or company contact, for non-operator recipients */
+    recipient?: string | null;
+    appointment_id?: number;
+    license_plate?: string;
+}
+
 const BASE_PATH = '/notifications';
 
 /**
- * Fetch notifications for a gate.
+ * Fetch a gate's operator notifications. Driver and company notifications share
+ * the gate id but are left out.
  * @param gateId       Gate to fetch notifications for.
  * @param limit        Max notifications to return (default 50).
- * @param unreadOnly   When true, returns only unread notifications (useful for badge count).
+ * @param unreadOnly   When true, returns only unread notifications.
  */
 export async function getNotifications(
     gateId: number,
@@ -31,17 +49,30 @@ export async function getNotifications(
     unreadOnly = false,
 ): Promise<Notification[]> {
     const response = await api.get<Notification[]>(BASE_PATH, {
-        params: { gate_id: gateId, limit, unread_only: unreadOnly },
+        params: { gate_id: gateId, limit, unread_only: unreadOnly, recipient_type: 'operator' },
     });
-    return response.data;
+    // Also filtered here in case the server ignores recipient_type
+    return response.data.filter(n => !n.recipient_type || n.recipient_type === 'operator');
 }
 
 /**
- * Counts unread notifications for a gate (lightweight badge query).
+ * Counts a gate's unread operator notifications (lightweight badge query).
+ * Needs the backend's GET /notifications/unread-count route.
  */
 export async function getUnreadCount(gateId: number): Promise<number> {
-    const items = await getNotifications(gateId, 200, true);
-    return items.length;
+    const response = await api.get<{ count: number }>(`${BASE_PATH}/unread-count`, {
+        params: { gate_id: gateId, recipient_type: 'operator' },
+    });
+    return response.data.count;
+}
+
+/**
+ * Creates a notification record (delivered to drivers/companies by the backend).
+ * Only called when appConfig.recipientNotificationsApi is on.
+ */
+export async function createNotification(notification: CreateNotificationRequest): Promise<Notification> {
+    const response = await api.post<Notification>(BASE_PATH, notification);
+    return response.data;
 }
 
 /**
@@ -53,12 +84,12 @@ export async function markNotificationRead(notificationId: string): Promise<Noti
 }
 
 /**
- * Marks all notifications for a gate as read.
+ * Marks all operator notifications for a gate as read.
  * @returns Number of updated documents.
  */
 export async function markAllNotificationsRead(gateId: number): Promise<{ updated: number }> {
     const response = await api.patch<{ updated: number }>(`${BASE_PATH}/read-all`, null, {
-        params: { gate_id: gateId },
+        params: { gate_id: gateId, recipient_type: 'operator' },
     });
     return response.data;
 }
@@ -0,0 +1,92 @@
+/**
+ * Manual Review Queue API Service
+ * Server-side queue of MANUAL_REVIEW trucks shared by every operator,
+ * with claims so only one operator decides each truck. Needs backend support,
+ * so lib/reviewQueue only calls it when appConfig.reviewQueueApi is on.
+ */
+import api from '@/lib/api';
+import type { DecisionUpdatePayload } from '@/lib/websocket';
+
+export type ReviewQueueStatus = 'pending' | 'claimed' | 'resolved';
+
+export interface ReviewQueueEntry {
+    /** Deterministic per detection, so every client enqueues the same entry */
+    id: string;
+    gate_id: number;
+    license_plate: string;
+    status: ReviewQueueStatus;
+    /** When the truck was detected (ISO) - the SLA clock starts here */
+    detected_at: string;
+    claimed_by?: string | null;
+    claimed_by_name?: string | null;
+    claimed_at?: string | null;
+    escalated_at?: string | null;
+    resolution?: 'accepted' | 'rejected' | null;
+    resolved_at?: string | null;
+    /** Original agent-decision payload, forwarded on submission */
+    payload: DecisionUpdatePayload;
+}
+
+export interface ReviewClaimer {
+    worker_id: string;
+    name: string;
+}
+
+const BASE_PATH = '/manual-review/queue';
+
+/**
+ * Fetch the open (and optionally resolved) queue entries for a gate
+ */
+export async function getReviewQueue(gateId: number, includeResolved = false): Promise<ReviewQueueEntry[]> {
+    const response = await api.get<ReviewQueueEntry[]>(BASE_PATH, {
+        params: { gate_id: gateId, include_resolved: includeResolved },
+    });
+    return response.data;
+}
+
+/**
+ * Add an entry to the queue (idempotent on id)
+ */
+export async function enqueueReview(entry: ReviewQueueEntry): Promise<ReviewQueueEntry> {
+    const response = await api.post<ReviewQueueEntry>(BASE_PATH, entry);
+    return response.data;
+}
+
+/**
+ * Claim an entry for an operator.
+ * Responds 409 with the current entry when someone else holds the claim.
+ */
+export async function claimReview(entryId: string, claimer: ReviewClaimer): Promise<ReviewQueueEntry> {
+    const response = await api.post<ReviewQueueEntry>(`${BASE_PATH}/${encodeURIComponent(entryId)}/claim`, claimer);
+    return response.data;
+}
+
+/**
+ * Give up a claim, returning the entry to pending
+ */
+export async function releaseReview(entryId: string): Promise<ReviewQueueEntry> {
+    const response = await api.post<ReviewQueueEntry>(`${BASE_PATH}/${encodeURIComponent(entryId)}/release`);
+    return response.data;
+}
+
+/**
+ * Flag an entry that waited past the SLA
+ */
+export async function escalateReview(entryId: string): Promise<ReviewQueueEntry> {
+    const response = await api.post<ReviewQueueEntry>(`${BASE_PATH}/${encodeURIComponent(entryId)}/escalate`);
+    return response.data;
+}
+
+/**
+ * Close an entry with the operator's decision
+ */
+export async function resolveReview(
+    entryId: string,
+    resolution: 'accepted' | 'rejected'
+): Promise<ReviewQueueEntry> {
+    const response = await api.post<ReviewQueueEntry>(
+        `${BASE_PATH}/${encodeURIComponent(entryId)}/resolve`,
+        { resolution }
+    );
+    return response.data;
+}
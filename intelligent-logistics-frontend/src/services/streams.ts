@@ -38,3 +38,99 @@ export async function getStreamUrl(
         : await getHighStreamUrl(gateId);
     return streamInfo.hls_url;
 }
+
+// ==================== REGISTRY ====================
+
+/** One camera at a gate; variant paths may be relative to the registry's stream_base_url */
+export interface CameraInfo {
+    id: string;
+    label: string;
+    /** The camera shown by default for the gate */
+    primary?: boolean;
+    variants: { low?: string; high?: string };
+}
+
+export interface GateInfo {
+    id: number;
+    /** Stream server key, e.g. "gate1" */
+    key: string;
+    label: string;
+    cameras: CameraInfo[];
+}
+
+export interface StreamRegistry {
+    stream_base_url?: string;
+    gates: GateInfo[];
+}
+
+/**
+ * Get every gate with its cameras and HLS variants
+ */
+export async function getStreamRegistry(): Promise<StreamRegistry> {
+    const response = await api.get<StreamRegistry>('/stream/registry');
+    return response.data;
+}
+
+// ==================== RENDITIONS ====================
+
+/** Both quality variants of a gate's stream; at least one is set */
+export interface StreamRenditions {
+    low?: string;
+    high?: string;
+}
+
+/**
+ * Fetch both quality variants for a gate.
+ * Either one may be missing; rejects only if neither is available.
+ */
+export async function getStreamRenditions(gateId: string): Promise<StreamRenditions> {
+    const [low, high] = await Promise.allSettled([getLowStreamUrl(gateId), getHighStreamUrl(gateId)]);
+    const renditions: StreamRenditions = {
+        low: low.status === 'fulfilled' ? low.value.hls_url : undefined,
+        high: high.status === 'fulfilled' ? high.value.hls_url : undefined,
+    };
+    if (!renditions.low && !renditions.high) {
+        throw high.status === 'rejected' ? high.reason : new Error(`No stream available for ${gateId}`);
+    }
+    return renditions;
+}
+
+// ==================== HEALTH TELEMETRY ====================
+
+/** Playback health snapshot reported by a gate PC for one camera feed */
+export interface StreamHealthReport {
+    gate_id: string;
+    /** Identifies the reporting browser session */
+    client_id: string;
+    /** Rendition currently playing */
+    rendition: 'low' | 'high' | 'unknown';
+    /** "auto" unless the operator forced a quality */
+    mode: 'auto' | 'low' | 'high';
+    /** Time from load to first frame, null until playback starts */
+    startup_ms: number | null;
+    rebuffer_count: number;
+    rebuffer_ms: number;
+    /** Seconds behind the live edge */
+    latency_s: number | null;
+    dropped_frames: number;
+    total_frames: number;
+    /** Measured bandwidth estimate */
+    bandwidth_kbps: number | null;
+    reported_at: string;
+}
+
+/**
+ * Report player health for a gate's feed (needs appConfig.streamHealthApi)
+ */
+export async function reportStreamHealth(report: StreamHealthReport): Promise<void> {
+    await api.post(`/stream/${report.gate_id}/health`, report);
+}
+
+/**
+ * Latest health report per gate and client, for the manager dashboard
+ * (needs appConfig.streamHealthApi)
+ */
+export async function getStreamHealth(): Promise<StreamHealthReport[]> {
+    const response = await api.get<StreamHealthReport[]>('/stream/health');
+    return response.data;
+}
@@ -101,6 +101,15 @@ export interface Appointment {
     terminal?: Terminal | null;
     gate_in?: Gate | null;
     gate_out?: Gate | null;
+    /** When the driver claimed the arrival with its PIN */
+    claimed_at?: string | null;
+    status_history?: AppointmentStatusChange[] | null;
+}
+
+export interface AppointmentStatusChange {
+    status: AppointmentStatusEnum;
+    changed_at: string;
+    changed_by?: string | null;
 }
 
 export interface AppointmentStatusUpdate {
@@ -138,6 +147,10 @@ export interface ArrivalsQueryParams {
     limit?: number;
     status?: string;
     search?: string;
+    /** Only appointments carrying dangerous goods */
+    hazmat?: boolean;
+    sort_by?: string;
+    sort_order?: 'asc' | 'desc';
 }
 
 // ==================== ALERTS ====================
@@ -165,6 +178,27 @@ export interface CreateHazmatAlertRequest {
     detected_hazmat?: string | null;
 }
 
+// ==================== HAZMAT REFERENCE ====================
+
+/** Dangerous goods list entry (ADR Table A) */
+export interface AdrCode {
+    un_number: string;
+    name: string;
+    /** ADR class, e.g. "3" or "2.1" */
+    hazard_class?: string | null;
+    packing_group?: string | null;
+    /** Hazard identification number usually shown with this UN number */
+    kemler?: string | null;
+    /** Emergency Response Guidebook guide number */
+    erg_guide?: string | null;
+}
+
+/** Hazard identification (Kemler) number */
+export interface KemlerCode {
+    code: string;
+    description: string;
+}
+
 // Note: Driver authentication types moved to the native Driver app
 // The Driver interface above is still used for displaying driver info in appointments
 
@@ -274,6 +308,21 @@ export interface DecisionEvent {
     decision: string;
     timestamp?: string;
     appointment_id?: number;
+    decision_reason?: string | null;
+    /** "operator" for manual reviews, otherwise the deciding agent */
+    decision_source?: string | null;
+    operator_id?: string | null;
+    operator_name?: string | null;
+    reason_code?: string | null;
+    reason_note?: string | null;
+    evidence_urls?: string[] | null;
+    license_crop_url?: string | null;
+    hazard_crop_url?: string | null;
+    un?: string | null;
+    kemler?: string | null;
+    alerts?: string[] | null;
+    route?: string | null;
+    truck_id?: string | null;
 }
 
 // ==================== API QUERY PARAMS ====================
@@ -301,11 +350,15 @@ export interface DetectionEventsQueryParams {
     gate_id?: number;
     event_type?: string;
     limit?: number;
+    skip?: number;
 }
 
 export interface DecisionEventsQueryParams {
     license_plate?: string;
     gate_id?: number;
     decision?: string;
+    decision_source?: string;
+    operator_id?: string;
     limit?: number;
+    skip?: number;
 }
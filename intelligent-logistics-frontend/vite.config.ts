@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from "path"
 
@@ -8,9 +8,14 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Modules shared with the driver app
+      "@shared": path.resolve(__dirname, "../shared"),
     },
   },
   server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../shared")],
+    },
     proxy: {
       '/api': {
         target: 'http://10.255.32.70:8000', // Update this IP to your API Gateway VM IP if different
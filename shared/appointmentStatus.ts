@@ -0,0 +1,85 @@
+/**
+ * Appointment status state machine
+ * The allowed status transitions and who may perform each one. Shared by the
+ * gate UI and the driver app (imported as @shared/appointmentStatus), so it
+ * only depends on itself.
+ *
+ *   in_transit ──> in_process ──> completed
+ *       │               ▲
+ *       ├──> delayed ───┘
+ *       └──> canceled <── delayed
+ */
+/** Matches AppointmentStatusEnum in each app's types */
+export type AppointmentStatusEnum = 'in_transit' | 'in_process' | 'canceled' | 'delayed' | 'completed';
+
+export type StatusActor = 'operator' | 'driver' | 'system';
+
+export interface StatusTransition {
+    from: AppointmentStatusEnum;
+    to: AppointmentStatusEnum;
+    actors: StatusActor[];
+    /** Action label for buttons and menus */
+    label: string;
+}
+
+export type TransitionCheck = { ok: true } | { ok: false; reason: string };
+
+export const APPOINTMENT_STATUSES: AppointmentStatusEnum[] = ['in_transit', 'in_process', 'delayed', 'completed', 'canceled'];
+
+export const STATUS_LABELS: Record<AppointmentStatusEnum, string> = {
+    in_transit: 'In Transit',
+    in_process: 'In Process',
+    delayed: 'Delayed',
+    completed: 'Completed',
+    canceled: 'Canceled',
+};
+
+export const STATUS_TRANSITIONS: StatusTransition[] = [
+    { from: 'in_transit', to: 'in_process', actors: ['operator', 'system'], label: 'Check in' },
+    { from: 'in_transit', to: 'delayed', actors: ['operator', 'system'], label: 'Mark delayed' },
+    { from: 'in_transit', to: 'canceled', actors: ['operator'], label: 'Cancel' },
+    { from: 'delayed', to: 'in_process', actors: ['operator', 'system'], label: 'Check in' },
+    { from: 'delayed', to: 'canceled', actors: ['operator'], label: 'Cancel' },
+    { from: 'in_process', to: 'completed', actors: ['operator', 'driver'], label: 'Complete' },
+];
+
+/** Statuses with no way out */
+export const TERMINAL_STATUSES: AppointmentStatusEnum[] = ['completed', 'canceled'];
+
+export function isAppointmentStatus(value: unknown): value is AppointmentStatusEnum {
+    return typeof value === 'string' && (APPOINTMENT_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Transitions an actor may start from a status (what the UI should offer)
+ */
+export function getAllowedTransitions(from: AppointmentStatusEnum, actor: StatusActor): StatusTransition[] {
+    return STATUS_TRANSITIONS.filter(t => t.from === from && t.actors.includes(actor));
+}
+
+/**
+ * Check a status change. Keeping the same status (e.g. to update notes) is
+ * always allowed; `reverting` also allows undoing a transition the actor could
+ * have made, which is how a just-applied change is rolled back.
+ */
+export function checkTransition(
+    from: AppointmentStatusEnum,
+    to: AppointmentStatusEnum,
+    actor: StatusActor,
+    reverting: boolean = false
+): TransitionCheck {
+    if (!isAppointmentStatus(from) || !isAppointmentStatus(to)) {
+        return { ok: false, reason: `Unknown status "${!isAppointmentStatus(from) ? from : to}"` };
+    }
+    if (from === to) return { ok: true };
+
+    const allowed = (a: AppointmentStatusEnum, b: AppointmentStatusEnum) =>
+        STATUS_TRANSITIONS.some(t => t.from === a && t.to === b && t.actors.includes(actor));
+    if (allowed(from, to) || (reverting && allowed(to, from))) return { ok: true };
+
+    return { ok: false, reason: `Cannot change ${STATUS_LABELS[from]} to ${STATUS_LABELS[to]} as ${actor}` };
+}
+
+export function canTransition(from: AppointmentStatusEnum, to: AppointmentStatusEnum, actor: StatusActor): boolean {
+    return checkTransition(from, to, actor).ok;
+}